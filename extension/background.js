@@ -1,6 +1,8 @@
 // Second Thought - Background Service Worker
 // Handles API calls and state management
 
+importScripts('rules-analyzer.js');
+
 const API_BASE_URL = 'https://second-thought-gemini-server.netlify.app/api';
 
 // Get or create user ID
@@ -27,15 +29,42 @@ async function getSessionId() {
     return sessionId;
 }
 
+// Profile from local settings, shaped like the server's UserProfile
+async function getLocalProfile() {
+    const settings = await chrome.storage.local.get([
+        'savingsGoal',
+        'monthlyBudget',
+        'spendingThreshold',
+        'financialGoals',
+        'hourlyWage',
+        'homeCurrency',
+    ]);
+
+    return {
+        savingsGoal: settings.savingsGoal || undefined,
+        monthlyBudget: settings.monthlyBudget || undefined,
+        hourlyWage: settings.hourlyWage || undefined,
+        homeCurrency: settings.homeCurrency || undefined,
+        spendingThreshold: settings.spendingThreshold || 20,
+        financialGoals: (settings.financialGoals || '').split(',').map(g => g.trim()).filter(Boolean),
+    };
+}
+
+// Offline analysis when the API is unreachable
+async function buildFallbackAnalysis(product) {
+    return analyzeWithRules(product, await getLocalProfile());
+}
+
 // Analyze product
 async function analyzeProduct(product) {
     try {
         const userId = await getUserId();
+        const sessionId = await getSessionId();
 
         const response = await fetch(`${API_BASE_URL}/analyze`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ product, userId }),
+            body: JSON.stringify({ product, userId, sessionId }),
         });
 
         if (!response.ok) {
@@ -47,23 +76,83 @@ async function analyzeProduct(product) {
     } catch (error) {
         console.error('Analysis error:', error);
         // Return fallback analysis
-        return {
-            isEssential: false,
-            essentialityScore: 0.5,
-            reasoning: 'Unable to analyze at this time.',
-            warnings: [],
-            opportunityCost: {
-                amount: product.price,
-                projections: {
-                    years5: Math.round(product.price * 1.4),
-                    years10: Math.round(product.price * 1.97),
-                    years20: Math.round(product.price * 3.87),
-                },
-                comparisonText: `This ${product.price} could grow significantly over time.`,
-            },
-            personalizedMessage: 'Consider waiting 24 hours before making this purchase.',
-            suggestedAction: 'cooldown',
-        };
+        return await buildFallbackAnalysis(product);
+    }
+}
+
+// Parse Server-Sent Events from a fetch response, one callback per event
+async function readEventStream(response, onEvent) {
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary;
+        while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+
+            let event = 'message';
+            let data = '';
+            for (const line of frame.split('\n')) {
+                if (line.startsWith('event: ')) event = line.slice(7);
+                else if (line.startsWith('data: ')) data += line.slice(6);
+            }
+
+            if (data) onEvent(event, JSON.parse(data));
+        }
+    }
+}
+
+// Stream product analysis to the content script over a long-lived port
+async function streamAnalysis(product, port) {
+    let connected = true;
+    // The content script disconnects when the user leaves or closes the panel
+    const controller = new AbortController();
+    port.onDisconnect.addListener(() => {
+        connected = false;
+        controller.abort();
+    });
+
+    const post = (event, data) => {
+        if (connected) port.postMessage({ event, data });
+    };
+
+    try {
+        const userId = await getUserId();
+        const sessionId = await getSessionId();
+
+        const response = await fetch(`${API_BASE_URL}/analyze/stream`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ product, userId, sessionId }),
+            signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+            throw new Error('Analysis failed');
+        }
+
+        let completed = false;
+        await readEventStream(response, (event, data) => {
+            if (event === 'error') throw new Error(data.error);
+            if (event === 'complete') completed = true;
+            post(event, data);
+        });
+
+        if (!completed) {
+            throw new Error('Analysis stream ended early');
+        }
+    } catch (error) {
+        // Cancelled by the content script; nobody is waiting for a result
+        if (!connected) return;
+        console.error('Streaming analysis error:', error);
+        post('complete', { analysis: await buildFallbackAnalysis(product) });
     }
 }
 
@@ -89,7 +178,7 @@ async function checkCooldown(productUrl) {
 }
 
 // Start cool-down
-async function startCooldown(product, analysis) {
+async function startCooldown(product, analysis, metadata) {
     try {
         const userId = await getUserId();
 
@@ -106,7 +195,7 @@ async function startCooldown(product, analysis) {
         const data = await response.json();
 
         // Track engagement
-        await trackEngagement('cooldown_started', product, analysis);
+        await trackEngagement('cooldown_started', product, analysis, metadata);
 
         return data.coolDown;
     } catch (error) {
@@ -115,8 +204,8 @@ async function startCooldown(product, analysis) {
     }
 }
 
-// Track user engagement
-async function trackEngagement(action, product, analysis) {
+// Track user engagement; metadata links it to the recorded intervention
+async function trackEngagement(action, product, analysis, metadata) {
     try {
         const userId = await getUserId();
         const sessionId = await getSessionId();
@@ -128,7 +217,13 @@ async function trackEngagement(action, product, analysis) {
                 eventType: 'engagement',
                 userId,
                 sessionId,
-                data: { action, product, analysis },
+                data: {
+                    action,
+                    product,
+                    analysis,
+                    interventionId: metadata?.interventionId,
+                    promptVersion: metadata?.promptVersion,
+                },
             }),
         });
     } catch (error) {
@@ -136,6 +231,29 @@ async function trackEngagement(action, product, analysis) {
     }
 }
 
+// Continue the reflection conversation for an intervention
+async function reflect(interventionId, message) {
+    try {
+        const userId = await getUserId();
+        const sessionId = await getSessionId();
+
+        const response = await fetch(`${API_BASE_URL}/reflect`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ interventionId, userId, sessionId, message }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`API error: ${response.status}`);
+        }
+
+        return await response.json();
+    } catch (error) {
+        console.error('Reflection error:', error);
+        return null;
+    }
+}
+
 // Message handler
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     switch (message.type) {
@@ -152,13 +270,19 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
             return true;
 
         case 'START_COOLDOWN':
-            startCooldown(message.product, message.analysis).then(cooldown => {
+            startCooldown(message.product, message.analysis, message.metadata).then(cooldown => {
                 sendResponse({ cooldown });
             });
             return true;
 
+        case 'REFLECT':
+            reflect(message.interventionId, message.message).then(reflection => {
+                sendResponse({ reflection });
+            });
+            return true;
+
         case 'TRACK_ENGAGEMENT':
-            trackEngagement(message.action, message.product, message.analysis);
+            trackEngagement(message.action, message.product, message.analysis, message.metadata);
             sendResponse({ success: true });
             return false;
 
@@ -168,6 +292,17 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     }
 });
 
+// Streaming analysis uses a port so events can be pushed as they arrive
+chrome.runtime.onConnect.addListener((port) => {
+    if (port.name !== 'analyze-stream') return;
+
+    port.onMessage.addListener((message) => {
+        if (message.type === 'ANALYZE_PRODUCT') {
+            streamAnalysis(message.product, port);
+        }
+    });
+});
+
 // Check for expired cool-downs periodically
 chrome.alarms.create('checkExpiredCooldowns', { periodInMinutes: 60 });
 
@@ -7,6 +7,12 @@
   // Store current product and analysis for tracking
   let currentProduct = null;
   let currentAnalysis = null;
+  let currentMetadata = null;
+  // Port of the analysis stream in flight, if any
+  let activePort = null;
+
+  // Structured data declaring the price's currency
+  const DECLARED_CURRENCY = '[itemprop="priceCurrency"], meta[property="product:price:currency"], meta[property="og:price:currency"]';
 
   // Product extraction patterns for different e-commerce sites
   const EXTRACTION_PATTERNS = {
@@ -15,18 +21,27 @@
       price: '.a-price .a-offscreen, #priceblock_ourprice, #priceblock_dealprice, .a-price-whole',
       originalPrice: '.a-text-price .a-offscreen, #priceblock_ourprice_lbl + .a-text-price',
       urgency: '.a-color-price, #availability, .a-declarative[data-action="a-modal"]',
+      image: '#landingImage, #imgBlkFront, #main-image',
+      billing: '#sns-base-price, #subscriptionPrice, .a-price + .a-size-small',
+      currency: DECLARED_CURRENCY,
     },
     ebay: {
       name: '.x-item-title__mainTitle',
       price: '.x-price-primary .ux-textspans',
       originalPrice: '.x-price-primary .ux-textspans--STRIKETHROUGH',
       urgency: '.d-urgency-message, .vi-notify-new-bg-dBtm',
+      image: '.ux-image-carousel-item.active img, .ux-image-carousel-item img',
+      billing: '.x-price-primary',
+      currency: DECLARED_CURRENCY,
     },
     generic: {
       name: 'h1, [itemprop="name"], .product-title, .product-name',
       price: '[itemprop="price"], .price, .product-price, .current-price',
       originalPrice: '.original-price, .was-price, .compare-price, del',
       urgency: '.urgency, .limited, .stock-warning, .countdown',
+      image: 'meta[property="og:image"], [itemprop="image"], .product-image img, .product-gallery img',
+      billing: '.price-period, .billing-period, .price-interval, .subscription-price, [itemprop="billingDuration"]',
+      currency: DECLARED_CURRENCY,
     },
   };
 
@@ -58,13 +73,55 @@
     return null;
   }
 
-  // Extract currency from text
-  function parseCurrency(text) {
-    if (!text) return 'USD';
-    if (text.includes('$')) return 'USD';
-    if (text.includes('€')) return 'EUR';
-    if (text.includes('£')) return 'GBP';
-    return 'USD';
+  // Currency symbols, checked in order so prefixed dollars come before '$'
+  const CURRENCY_SYMBOLS = [
+    ['R$', 'BRL'],
+    ['C$', 'CAD'],
+    ['CA$', 'CAD'],
+    ['A$', 'AUD'],
+    ['AU$', 'AUD'],
+    ['NZ$', 'NZD'],
+    ['HK$', 'HKD'],
+    ['S$', 'SGD'],
+    ['MX$', 'MXN'],
+    ['$', 'USD'],
+    ['€', 'EUR'],
+    ['£', 'GBP'],
+    ['¥', 'JPY'],
+    ['₹', 'INR'],
+    ['₩', 'KRW'],
+  ];
+
+  // Extract currency from text: an ISO code with a known rate, then a symbol,
+  // then the page's declared currency. Rates come from rules-analyzer.js.
+  function parseCurrency(text, declared) {
+    const rates = RULES_EXCHANGE_RATES.rates;
+    const code = text && (text.match(/\b[A-Z]{3}\b/g) || []).find((match) => match in rates);
+    if (code) return code;
+
+    const symbol = text && CURRENCY_SYMBOLS.find(([mark]) => text.includes(mark));
+    if (symbol) return symbol[1];
+
+    const hint = declared && declared.trim().toUpperCase();
+    return hint && hint in rates ? hint : 'USD';
+  }
+
+  // The currency a page declares in its structured data, if any
+  function extractDeclaredCurrency(selector) {
+    for (const el of document.querySelectorAll(selector)) {
+      const value = el.getAttribute('content') || el.textContent;
+      if (value && value.trim()) return value.trim();
+    }
+    return null;
+  }
+
+  // Extract the billing period of a subscription price; undefined for one-time prices
+  function parseBillingPeriod(text) {
+    if (!text) return undefined;
+    if (/(\/\s*(wk|week)\b|per week|a week|weekly|every week)/i.test(text)) return 'weekly';
+    if (/(\/\s*(mo|mth|month)\b|per month|a month|monthly|every month)/i.test(text)) return 'monthly';
+    if (/(\/\s*(yr|year)\b|per (year|annum)|a year|annual(ly)?|yearly|every year)/i.test(text)) return 'annual';
+    return undefined;
   }
 
   // Extract urgency indicators
@@ -98,6 +155,24 @@
     return [...new Set(indicators)].slice(0, 5);
   }
 
+  // Extract the primary product image as an absolute http(s) URL
+  function extractImageUrl(selector) {
+    const elements = document.querySelectorAll(selector);
+    for (const el of elements) {
+      const src = el.getAttribute('data-old-hires') || el.getAttribute('content') ||
+        el.getAttribute('src') || el.getAttribute('href');
+      if (!src) continue;
+
+      try {
+        const url = new URL(src.trim(), window.location.href);
+        if (url.protocol === 'http:' || url.protocol === 'https:') return url.href;
+      } catch {
+        // Ignore malformed image URLs
+      }
+    }
+    return undefined;
+  }
+
   // Check if this is a product page
   function isProductPage() {
     const site = detectSite();
@@ -125,7 +200,7 @@
 
     const price = parsePrice(priceText);
     const originalPrice = parsePrice(originalPriceText);
-    const currency = parseCurrency(priceText);
+    const currency = parseCurrency(priceText, extractDeclaredCurrency(patterns.currency));
 
     if (!price) {
       return null;
@@ -135,8 +210,10 @@
       name: name.substring(0, 200),
       price,
       currency,
+      billingPeriod: parseBillingPeriod(priceText) || parseBillingPeriod(extractText(patterns.billing)),
       originalPrice: originalPrice && originalPrice > price ? originalPrice : undefined,
       url: window.location.href,
+      imageUrl: extractImageUrl(patterns.image),
       urgencyIndicators,
     };
   }
@@ -168,6 +245,7 @@
         action: 'dismissed',
         product: currentProduct,
         analysis: currentAnalysis,
+        metadata: currentMetadata,
       });
     });
 
@@ -185,78 +263,215 @@
     });
   }
 
+  // Stop an in-flight analysis; disconnecting the port cancels the request
+  function cancelAnalysis() {
+    if (activePort) {
+      activePort.disconnect();
+      activePort = null;
+    }
+  }
+
   // Hide panel with animation
   function hidePanel() {
+    cancelAnalysis();
     const panel = document.getElementById('second-thought-panel');
     if (panel) {
       panel.classList.remove('visible');
     }
   }
 
-  // Format currency
+  // Format currency in its own locale; shared with rules-analyzer.js
   function formatCurrency(amount, currency) {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: currency || 'USD',
-    }).format(amount);
+    return formatRulesCurrency(amount, currency || 'USD');
   }
 
-  // Update panel with analysis results
-  function updatePanelWithAnalysis(analysis, product) {
-    // Store for tracking
-    currentProduct = product;
-    currentAnalysis = analysis;
+  // Model-written text can echo page content, so it is escaped before rendering
+  function escapeHtml(text) {
+    const div = document.createElement('div');
+    div.textContent = text;
+    return div.innerHTML;
+  }
 
-    const panel = document.getElementById('second-thought-panel');
-    if (!panel) return;
+  // Render the "Our Take" section; also used for partial messages mid-stream
+  function renderTakeSection(message) {
+    return `
+      <div class="st-section">
+        <div class="st-section-title">💬 Our Take</div>
+        <div class="st-message">${escapeHtml(message)}</div>
+      </div>
+    `;
+  }
 
-    const content = panel.querySelector('.st-content');
+  const BILLING_LABELS = { weekly: 'a week', monthly: 'a month', annual: 'a year' };
 
-    let warningsHtml = '';
-    if (analysis.warnings && analysis.warnings.length > 0) {
-      warningsHtml = `
-        <div class="st-section">
-          <div class="st-section-title">⚠️ Warnings</div>
-          <div class="st-warnings">
-            ${analysis.warnings.map(w => `
-              <div class="st-warning">
-                <span class="st-warning-icon">⚠️</span>
-                <span class="st-warning-text">${w.explanation}</span>
+  // Render the opportunity cost projections, in nominal terms and in today's money;
+  // simulated projections show the 10th to 90th percentile range, and
+  // subscriptions the annual and total amount paid
+  function renderOpportunityCostSection(opportunityCost, product) {
+    const recurring = opportunityCost.recurring;
+
+    // Analyses from before horizons were returned only have the fixed projections
+    const horizons = opportunityCost.horizons || [5, 10, 20].map((years) => ({
+      years,
+      nominal: opportunityCost.projections[`years${years}`],
+    }));
+
+    return `
+      <div class="st-section">
+        <div class="st-section-title">📈 Opportunity Cost</div>
+        <div class="st-opportunity-cost">
+          <h3>${recurring
+            ? `If you invested ${formatCurrency(product.price, product.currency)} ${BILLING_LABELS[recurring.billingPeriod]} instead:`
+            : `If you invested ${formatCurrency(product.price, product.currency)} instead:`}</h3>
+          ${recurring ? `<div class="st-projection-label">That's ${formatCurrency(recurring.annualCost, product.currency)} a year</div>` : ''}
+          <div class="st-projections">
+            ${horizons.map((h) => `
+              <div class="st-projection">
+                <div class="st-projection-value">${h.range
+                  ? `${formatCurrency(h.range.p10, product.currency)} – ${formatCurrency(h.range.p90, product.currency)}`
+                  : formatCurrency(h.nominal, product.currency)}</div>
+                <div class="st-projection-label">in ${h.years} years</div>
+                ${h.totalPaid !== undefined ? `<div class="st-projection-label">${formatCurrency(h.totalPaid, product.currency)} paid in total</div>` : ''}
+                ${h.range ? `<div class="st-projection-label">median ${formatCurrency(h.range.p50, product.currency)}</div>` : ''}
+                ${h.real !== undefined ? `<div class="st-projection-label">${formatCurrency(h.real, product.currency)} in today's money</div>` : ''}
               </div>
             `).join('')}
           </div>
         </div>
-      `;
+      </div>
+    `;
+  }
+
+  // Render the price in the home currency, as hours of work and as savings goal
+  // delay, when the profile allows
+  function renderPersonalCostSection(personalCost, convertedPrice, product) {
+    if (!personalCost && !convertedPrice) {
+      return '';
     }
 
-    content.innerHTML = `
+    const lines = [];
+    if (convertedPrice) {
+      lines.push(`💱 ${formatCurrency(product.price, product.currency)} is about `
+        + `${formatCurrency(convertedPrice.amount, convertedPrice.currency)} (rates as of ${convertedPrice.ratesAsOf})`);
+    }
+    const cost = personalCost || {};
+    if (cost.hoursOfWork !== undefined) {
+      lines.push(`⏱️ ${cost.hoursOfWork} hours of work`);
+    }
+    if (cost.goalDelayDays !== undefined) {
+      lines.push(`🎯 Pushes your savings goal back ${cost.goalDelayDays} days`);
+    }
+
+    return `
       <div class="st-section">
-        <div class="st-section-title">💬 Our Take</div>
-        <div class="st-message">${analysis.personalizedMessage}</div>
+        <div class="st-section-title">🧮 What It Really Costs</div>
+        ${lines.map((line) => `<div class="st-projection-label">${line}</div>`).join('')}
       </div>
+    `;
+  }
 
+  // Render pricing and AI warnings
+  function renderWarningsSection(warnings) {
+    if (!warnings || warnings.length === 0) {
+      return '';
+    }
+
+    return `
       <div class="st-section">
-        <div class="st-section-title">📈 Opportunity Cost</div>
-        <div class="st-opportunity-cost">
-          <h3>If you invested ${formatCurrency(product.price, product.currency)} instead:</h3>
-          <div class="st-projections">
-            <div class="st-projection">
-              <div class="st-projection-value">${formatCurrency(analysis.opportunityCost.projections.years5, product.currency)}</div>
-              <div class="st-projection-label">in 5 years</div>
+        <div class="st-section-title">⚠️ Warnings</div>
+        <div class="st-warnings">
+          ${warnings.map(w => `
+            <div class="st-warning">
+              <span class="st-warning-icon">⚠️</span>
+              <span class="st-warning-text">${escapeHtml(w.explanation)}</span>
             </div>
-            <div class="st-projection">
-              <div class="st-projection-value">${formatCurrency(analysis.opportunityCost.projections.years10, product.currency)}</div>
-              <div class="st-projection-label">in 10 years</div>
-            </div>
-            <div class="st-projection">
-              <div class="st-projection-value">${formatCurrency(analysis.opportunityCost.projections.years20, product.currency)}</div>
-              <div class="st-projection-label">in 20 years</div>
+          `).join('')}
+        </div>
+      </div>
+    `;
+  }
+
+  const ALTERNATIVE_LABELS = {
+    used_or_refurbished: '♻️ Used or refurbished',
+    cheaper_model: '🏷️ Cheaper model',
+    rent_or_borrow: '🤝 Rent or borrow',
+    free_option: '📚 Free option',
+  };
+
+  // Render cheaper alternatives with their estimated savings
+  function renderAlternativesSection(alternatives, product) {
+    if (!alternatives || alternatives.length === 0) {
+      return '';
+    }
+
+    return `
+      <div class="st-section">
+        <div class="st-section-title">💡 Cheaper Alternatives</div>
+        <div class="st-alternatives">
+          ${alternatives.map(a => `
+            <div class="st-alternative">
+              <div class="st-alternative-header">
+                <span class="st-alternative-type">${ALTERNATIVE_LABELS[a.type] || 'Alternative'}</span>
+                <span class="st-alternative-savings">Save ~${formatCurrency(a.estimatedSavings, product.currency)}</span>
+              </div>
+              <div class="st-alternative-text">${escapeHtml(a.description)}</div>
             </div>
-          </div>
+          `).join('')}
         </div>
       </div>
+    `;
+  }
+
+  // Render whatever parts of the analysis have streamed in so far
+  function updatePanelWithPartialAnalysis(partial, product) {
+    const panel = document.getElementById('second-thought-panel');
+    if (!panel) return;
+
+    const content = panel.querySelector('.st-content');
+    const warnings = [...(partial.warnings || []), ...(partial.pricingWarnings || [])];
+
+    content.innerHTML = `
+      ${partial.personalizedMessage
+        ? renderTakeSection(partial.personalizedMessage)
+        : `
+          <div class="st-section">
+            <div class="st-section-title">💬 Our Take</div>
+            <div class="st-loading-text">Thinking it over...</div>
+          </div>
+        `}
 
-      ${warningsHtml}
+      ${partial.opportunityCost ? renderOpportunityCostSection(partial.opportunityCost, product) : ''}
+
+      ${renderPersonalCostSection(partial.personalCost, partial.convertedPrice, product)}
+
+      ${renderAlternativesSection(partial.alternatives, product)}
+
+      ${renderWarningsSection(warnings)}
+    `;
+  }
+
+  // Update panel with analysis results
+  function updatePanelWithAnalysis(analysis, product, metadata) {
+    // Store for tracking
+    currentProduct = product;
+    currentAnalysis = analysis;
+    currentMetadata = metadata || null;
+
+    const panel = document.getElementById('second-thought-panel');
+    if (!panel) return;
+
+    const content = panel.querySelector('.st-content');
+
+    content.innerHTML = `
+      ${renderTakeSection(analysis.personalizedMessage)}
+
+      ${renderOpportunityCostSection(analysis.opportunityCost, product)}
+
+      ${renderPersonalCostSection(analysis.personalCost, analysis.convertedPrice, product)}
+
+      ${renderAlternativesSection(analysis.alternatives, product)}
+
+      ${renderWarningsSection(analysis.warnings)}
 
       <div class="st-actions">
         <button class="st-btn st-btn-primary" id="st-cooldown-btn">
@@ -266,6 +481,12 @@
           Continue
         </button>
       </div>
+
+      ${currentMetadata && currentMetadata.interventionId ? `
+        <button class="st-btn st-btn-link" id="st-reflect-btn">
+          💬 Talk it through
+        </button>
+      ` : ''}
     `;
 
     // Cool-down button handler
@@ -274,6 +495,7 @@
         type: 'START_COOLDOWN',
         product,
         analysis,
+        metadata: currentMetadata,
       });
       showCooldownStarted();
     });
@@ -286,8 +508,131 @@
         action: 'proceeded',
         product: currentProduct,
         analysis: currentAnalysis,
+        metadata: currentMetadata,
       });
     });
+
+    // Reflection button handler
+    const reflectBtn = document.getElementById('st-reflect-btn');
+    if (reflectBtn) {
+      reflectBtn.addEventListener('click', () => showReflection());
+    }
+  }
+
+  const ACTION_LABELS = {
+    proceed: 'Go ahead if it still feels right.',
+    cooldown: 'Give it 24 hours before deciding.',
+    skip: 'Consider skipping this one.',
+  };
+
+  // Send a reflection turn; without a message, starts or resumes the dialog
+  function sendReflection(message) {
+    return new Promise((resolve) => {
+      chrome.runtime.sendMessage({
+        type: 'REFLECT',
+        interventionId: currentMetadata.interventionId,
+        message,
+      }, (response) => resolve(response && response.reflection));
+    });
+  }
+
+  // Render conversation messages as text so model output is never parsed as HTML
+  function renderReflectionMessages(container, messages) {
+    container.innerHTML = '';
+    for (const m of messages) {
+      const bubble = document.createElement('div');
+      bubble.className = `st-chat-message st-chat-${m.role}`;
+      bubble.textContent = m.content;
+      container.appendChild(bubble);
+    }
+    container.scrollTop = container.scrollHeight;
+  }
+
+  function renderReflection(reflection) {
+    const panel = document.getElementById('second-thought-panel');
+    if (!panel) return;
+
+    const content = panel.querySelector('.st-content');
+    content.innerHTML = `
+      <div class="st-section">
+        <div class="st-section-title">💬 Talk It Through</div>
+        <div class="st-chat" id="st-chat"></div>
+      </div>
+      ${reflection.completed ? `
+        <div class="st-section">
+          <div class="st-section-title">🧭 Where You Landed</div>
+          <div class="st-message">${ACTION_LABELS[reflection.revisedAction] || ACTION_LABELS.cooldown}</div>
+        </div>
+        <div class="st-actions">
+          <button class="st-btn st-btn-primary" id="st-cooldown-btn">⏰ Start 24h Cool-Down</button>
+          <button class="st-btn st-btn-secondary" id="st-proceed-btn">Continue</button>
+        </div>
+      ` : `
+        <form class="st-chat-form" id="st-chat-form">
+          <input class="st-chat-input" id="st-chat-input" type="text" maxlength="500" placeholder="Type your answer..." autocomplete="off">
+          <button class="st-btn st-btn-primary" type="submit">Send</button>
+        </form>
+      `}
+    `;
+
+    renderReflectionMessages(document.getElementById('st-chat'), reflection.messages);
+
+    if (reflection.completed) {
+      // Follow-up actions use the revised suggestion
+      const analysis = { ...currentAnalysis, suggestedAction: reflection.revisedAction || currentAnalysis.suggestedAction };
+      document.getElementById('st-cooldown-btn').addEventListener('click', () => {
+        chrome.runtime.sendMessage({
+          type: 'START_COOLDOWN',
+          product: currentProduct,
+          analysis,
+          metadata: currentMetadata,
+        });
+        showCooldownStarted();
+      });
+      document.getElementById('st-proceed-btn').addEventListener('click', () => {
+        hidePanel();
+        chrome.runtime.sendMessage({
+          type: 'TRACK_ENGAGEMENT',
+          action: 'proceeded',
+          product: currentProduct,
+          analysis,
+          metadata: currentMetadata,
+        });
+      });
+      return;
+    }
+
+    const form = document.getElementById('st-chat-form');
+    const input = document.getElementById('st-chat-input');
+    input.focus();
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const message = input.value.trim();
+      if (!message) return;
+
+      input.value = '';
+      form.querySelectorAll('input, button').forEach((el) => { el.disabled = true; });
+      renderReflectionMessages(document.getElementById('st-chat'), [
+        ...reflection.messages,
+        { role: 'user', content: message },
+      ]);
+
+      const next = await sendReflection(message);
+      if (next) {
+        renderReflection(next);
+      } else {
+        form.querySelectorAll('input, button').forEach((el) => { el.disabled = false; });
+        input.value = message;
+      }
+    });
+  }
+
+  // Open the guided reflection conversation for the current analysis
+  async function showReflection() {
+    const reflection = await sendReflection();
+    if (reflection) {
+      renderReflection(reflection);
+    }
   }
 
   // Show cool-down started message
@@ -332,7 +677,7 @@
       </div>
       <div class="st-section">
         <div class="st-section-title">💬 Original Analysis</div>
-        <div class="st-message">${cooldown.analysisResult?.personalizedMessage || 'Consider if you really need this.'}</div>
+        <div class="st-message">${escapeHtml(cooldown.analysisResult?.personalizedMessage || 'Consider if you really need this.')}</div>
       </div>
       <div class="st-actions">
         <button class="st-btn st-btn-secondary" id="st-close-cooldown">Close</button>
@@ -342,6 +687,33 @@
     document.getElementById('st-close-cooldown').addEventListener('click', hidePanel);
   }
 
+  // Request analysis, rendering each section as its part of the stream arrives
+  function streamAnalysis(product) {
+    cancelAnalysis();
+    const port = chrome.runtime.connect({ name: 'analyze-stream' });
+    activePort = port;
+    const partial = {};
+
+    port.onMessage.addListener(({ event, data }) => {
+      if (event === 'deterministic') {
+        partial.opportunityCost = data.opportunityCost;
+        partial.personalCost = data.personalCost;
+        partial.convertedPrice = data.convertedPrice;
+        partial.pricingWarnings = data.warnings;
+        updatePanelWithPartialAnalysis(partial, product);
+      } else if (event === 'field') {
+        partial[data.field] = data.value;
+        updatePanelWithPartialAnalysis(partial, product);
+      } else if (event === 'complete') {
+        activePort = null;
+        port.disconnect();
+        updatePanelWithAnalysis(data.analysis, product, data.metadata);
+      }
+    });
+
+    port.postMessage({ type: 'ANALYZE_PRODUCT', product });
+  }
+
   // Main initialization
   async function init() {
     // Wait for page to load
@@ -360,14 +732,21 @@
       return;
     }
 
-    // Check minimum price threshold (default $20)
-    const settings = await chrome.storage.local.get(['spendingThreshold']);
+    // Check minimum price threshold (default 20), in the home currency when set;
+    // a price that cannot be converted is analyzed rather than skipped
+    const settings = await chrome.storage.local.get(['spendingThreshold', 'imageAnalysisEnabled', 'homeCurrency']);
     const threshold = settings.spendingThreshold || 20;
+    const price = rulesHomeCurrencyPrice(product, { homeCurrency: settings.homeCurrency });
 
-    if (product.price < threshold) {
+    if (price !== null && price < threshold) {
       return;
     }
 
+    // Respect the image privacy setting before anything leaves the page
+    if (settings.imageAnalysisEnabled === false) {
+      delete product.imageUrl;
+    }
+
     // Show panel
     showPanel();
 
@@ -380,14 +759,7 @@
         showExistingCooldown(response.cooldown);
       } else {
         // Request analysis
-        chrome.runtime.sendMessage({
-          type: 'ANALYZE_PRODUCT',
-          product,
-        }, (analysisResponse) => {
-          if (analysisResponse?.analysis) {
-            updatePanelWithAnalysis(analysisResponse.analysis, product);
-          }
-        });
+        streamAnalysis(product);
       }
     });
   }
@@ -395,6 +767,9 @@
   // Run initialization
   init();
 
+  // Leaving the page cancels the analysis instead of letting it run on
+  window.addEventListener('pagehide', cancelAnalysis);
+
   // Listen for URL changes (SPA navigation)
   let lastUrl = window.location.href;
   new MutationObserver(() => {
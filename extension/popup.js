@@ -15,10 +15,14 @@ const dailyInsight = document.getElementById('daily-insight');
 // Settings elements
 const savingsGoalInput = document.getElementById('savings-goal');
 const monthlyBudgetInput = document.getElementById('monthly-budget');
+const hourlyWageInput = document.getElementById('hourly-wage');
+const homeCurrencyInput = document.getElementById('home-currency');
 const spendingThresholdInput = document.getElementById('spending-threshold');
 const thresholdDisplay = document.getElementById('threshold-display');
 const financialGoalsInput = document.getElementById('financial-goals');
 const cooldownEnabledInput = document.getElementById('cooldown-enabled');
+const imageAnalysisEnabledInput = document.getElementById('image-analysis-enabled');
+const coachingPersonaInput = document.getElementById('coaching-persona');
 const saveSettingsBtn = document.getElementById('save-settings');
 
 // Cool-downs list
@@ -161,19 +165,27 @@ async function loadSettings() {
     const settings = await chrome.storage.local.get([
         'savingsGoal',
         'monthlyBudget',
+        'hourlyWage',
+        'homeCurrency',
         'spendingThreshold',
         'financialGoals',
         'cooldownEnabled',
+        'imageAnalysisEnabled',
+        'coachingPersona',
     ]);
 
     if (settings.savingsGoal) savingsGoalInput.value = settings.savingsGoal;
     if (settings.monthlyBudget) monthlyBudgetInput.value = settings.monthlyBudget;
+    if (settings.hourlyWage) hourlyWageInput.value = settings.hourlyWage;
+    homeCurrencyInput.value = settings.homeCurrency || '';
     if (settings.spendingThreshold) {
         spendingThresholdInput.value = settings.spendingThreshold;
         thresholdDisplay.textContent = `$${settings.spendingThreshold}`;
     }
     if (settings.financialGoals) financialGoalsInput.value = settings.financialGoals;
     cooldownEnabledInput.checked = settings.cooldownEnabled !== false;
+    imageAnalysisEnabledInput.checked = settings.imageAnalysisEnabled !== false;
+    coachingPersonaInput.value = settings.coachingPersona || 'gentle';
 }
 
 // Save settings
@@ -181,9 +193,13 @@ async function saveSettings() {
     const settings = {
         savingsGoal: parseInt(savingsGoalInput.value) || 0,
         monthlyBudget: parseInt(monthlyBudgetInput.value) || 0,
+        hourlyWage: parseFloat(hourlyWageInput.value) || 0,
+        homeCurrency: homeCurrencyInput.value,
         spendingThreshold: parseInt(spendingThresholdInput.value) || 20,
         financialGoals: financialGoalsInput.value,
         cooldownEnabled: cooldownEnabledInput.checked,
+        imageAnalysisEnabled: imageAnalysisEnabledInput.checked,
+        coachingPersona: coachingPersonaInput.value,
     };
 
     await chrome.storage.local.set(settings);
@@ -199,9 +215,15 @@ async function saveSettings() {
                     userId,
                     savingsGoal: settings.savingsGoal,
                     monthlyBudget: settings.monthlyBudget,
+                    // An empty field clears the wage; the API rejects 0
+                    hourlyWage: settings.hourlyWage || null,
+                    // "Same as the product" clears the home currency
+                    homeCurrency: settings.homeCurrency || null,
                     spendingThreshold: settings.spendingThreshold,
                     financialGoals: settings.financialGoals.split(',').map(g => g.trim()).filter(Boolean),
                     coolDownEnabled: settings.cooldownEnabled,
+                    imageAnalysisEnabled: settings.imageAnalysisEnabled,
+                    coachingPersona: settings.coachingPersona,
                 }),
             });
         } catch (error) {
@@ -0,0 +1,440 @@
+// Second Thought - Rules-Based Analyzer
+// Offline analysis used when the API is unreachable.
+// Mirrors src/lib/rules-analyzer.ts, src/lib/opportunity-cost.ts and
+// src/lib/currency.ts; keep in sync.
+
+const RULES_DEFAULT_ASSUMPTIONS = {
+    annualGrowthRate: 0.07,
+    annualInflationRate: 0.03,
+    contributionTiming: 'start',
+    horizons: [5, 10, 20],
+};
+
+const RULES_DEFAULT_SIMULATION = {
+    volatility: 0.15,
+    trials: 500,
+    seed: 1,
+};
+
+// Bundled rates, units per USD; the same table as src/lib/currency.ts, which
+// rules-analyzer.test.ts checks
+const RULES_EXCHANGE_RATES = {
+    base: 'USD',
+    asOf: '2026-10-01',
+    rates: {
+        USD: 1,
+        EUR: 0.92,
+        GBP: 0.79,
+        JPY: 149.5,
+        INR: 83.2,
+        CAD: 1.36,
+        AUD: 1.52,
+        NZD: 1.65,
+        CHF: 0.88,
+        CNY: 7.25,
+        HKD: 7.8,
+        SGD: 1.34,
+        KRW: 1330,
+        MXN: 17.9,
+        BRL: 5.0,
+        SEK: 10.7,
+    },
+};
+
+const RULES_CURRENCY_LOCALES = {
+    USD: 'en-US',
+    EUR: 'de-DE',
+    GBP: 'en-GB',
+    JPY: 'ja-JP',
+    INR: 'en-IN',
+    CAD: 'en-CA',
+    AUD: 'en-AU',
+    NZD: 'en-NZ',
+    CHF: 'de-CH',
+    CNY: 'zh-CN',
+    HKD: 'zh-HK',
+    SGD: 'en-SG',
+    KRW: 'ko-KR',
+    MXN: 'es-MX',
+    BRL: 'pt-BR',
+    SEK: 'sv-SE',
+};
+
+const RULES_PERIODS_PER_YEAR = { weekly: 52, monthly: 12, annual: 1 };
+const RULES_PERIOD_LABELS = { weekly: 'a week', monthly: 'a month', annual: 'a year' };
+
+// Checked in order; the first matching rule sets the base score
+const CATEGORY_RULES = [
+    {
+        label: 'a household or health essential',
+        essentialityScore: 0.85,
+        keywords: /\b(groceries|grocery|food|medicine|medication|prescription|vitamins?|diapers?|baby formula|toilet paper|soap|toothpaste|shampoo|detergent|first aid|bandages?)\b/i,
+    },
+    {
+        label: 'a replacement or repair item',
+        essentialityScore: 0.65,
+        keywords: /\b(replacement|repair|filters?|batter(y|ies)|chargers?|light bulbs?|smoke detector|spare)\b/i,
+    },
+    {
+        label: 'a work or study item',
+        essentialityScore: 0.55,
+        keywords: /\b(textbook|notebooks?|office|desk|printer|ink|school|work boots)\b/i,
+    },
+    {
+        label: 'everyday clothing',
+        essentialityScore: 0.45,
+        keywords: /\b(socks|underwear|t-shirts?|jeans|winter coat|jacket)\b/i,
+    },
+    {
+        label: 'a gadget or electronics purchase',
+        essentialityScore: 0.25,
+        keywords: /\b(headphones|earbuds|speakers?|smart ?watch|tablet|console|gaming|drone|camera|tv|television|smartphone|laptop)\b/i,
+    },
+    {
+        label: 'an entertainment or collectible item',
+        essentialityScore: 0.2,
+        keywords: /\b(toys?|collectibles?|figures?|lego|funko|posters?|decor|video games?|board games?)\b/i,
+    },
+    {
+        label: 'a luxury or fashion item',
+        essentialityScore: 0.15,
+        keywords: /\b(designer|luxury|handbags?|jewel(le)?ry|watch|perfume|cologne|sneakers)\b/i,
+    },
+];
+
+const UNKNOWN_CATEGORY_SCORE = 0.35;
+const ESSENTIAL_THRESHOLD = 0.7;
+const BLOCKING_WARNING_CONFIDENCE = 0.6;
+
+// Formats in the locale the currency is most used in; also used by content.js
+function formatRulesCurrency(amount, currency = 'USD') {
+    return new Intl.NumberFormat(RULES_CURRENCY_LOCALES[currency] || 'en-US', {
+        style: 'currency',
+        currency,
+    }).format(amount);
+}
+
+// The product's price in the profile's home currency; undefined when there is
+// no home currency, it is already the product's, or either has no rate.
+function toRulesHomeCurrency(product, profile) {
+    const home = profile && profile.homeCurrency;
+    if (!home || home === product.currency) return undefined;
+
+    const rates = RULES_EXCHANGE_RATES.rates;
+    if (!Object.hasOwn(rates, product.currency) || !Object.hasOwn(rates, home)) return undefined;
+
+    const fromRate = rates[product.currency];
+    const toRate = rates[home];
+    if (!fromRate || !toRate) return undefined;
+
+    const rate = toRate / fromRate;
+    return {
+        amount: Math.round(product.price * rate * 100) / 100,
+        currency: home,
+        rate,
+        ratesAsOf: RULES_EXCHANGE_RATES.asOf,
+    };
+}
+
+// The price to compare against the profile's budget, goal and threshold; null
+// when the home currency has no rate from the product's.
+// Also used by content.js to compare against the spending threshold.
+function rulesHomeCurrencyPrice(product, profile) {
+    const home = profile && profile.homeCurrency;
+    if (!home || home === product.currency) return product.price;
+    const converted = toRulesHomeCurrency(product, profile);
+    return converted ? converted.amount : null;
+}
+
+function isRulesRate(value, max) {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+}
+
+function isRulesHorizonList(value) {
+    return Array.isArray(value)
+        && value.length > 0
+        && value.length <= 5
+        && value.every((years) => Number.isInteger(years) && years >= 1 && years <= 50);
+}
+
+function resolveRulesAssumptions(profile) {
+    const defaults = RULES_DEFAULT_ASSUMPTIONS;
+    return {
+        annualGrowthRate: isRulesRate(profile?.investmentGrowthRate, 0.3)
+            ? profile.investmentGrowthRate
+            : defaults.annualGrowthRate,
+        annualInflationRate: isRulesRate(profile?.inflationRate, 0.2)
+            ? profile.inflationRate
+            : defaults.annualInflationRate,
+        contributionTiming: profile?.contributionTiming === 'start' || profile?.contributionTiming === 'end'
+            ? profile.contributionTiming
+            : defaults.contributionTiming,
+        horizons: isRulesHorizonList(profile?.projectionHorizons)
+            ? [...new Set(profile.projectionHorizons)].sort((a, b) => a - b)
+            : defaults.horizons,
+        ...(profile?.projectionMode === 'monte_carlo' && {
+            simulation: {
+                ...RULES_DEFAULT_SIMULATION,
+                volatility: isRulesRate(profile.returnVolatility, 0.5)
+                    ? profile.returnVolatility
+                    : RULES_DEFAULT_SIMULATION.volatility,
+            },
+        }),
+    };
+}
+
+// Mulberry32, seeded so ranges match the server's
+function rulesSeededRandom(seed) {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// What a year of payments is worth at the end of that year
+function rulesYearOfPayments(payment, billingPeriod, growthFactor, contributionTiming) {
+    const periods = RULES_PERIODS_PER_YEAR[billingPeriod];
+    if (growthFactor === 1) return payment * periods;
+
+    const periodGrowth = Math.pow(growthFactor, 1 / periods);
+    const paidAtEnd = (payment * (growthFactor - 1)) / (periodGrowth - 1);
+    return contributionTiming === 'start' ? paidAtEnd * periodGrowth : paidAtEnd;
+}
+
+function simulateRulesRanges(amount, assumptions, simulation, billingPeriod) {
+    const random = rulesSeededRandom(simulation.seed);
+    // Box-Muller gives normal draws in pairs
+    let spare = null;
+    const normal = () => {
+        if (spare !== null) {
+            const draw = spare;
+            spare = null;
+            return draw;
+        }
+        const radius = Math.sqrt(-2 * Math.log(1 - random()));
+        const angle = 2 * Math.PI * random();
+        spare = radius * Math.sin(angle);
+        return radius * Math.cos(angle);
+    };
+    const round = (value) => Math.round(value * 100) / 100;
+    const percentile = (sorted, p) => sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+
+    const growth = 1 + assumptions.annualGrowthRate;
+    const sigma = Math.sqrt(Math.log(1 + Math.pow(simulation.volatility / growth, 2)));
+    const mu = Math.log(growth) - (sigma * sigma) / 2;
+
+    const compoundingYears = assumptions.horizons.map((years) =>
+        !billingPeriod && assumptions.contributionTiming === 'end' ? years - 1 : years);
+    const outcomes = compoundingYears.map(() => []);
+
+    for (let trial = 0; trial < simulation.trials; trial++) {
+        // Horizons are ascending, so each is reached in turn
+        let value = billingPeriod ? 0 : amount;
+        let year = 0;
+        compoundingYears.forEach((horizonYears, i) => {
+            for (; year < horizonYears; year++) {
+                const growthFactor = Math.exp(mu + sigma * normal());
+                value = value * growthFactor + (billingPeriod
+                    ? rulesYearOfPayments(amount, billingPeriod, growthFactor, assumptions.contributionTiming)
+                    : 0);
+            }
+            outcomes[i].push(value);
+        });
+    }
+
+    return outcomes.map((values) => {
+        const sorted = values.sort((a, b) => a - b);
+        return {
+            p10: round(percentile(sorted, 0.1)),
+            p50: round(percentile(sorted, 0.5)),
+            p90: round(percentile(sorted, 0.9)),
+        };
+    });
+}
+
+function projectRulesValue(price, years, assumptions, billingPeriod) {
+    const growth = 1 + assumptions.annualGrowthRate;
+    if (!billingPeriod) {
+        const compoundingYears = assumptions.contributionTiming === 'end' ? years - 1 : years;
+        return price * Math.pow(growth, compoundingYears);
+    }
+
+    const perYear = rulesYearOfPayments(price, billingPeriod, growth, assumptions.contributionTiming);
+    return growth === 1 ? perYear * years : (perYear * (Math.pow(growth, years) - 1)) / (growth - 1);
+}
+
+function calculateRulesOpportunityCost(price, currency = 'USD', assumptions = RULES_DEFAULT_ASSUMPTIONS, billingPeriod) {
+    const toProjections = (horizons) =>
+        Object.fromEntries(horizons.map((h) => [`years${h.years}`, h.nominal]));
+    const period = Object.hasOwn(RULES_PERIODS_PER_YEAR, billingPeriod) ? billingPeriod : undefined;
+
+    if (price <= 0) {
+        const horizons = assumptions.horizons.map((years) => ({ years, nominal: 0, real: 0 }));
+        return {
+            amount: 0,
+            projections: toProjections(horizons),
+            horizons,
+            assumptions,
+            comparisonText: 'Enter a valid price to see opportunity cost.',
+        };
+    }
+
+    const round = (value) => Math.round(value * 100) / 100;
+    const toReal = (nominal, years) => nominal / Math.pow(1 + assumptions.annualInflationRate, years);
+    const recurring = period && { billingPeriod: period, annualCost: round(price * RULES_PERIODS_PER_YEAR[period]) };
+    const ranges = assumptions.simulation && simulateRulesRanges(price, assumptions, assumptions.simulation, period);
+    const horizons = assumptions.horizons.map((years, i) => {
+        const nominal = projectRulesValue(price, years, assumptions, period);
+        return {
+            years,
+            nominal: round(nominal),
+            real: round(toReal(nominal, years)),
+            ...(ranges && { range: ranges[i] }),
+            ...(recurring && { totalPaid: round(recurring.annualCost * years) }),
+        };
+    });
+    const longest = horizons[horizons.length - 1];
+    const invested = recurring
+        ? `Paying ${formatRulesCurrency(price, currency)} ${RULES_PERIOD_LABELS[period]} adds up to `
+            + `${formatRulesCurrency(recurring.annualCost, currency)} a year and `
+            + `${formatRulesCurrency(longest.totalPaid, currency)} over ${longest.years} years. `
+            + 'Invested instead, it could grow to'
+        : `Investing ${formatRulesCurrency(price, currency)} today could grow to`;
+
+    return {
+        amount: price,
+        projections: toProjections(horizons),
+        horizons,
+        assumptions,
+        ...(recurring && { recurring }),
+        comparisonText: longest.range
+            ? `${invested} between ${formatRulesCurrency(longest.range.p10, currency)} and `
+                + `${formatRulesCurrency(longest.range.p90, currency)} in ${longest.years} years `
+                + `(median ${formatRulesCurrency(longest.range.p50, currency)}, `
+                + `or ${formatRulesCurrency(toReal(longest.range.p50, longest.years), currency)} in today's money).`
+            : `${invested} ${formatRulesCurrency(longest.nominal, currency)} in ${longest.years} years `
+                + `(${formatRulesCurrency(longest.real, currency)} in today's money).`,
+    };
+}
+
+// Hours of work at the user's wage and days of monthly budget the price takes up
+function calculateRulesPersonalCost(price, profile) {
+    const isPositive = (value) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+    const roundTenths = (value) => Math.round(value * 10) / 10;
+    if (!isPositive(price) || !profile) return undefined;
+
+    const hasWage = isPositive(profile.hourlyWage);
+    const hasGoal = isPositive(profile.savingsGoal) && isPositive(profile.monthlyBudget);
+    if (!hasWage && !hasGoal) return undefined;
+
+    return {
+        ...(hasWage && { hoursOfWork: roundTenths(price / profile.hourlyWage) }),
+        ...(hasGoal && { goalDelayDays: roundTenths((price / profile.monthlyBudget) * (365.25 / 12)) }),
+    };
+}
+
+function roundScore(score) {
+    return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+function matchCategoryRule(product) {
+    const text = `${product.name} ${product.category || ''}`;
+    return CATEGORY_RULES.find((rule) => rule.keywords.test(text)) || null;
+}
+
+function budgetAdjustment(price, profile) {
+    if (profile && profile.monthlyBudget) {
+        const share = price / profile.monthlyBudget;
+        if (share >= 0.5) return -0.2;
+        if (share >= 0.25) return -0.1;
+        if (share <= 0.05) return 0.05;
+        return 0;
+    }
+
+    if (profile && profile.spendingThreshold && price >= profile.spendingThreshold * 10) {
+        return -0.1;
+    }
+
+    return 0;
+}
+
+function buildRulesReasoning(rule, price, profile, warnings) {
+    const parts = [rule ? `This looks like ${rule.label}.` : "We couldn't tell what kind of product this is."];
+
+    if (price === null) {
+        parts.push(`We couldn't convert the price into ${profile && profile.homeCurrency}, so your budget was left out.`);
+    } else if (profile && profile.monthlyBudget) {
+        const percent = Math.round((price / profile.monthlyBudget) * 100);
+        parts.push(`It would use about ${percent}% of your monthly budget.`);
+    }
+
+    if (warnings.length > 0) {
+        parts.push(`We spotted ${warnings.length} pricing warning${warnings.length === 1 ? '' : 's'} on this page.`);
+    }
+
+    return parts.join(' ');
+}
+
+function buildRulesMessage(action, profile) {
+    const goal = profile && profile.financialGoals ? profile.financialGoals[0] : undefined;
+
+    if (action === 'proceed') {
+        return 'This looks like a reasonable purchase. Go ahead if it fits your plans.';
+    }
+    if (action === 'skip') {
+        return goal
+            ? `This costs more than your monthly budget. Skipping it keeps "${goal}" on track.`
+            : 'This costs more than your monthly budget. Consider skipping it for now.';
+    }
+    return goal
+        ? `Give it 24 hours and ask whether it moves you closer to "${goal}".`
+        : 'Give it 24 hours and see if you still want it tomorrow.';
+}
+
+// Analyze a purchase without a model; same result as the server for the same inputs.
+// Loaded into background.js with importScripts, and ahead of content.js as a
+// content script, so it is used from there.
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+function analyzeWithRules(product, profile, pricingWarnings = []) {
+    // The budget, threshold and wage are in the user's home currency; without
+    // a rate into it the price is not compared with them at all
+    const convertedPrice = toRulesHomeCurrency(product, profile);
+    const price = rulesHomeCurrencyPrice(product, profile);
+
+    const rule = matchCategoryRule(product);
+    const baseScore = rule ? rule.essentialityScore : UNKNOWN_CATEGORY_SCORE;
+    const adjustment = price === null ? 0 : budgetAdjustment(price, profile);
+    const essentialityScore = roundScore(baseScore + adjustment);
+    const isEssential = essentialityScore >= ESSENTIAL_THRESHOLD;
+
+    const blocked = pricingWarnings.some((w) => w.confidence >= BLOCKING_WARNING_CONFIDENCE);
+    const overBudget = price !== null && !!(profile && profile.monthlyBudget) && price > profile.monthlyBudget;
+
+    let suggestedAction = 'cooldown';
+    if (isEssential && !blocked) {
+        suggestedAction = 'proceed';
+    } else if (overBudget && !isEssential) {
+        suggestedAction = 'skip';
+    }
+
+    return {
+        isEssential,
+        essentialityScore,
+        reasoning: buildRulesReasoning(rule, price, profile, pricingWarnings),
+        warnings: [],
+        opportunityCost: calculateRulesOpportunityCost(
+            product.price,
+            product.currency,
+            resolveRulesAssumptions(profile),
+            product.billingPeriod
+        ),
+        personalCost: calculateRulesPersonalCost(price, profile),
+        convertedPrice,
+        personalizedMessage: buildRulesMessage(suggestedAction, profile),
+        suggestedAction,
+    };
+}
@@ -0,0 +1,52 @@
+// API Route: /api/admin/costs
+// Model spend per user and per day, from analyses and reflection turns;
+// requires the admin API token
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminAuthorized } from '@/lib/admin-auth';
+import { interventionManager } from '@/lib/interventions';
+
+function parseDate(value: string | null): Date | undefined | null {
+    if (!value) return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+}
+
+// GET /api/admin/costs?since=ISO_DATE&until=ISO_DATE&userId=xxx
+export async function GET(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    try {
+        const params = request.nextUrl.searchParams;
+        const since = parseDate(params.get('since'));
+        const until = parseDate(params.get('until'));
+
+        if (since === null || until === null) {
+            return NextResponse.json(
+                { error: 'since and until must be ISO dates' },
+                { status: 400 }
+            );
+        }
+
+        const summary = await interventionManager.getCostSummary(since, until, params.get('userId') || undefined);
+
+        return NextResponse.json({
+            success: true,
+            currency: 'USD',
+            since: since?.toISOString() ?? null,
+            until: until?.toISOString() ?? null,
+            ...summary,
+        });
+    } catch (error) {
+        console.error('Cost summary error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get cost summary' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,63 @@
+// API Route: /api/admin/exchange-rates
+// The rate table used to convert prices into users' home currencies, and
+// replacing it with fresher rates; requires the admin API token. Replaced
+// rates are stored in the rate backend, so other server instances pick them
+// up on their next refresh.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminAuthorized } from '@/lib/admin-auth';
+import { exchangeRates, validateExchangeRateTable, type ExchangeRateTable } from '@/lib/currency';
+
+// GET /api/admin/exchange-rates
+export async function GET(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    await exchangeRates.refresh();
+
+    return NextResponse.json({ success: true, rates: exchangeRates.getTable() });
+}
+
+// PUT /api/admin/exchange-rates
+export async function PUT(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    let table: unknown;
+    try {
+        table = await request.json();
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const error = validateExchangeRateTable(table);
+    if (error) {
+        return NextResponse.json(
+            { error },
+            { status: 400 }
+        );
+    }
+
+    try {
+        await exchangeRates.update(table as ExchangeRateTable);
+    } catch (error) {
+        console.error('Exchange rate update error:', error);
+        return NextResponse.json(
+            { error: 'Failed to store exchange rates' },
+            { status: 500 }
+        );
+    }
+
+    return NextResponse.json({ success: true, rates: exchangeRates.getTable() });
+}
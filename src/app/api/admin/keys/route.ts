@@ -0,0 +1,43 @@
+// API Route: /api/admin/keys
+// Per-key health, latency and daily usage for the Cerebras key set, and
+// reloading it after a rotation; requires the admin API token. Keys are only
+// returned redacted.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdminAuthorized } from '@/lib/admin-auth';
+import { loadBalancer } from '@/lib/load-balancer';
+
+// GET /api/admin/keys
+export async function GET(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    return NextResponse.json({
+        success: true,
+        strategy: loadBalancer.getStrategy(),
+        dailyBudget: loadBalancer.getDailyBudget(),
+        keys: loadBalancer.getKeyStats(),
+    });
+}
+
+// POST /api/admin/keys
+export async function POST(request: NextRequest) {
+    if (!isAdminAuthorized(request.headers.get('authorization'))) {
+        return NextResponse.json(
+            { error: 'Unauthorized' },
+            { status: 401 }
+        );
+    }
+
+    const keyCount = loadBalancer.reloadKeys();
+
+    return NextResponse.json({
+        success: true,
+        keyCount,
+        healthyKeyCount: loadBalancer.getHealthyKeyCount(),
+    });
+}
@@ -0,0 +1,102 @@
+// API Route: /api/analyze/batch
+// Analyzes a cart of products and summarizes it against the user's budget
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeCart, MAX_BATCH_ITEMS } from '@/lib/batch-analyzer';
+import { exchangeRates } from '@/lib/currency';
+import { createDeadline } from '@/lib/deadline';
+import { interventionManager } from '@/lib/interventions';
+import { opikTracker } from '@/lib/opik';
+import { assignPromptVersion } from '@/lib/prompt-registry';
+import { userProfileManager } from '@/lib/user-profile';
+import type { ProductInfo } from '@/lib/types';
+
+export async function POST(request: NextRequest) {
+    // One budget for the whole cart; aborts early if the client goes away
+    const signal = createDeadline(request.signal);
+
+    try {
+        const body = await request.json();
+        const { products, userId, sessionId } = body as {
+            products: ProductInfo[];
+            userId?: string;
+            sessionId?: string;
+        };
+
+        if (!Array.isArray(products) || products.length === 0) {
+            return NextResponse.json(
+                { error: 'products must be a non-empty array' },
+                { status: 400 }
+            );
+        }
+
+        if (products.length > MAX_BATCH_ITEMS) {
+            return NextResponse.json(
+                { error: `A batch can contain at most ${MAX_BATCH_ITEMS} products` },
+                { status: 400 }
+            );
+        }
+
+        const invalidIndex = products.findIndex((product) => !product || !product.name || !product.price);
+        if (invalidIndex !== -1) {
+            return NextResponse.json(
+                { error: `Invalid product data at index ${invalidIndex}. Name and price are required.` },
+                { status: 400 }
+            );
+        }
+
+        // Get or create user profile if userId provided
+        let userProfile = undefined;
+        if (userId) {
+            userProfile = await userProfileManager.getOrCreate(userId);
+        }
+
+        // Rates replaced on another instance apply before any conversion
+        await exchangeRates.refresh();
+
+        const promptVersion = assignPromptVersion(userId);
+        const startTime = Date.now();
+        const { items, summary } = await analyzeCart(products, userProfile, { promptVersion, signal, userId });
+        const latencyMs = Date.now() - startTime;
+
+        // Record each item like a single analysis so its spend is in the cost report
+        if (userId) {
+            try {
+                await interventionManager.recordMany(userId, items, promptVersion);
+            } catch (error) {
+                console.error('Intervention record error:', error);
+            }
+        }
+
+        await opikTracker.logBatchAnalysis(
+            userId || 'anonymous',
+            sessionId || 'unknown',
+            summary,
+            {
+                latencyMs,
+                promptVersion,
+                cacheHits: items.filter((item) => item.cache === 'hit').length,
+                costUsd: items.reduce((sum, item) => sum + (item.usage?.costUsd ?? 0), 0),
+            }
+        );
+
+        return NextResponse.json({
+            success: true,
+            items,
+            summary,
+            metadata: {
+                latencyMs,
+                hasUserProfile: !!userProfile,
+                promptVersion,
+                deadlineExceeded: items.some((item) => item.deadlineExceeded),
+                quotaExceeded: items.some((item) => item.quotaExceeded),
+            },
+        });
+    } catch (error) {
+        console.error('Batch analysis error:', error);
+        return NextResponse.json(
+            { error: 'Failed to analyze products' },
+            { status: 500 }
+        );
+    }
+}
@@ -2,15 +2,32 @@
 // Analyzes a product and returns purchase insights
 
 import { NextRequest, NextResponse } from 'next/server';
-import { analyzePurchase } from '@/lib/gemini';
+import { analyzePurchase } from '@/lib/analyzer';
+import { analysisCache } from '@/lib/analysis-cache';
+import { exchangeRates } from '@/lib/currency';
+import { allCircuitsOpen } from '@/lib/circuit-breaker';
+import { createDeadline } from '@/lib/deadline';
+import { interventionManager } from '@/lib/interventions';
+import { assignPromptVersion } from '@/lib/prompt-registry';
+import { getAvailableProviderChain } from '@/lib/provider-registry';
+import { loadImageForAnalysis } from '@/lib/product-image';
 import { analyzePricing } from '@/lib/pricing-analyzer';
+import { opikTracker } from '@/lib/opik';
 import { userProfileManager } from '@/lib/user-profile';
+import { userQuota } from '@/lib/usage-quota';
 import type { ProductInfo, AnalysisResult } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
+    // Bounds the whole request; aborts early if the client goes away
+    const signal = createDeadline(request.signal);
+
     try {
         const body = await request.json();
-        const { product, userId } = body as { product: ProductInfo; userId?: string };
+        const { product, userId, sessionId } = body as {
+            product: ProductInfo;
+            userId?: string;
+            sessionId?: string;
+        };
 
         if (!product || !product.name || !product.price) {
             return NextResponse.json(
@@ -25,13 +42,52 @@ export async function POST(request: NextRequest) {
             userProfile = await userProfileManager.getOrCreate(userId);
         }
 
+        // Rates replaced on another instance apply before any conversion
+        await exchangeRates.refresh();
+
         // Analyze pricing patterns
         const pricingWarnings = analyzePricing(product);
 
-        // Get AI analysis
+        // Get AI analysis with the prompt version this user is bucketed into
+        const promptVersion = assignPromptVersion(userId);
+        const traceContext = opikTracker.startAnalysisTrace(
+            product,
+            userId || 'anonymous',
+            sessionId || 'unknown',
+            promptVersion
+        );
         const startTime = Date.now();
-        const analysis = await analyzePurchase(product, userProfile);
+        let outcome = await analysisCache.get(product, userProfile, promptVersion);
+        const cacheStatus = outcome ? 'hit' : 'miss';
+        if (!outcome) {
+            // A spent daily budget degrades to the rules-based result
+            const quotaExceeded = userId ? !(await userQuota.check(userId)).allowed : false;
+            // When the model is skipped the image is not needed either
+            const providers = getAvailableProviderChain();
+            const image = quotaExceeded || providers.length === 0 || allCircuitsOpen(providers)
+                ? undefined
+                : await loadImageForAnalysis(product.imageUrl, userProfile);
+            outcome = await analyzePurchase(product, userProfile, { providers, promptVersion, image, signal, quotaExceeded });
+            if (userId && providers.length > 0 && !outcome.quotaExceeded && !outcome.circuitOpen) {
+                await userQuota.record(userId, outcome.usage);
+            }
+            // Only cache real model output, never a fallback
+            if (outcome.source !== 'fallback') {
+                await analysisCache.set(product, userProfile, outcome);
+            }
+        }
+        const {
+            analysis,
+            source,
+            provider,
+            model,
+            deadlineExceeded = false,
+            circuitOpen = false,
+            quotaExceeded = false,
+        } = outcome;
         const latencyMs = Date.now() - startTime;
+        // A cache hit made no model call, so it cost nothing this time
+        const usage = cacheStatus === 'miss' ? outcome.usage : undefined;
 
         // Merge pricing warnings with AI warnings
         const result: AnalysisResult = {
@@ -39,12 +95,44 @@ export async function POST(request: NextRequest) {
             warnings: [...analysis.warnings, ...pricingWarnings],
         };
 
+        await opikTracker.completeAnalysisTrace(traceContext, result, {
+            userId: userId || 'anonymous',
+            sessionId: sessionId || 'unknown',
+            provider,
+            modelVersion: model,
+            promptVersion,
+            promptTokens: usage?.promptTokens ?? 0,
+            completionTokens: usage?.completionTokens ?? 0,
+            costUsd: usage?.costUsd ?? 0,
+            deadlineExceeded,
+            circuitOpen,
+        });
+
+        // Record the intervention so engagement can be attributed to the prompt version
+        let interventionId: string | null = null;
+        if (userId) {
+            try {
+                interventionId = (await interventionManager.record(userId, product, result, promptVersion, usage)).id;
+            } catch (error) {
+                console.error('Intervention record error:', error);
+            }
+        }
+
         return NextResponse.json({
             success: true,
             analysis: result,
             metadata: {
                 latencyMs,
                 hasUserProfile: !!userProfile,
+                source,
+                provider: provider ?? null,
+                model: model ?? null,
+                cache: cacheStatus,
+                promptVersion,
+                interventionId,
+                deadlineExceeded,
+                circuitOpen,
+                quotaExceeded,
             },
         });
     } catch (error) {
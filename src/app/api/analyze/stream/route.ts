@@ -0,0 +1,200 @@
+// API Route: /api/analyze/stream
+// Streams purchase insights as Server-Sent Events: deterministic results
+// first, then AI fields as the model produces them, then the final analysis
+
+import { NextRequest, NextResponse } from 'next/server';
+import { streamPurchaseAnalysis } from '@/lib/analyzer';
+import { analysisCache } from '@/lib/analysis-cache';
+import { allCircuitsOpen } from '@/lib/circuit-breaker';
+import { createDeadline } from '@/lib/deadline';
+import { interventionManager } from '@/lib/interventions';
+import { assignPromptVersion } from '@/lib/prompt-registry';
+import { getAvailableProviderChain } from '@/lib/provider-registry';
+import { loadImageForAnalysis } from '@/lib/product-image';
+import { calculateOpportunityCost, resolveAssumptions } from '@/lib/opportunity-cost';
+import { calculatePersonalCost } from '@/lib/personal-cost';
+import { exchangeRates, homeCurrencyPrice, toHomeCurrency } from '@/lib/currency';
+import { analyzePricing } from '@/lib/pricing-analyzer';
+import { opikTracker } from '@/lib/opik';
+import { userProfileManager } from '@/lib/user-profile';
+import { userQuota } from '@/lib/usage-quota';
+import type { ProductInfo, AnalysisResult, AnalysisOutcome } from '@/lib/types';
+import type { AnalysisStreamEvent } from '@/lib/analyzer';
+
+function formatEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+async function* cachedEvents(outcome: AnalysisOutcome): AsyncGenerator<AnalysisStreamEvent> {
+    yield { type: 'complete', outcome };
+}
+
+export async function POST(request: NextRequest) {
+    let body: { product: ProductInfo; userId?: string; sessionId?: string };
+    try {
+        body = await request.json();
+    } catch {
+        return NextResponse.json(
+            { error: 'Invalid JSON body' },
+            { status: 400 }
+        );
+    }
+
+    const { product, userId, sessionId } = body;
+
+    if (!product || !product.name || !product.price) {
+        return NextResponse.json(
+            { error: 'Invalid product data. Name and price are required.' },
+            { status: 400 }
+        );
+    }
+
+    const encoder = new TextEncoder();
+    // Bounds the model call; aborts early if the client goes away
+    const signal = createDeadline(request.signal);
+    let cancelled = false;
+
+    const stream = new ReadableStream({
+        async start(controller) {
+            const send = (event: string, data: unknown) => {
+                if (cancelled) return;
+                controller.enqueue(encoder.encode(formatEvent(event, data)));
+            };
+
+            try {
+                // Get or create user profile if userId provided
+                let userProfile = undefined;
+                if (userId) {
+                    userProfile = await userProfileManager.getOrCreate(userId);
+                }
+
+                // Rates replaced on another instance apply before any conversion
+                await exchangeRates.refresh();
+
+                // Deterministic parts need no model call and go out immediately;
+                // the opportunity and personal costs use the profile's settings
+                const pricingWarnings = analyzePricing(product);
+                send('deterministic', {
+                    opportunityCost: calculateOpportunityCost(
+                        product.price,
+                        product.currency,
+                        resolveAssumptions(userProfile),
+                        product.billingPeriod
+                    ),
+                    personalCost: calculatePersonalCost(homeCurrencyPrice(product, userProfile), userProfile),
+                    convertedPrice: toHomeCurrency(product, userProfile),
+                    warnings: pricingWarnings,
+                });
+
+                const promptVersion = assignPromptVersion(userId);
+                const traceContext = opikTracker.startAnalysisTrace(
+                    product,
+                    userId || 'anonymous',
+                    sessionId || 'unknown',
+                    promptVersion
+                );
+                const startTime = Date.now();
+
+                // A cache hit completes the stream without a model call
+                const cached = await analysisCache.get(product, userProfile, promptVersion);
+                // A spent daily budget degrades to the rules-based result
+                const quotaExceeded = !cached && userId ? !(await userQuota.check(userId)).allowed : false;
+                // When the model is skipped the image is not needed either
+                const providers = cached ? [] : getAvailableProviderChain();
+                const events: AsyncIterable<AnalysisStreamEvent> = cached
+                    ? cachedEvents(cached)
+                    : streamPurchaseAnalysis(product, userProfile, {
+                        providers,
+                        promptVersion,
+                        image: quotaExceeded || providers.length === 0 || allCircuitsOpen(providers)
+                            ? undefined
+                            : await loadImageForAnalysis(product.imageUrl, userProfile),
+                        signal,
+                        quotaExceeded,
+                    });
+
+                for await (const event of events) {
+                    if (event.type === 'field') {
+                        send('field', { field: event.field, value: event.value });
+                        continue;
+                    }
+
+                    if (!cached && event.outcome.source !== 'fallback') {
+                        await analysisCache.set(product, userProfile, event.outcome);
+                    }
+                    if (!cached && userId && providers.length > 0 && !quotaExceeded && !event.outcome.circuitOpen) {
+                        await userQuota.record(userId, event.outcome.usage);
+                    }
+
+                    const { analysis, source, provider, model, deadlineExceeded = false, circuitOpen = false } = event.outcome;
+                    const latencyMs = Date.now() - startTime;
+                    // A cache hit made no model call, so it cost nothing this time
+                    const usage = cached ? undefined : event.outcome.usage;
+
+                    // Merge pricing warnings with AI warnings
+                    const result: AnalysisResult = {
+                        ...analysis,
+                        warnings: [...analysis.warnings, ...pricingWarnings],
+                    };
+
+                    await opikTracker.completeAnalysisTrace(traceContext, result, {
+                        userId: userId || 'anonymous',
+                        sessionId: sessionId || 'unknown',
+                        provider,
+                        modelVersion: model,
+                        promptVersion,
+                        promptTokens: usage?.promptTokens ?? 0,
+                        completionTokens: usage?.completionTokens ?? 0,
+                        costUsd: usage?.costUsd ?? 0,
+                        deadlineExceeded,
+                        circuitOpen,
+                    });
+
+                    let interventionId: string | null = null;
+                    if (userId) {
+                        try {
+                            interventionId = (await interventionManager.record(userId, product, result, promptVersion, usage)).id;
+                        } catch (error) {
+                            console.error('Intervention record error:', error);
+                        }
+                    }
+
+                    send('complete', {
+                        analysis: result,
+                        metadata: {
+                            latencyMs,
+                            hasUserProfile: !!userProfile,
+                            source,
+                            provider: provider ?? null,
+                            model: model ?? null,
+                            cache: cached ? 'hit' : 'miss',
+                            promptVersion,
+                            interventionId,
+                            deadlineExceeded,
+                            circuitOpen,
+                            quotaExceeded,
+                        },
+                    });
+                }
+            } catch (error) {
+                console.error('Streaming analysis error:', error);
+                send('error', { error: 'Failed to analyze product' });
+            } finally {
+                if (!cancelled) controller.close();
+            }
+        },
+        cancel() {
+            // The reader went away (e.g. the user left the page); the deadline
+            // signal stops the model call, there is nobody left to send to
+            cancelled = true;
+        },
+    });
+
+    return new Response(stream, {
+        headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache, no-transform',
+            Connection: 'keep-alive',
+        },
+    });
+}
@@ -0,0 +1,39 @@
+// API Route: /api/experiments
+// Reports engagement per prompt version for the active prompt experiment
+
+import { NextRequest, NextResponse } from 'next/server';
+import { interventionManager, pickWinner, MIN_SAMPLES_FOR_WINNER } from '@/lib/interventions';
+import { activeExperiment } from '@/lib/prompt-registry';
+
+// GET /api/experiments?since=ISO_DATE&minSamples=100
+export async function GET(request: NextRequest) {
+    try {
+        const sinceParam = request.nextUrl.searchParams.get('since');
+        const since = sinceParam ? new Date(sinceParam) : undefined;
+
+        if (since && isNaN(since.getTime())) {
+            return NextResponse.json(
+                { error: 'since must be an ISO date' },
+                { status: 400 }
+            );
+        }
+
+        const minSamples = Number(request.nextUrl.searchParams.get('minSamples')) || MIN_SAMPLES_FOR_WINNER;
+        const stats = await interventionManager.getStatsByPromptVersion(since);
+        const winner = pickWinner(stats, minSamples);
+
+        return NextResponse.json({
+            success: true,
+            experiment: activeExperiment,
+            stats,
+            winner: winner?.promptVersion ?? null,
+            minSamples,
+        });
+    } catch (error) {
+        console.error('Experiment stats error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get experiment stats' },
+            { status: 500 }
+        );
+    }
+}
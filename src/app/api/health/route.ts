@@ -0,0 +1,26 @@
+// API Route: /api/health
+// Liveness and readiness for uptime monitors. Readiness answers 503 when a
+// critical dependency (database or model providers) is down.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getHealthReport, parseHealthMode } from '@/lib/health';
+
+// GET /api/health?mode=liveness|readiness
+export async function GET(request: NextRequest) {
+    const mode = parseHealthMode(request.nextUrl.searchParams.get('mode'));
+
+    try {
+        const report = await getHealthReport(mode);
+
+        return NextResponse.json(report, {
+            status: report.status === 'down' ? 503 : 200,
+            headers: { 'Cache-Control': 'no-store' },
+        });
+    } catch (error) {
+        console.error('Health check error:', error);
+        return NextResponse.json(
+            { status: 'down', mode, error: 'Health check failed' },
+            { status: 503, headers: { 'Cache-Control': 'no-store' } }
+        );
+    }
+}
@@ -3,7 +3,12 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { userProfileManager } from '@/lib/user-profile';
-import type { UserProfile } from '@/lib/types';
+import { analysisCache } from '@/lib/analysis-cache';
+import { isCoachingPersona, COACHING_PERSONAS } from '@/lib/coaching-persona';
+import { exchangeRates, validateHomeCurrency } from '@/lib/currency';
+import { validateOpportunityCostSettings } from '@/lib/opportunity-cost';
+import { validateHourlyWage } from '@/lib/personal-cost';
+import type { UserProfileUpdate } from '@/lib/types';
 
 // GET /api/profile?userId=xxx
 export async function GET(request: NextRequest) {
@@ -40,7 +45,40 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json();
-        const { userId, ...profileData } = body as Partial<UserProfile> & { userId?: string };
+        const { userId, ...profileData } = body as UserProfileUpdate & { userId?: string };
+
+        if (profileData.coachingPersona !== undefined && !isCoachingPersona(profileData.coachingPersona)) {
+            return NextResponse.json(
+                { error: `coachingPersona must be one of: ${COACHING_PERSONAS.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const settingsError = validateOpportunityCostSettings(profileData);
+        if (settingsError) {
+            return NextResponse.json(
+                { error: settingsError },
+                { status: 400 }
+            );
+        }
+
+        const wageError = validateHourlyWage(profileData.hourlyWage);
+        if (wageError) {
+            return NextResponse.json(
+                { error: wageError },
+                { status: 400 }
+            );
+        }
+
+        // Currencies added on another instance count as supported
+        await exchangeRates.refresh();
+        const currencyError = validateHomeCurrency(profileData.homeCurrency);
+        if (currencyError) {
+            return NextResponse.json(
+                { error: currencyError },
+                { status: 400 }
+            );
+        }
 
         let profile;
 
@@ -52,6 +90,9 @@ export async function POST(request: NextRequest) {
             } else {
                 profile = await userProfileManager.create({ ...profileData, id: userId });
             }
+
+            // Cached analyses were personalized with the old profile
+            await analysisCache.invalidateUser(userId);
         } else {
             // Create new profile with auto-generated ID
             profile = await userProfileManager.create(profileData);
@@ -0,0 +1,82 @@
+// API Route: /api/reflect
+// Guided reflection conversation about a purchase that was already analyzed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createDeadline } from '@/lib/deadline';
+import { interventionManager } from '@/lib/interventions';
+import { continueReflection, reflectionManager, startReflection, ReflectionClosedError } from '@/lib/reflection';
+import { opikTracker } from '@/lib/opik';
+import { userProfileManager } from '@/lib/user-profile';
+
+// POST { interventionId, userId, sessionId?, message? }
+// Without a message, starts the conversation or returns it as it stands
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json();
+        const { interventionId, userId, sessionId, message } = body as {
+            interventionId: string;
+            userId: string;
+            sessionId?: string;
+            message?: string;
+        };
+
+        if (!interventionId || !userId) {
+            return NextResponse.json(
+                { error: 'interventionId and userId are required' },
+                { status: 400 }
+            );
+        }
+
+        if (message !== undefined && (typeof message !== 'string' || !message.trim())) {
+            return NextResponse.json(
+                { error: 'message must be a non-empty string' },
+                { status: 400 }
+            );
+        }
+
+        const intervention = await interventionManager.get(interventionId);
+        if (!intervention || intervention.userId !== userId) {
+            return NextResponse.json(
+                { error: 'Intervention not found' },
+                { status: 404 }
+            );
+        }
+
+        let reflection = await reflectionManager.get(interventionId);
+        if (!reflection) {
+            reflection = startReflection(intervention);
+            await reflectionManager.save(reflection);
+        }
+
+        if (message !== undefined) {
+            const userProfile = await userProfileManager.get(userId);
+            reflection = await continueReflection(intervention, reflection, message, userProfile ?? undefined, {
+                signal: createDeadline(request.signal),
+            });
+            await reflectionManager.save(reflection);
+
+            await opikTracker.logReflectionTurn(userId, sessionId || 'unknown', intervention, reflection);
+        }
+
+        return NextResponse.json({
+            success: true,
+            messages: reflection.messages,
+            completed: reflection.completed,
+            originalAction: intervention.analysisResult.suggestedAction,
+            revisedAction: reflection.revisedAction ?? null,
+        });
+    } catch (error) {
+        if (error instanceof ReflectionClosedError) {
+            return NextResponse.json(
+                { error: 'This reflection has already ended' },
+                { status: 409 }
+            );
+        }
+
+        console.error('Reflection error:', error);
+        return NextResponse.json(
+            { error: 'Failed to continue reflection' },
+            { status: 500 }
+        );
+    }
+}
@@ -3,7 +3,8 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { opikTracker } from '@/lib/opik';
-import type { ProductInfo, AnalysisResult } from '@/lib/types';
+import { interventionManager } from '@/lib/interventions';
+import type { ProductInfo, AnalysisResult, UserAction } from '@/lib/types';
 
 export async function POST(request: NextRequest) {
     try {
@@ -23,15 +24,40 @@ export async function POST(request: NextRequest) {
         }
 
         switch (eventType) {
-            case 'engagement':
+            case 'engagement': {
+                // Only the user an intervention was recorded for may record their action on it
+                const interventionId = data.interventionId as string | undefined;
+                if (interventionId) {
+                    const intervention = await interventionManager.get(interventionId);
+                    if (!intervention || intervention.userId !== userId) {
+                        return NextResponse.json(
+                            { error: 'Intervention not found' },
+                            { status: 404 }
+                        );
+                    }
+                }
+
                 await opikTracker.logUserEngagement(
                     userId,
                     sessionId || 'unknown',
-                    data.action as 'dismissed' | 'cooldown_started' | 'proceeded',
+                    data.action as UserAction,
                     data.product as ProductInfo,
-                    data.analysis as AnalysisResult
+                    data.analysis as AnalysisResult,
+                    data.promptVersion as string | undefined
                 );
+                if (interventionId) {
+                    try {
+                        await interventionManager.recordAction(interventionId, data.action as UserAction);
+                    } catch (error) {
+                        console.error('Intervention action record error:', error);
+                        return NextResponse.json(
+                            { error: 'Failed to record intervention action' },
+                            { status: 500 }
+                        );
+                    }
+                }
                 break;
+            }
 
             case 'cooldown':
                 await opikTracker.logCooldownEvent(
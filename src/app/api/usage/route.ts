@@ -0,0 +1,38 @@
+// API Route: /api/usage
+// Today's analysis usage for a user against their daily budget
+
+import { NextRequest, NextResponse } from 'next/server';
+import { userQuota } from '@/lib/usage-quota';
+
+// GET /api/usage?userId=xxx
+export async function GET(request: NextRequest) {
+    try {
+        const userId = request.nextUrl.searchParams.get('userId');
+
+        if (!userId) {
+            return NextResponse.json(
+                { error: 'userId is required' },
+                { status: 400 }
+            );
+        }
+
+        const { allowed, usage, limits, remaining, resetsAt } = await userQuota.check(userId);
+
+        return NextResponse.json({
+            success: true,
+            day: usage.day,
+            requests: usage.requests,
+            tokens: usage.tokens,
+            limits,
+            remaining,
+            exhausted: !allowed,
+            resetsAt: resetsAt.toISOString(),
+        });
+    } catch (error) {
+        console.error('Usage report error:', error);
+        return NextResponse.json(
+            { error: 'Failed to get usage' },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,13 @@
+// Server Startup
+// Refuses to start when a configured LLM provider has no API keys, rather
+// than failing every analysis at request time
+
+export async function register() {
+    if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+        return;
+    }
+
+    const { getProviderChain } = await import('./lib/provider-registry');
+    // Throws MissingApiKeysError for a provider without keys
+    getProviderChain();
+}
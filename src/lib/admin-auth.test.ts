@@ -0,0 +1,36 @@
+// Feature: second-thought, Property 28: Admin Route Protection
+// Validates: Requirements 7.1
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { isAdminAuthorized } from './admin-auth';
+
+describe('Admin Auth', () => {
+    // Property 28: Admin Route Protection
+    describe('Property 28: Admin Route Protection', () => {
+        it('should accept only the exact configured token', () => {
+            fc.assert(
+                fc.property(fc.string({ minLength: 1, maxLength: 40 }), fc.string({ maxLength: 40 }), (token, attempt) => {
+                    expect(isAdminAuthorized(`Bearer ${attempt}`, token)).toBe(attempt === token);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should require the Bearer scheme', () => {
+            expect(isAdminAuthorized('Bearer secret-token', 'secret-token')).toBe(true);
+            expect(isAdminAuthorized('secret-token', 'secret-token')).toBe(false);
+            expect(isAdminAuthorized(null, 'secret-token')).toBe(false);
+        });
+
+        it('should reject every request when no token is configured', () => {
+            expect(isAdminAuthorized('Bearer ', '')).toBe(false);
+            expect(isAdminAuthorized('Bearer anything', undefined)).toBe(false);
+        });
+    });
+});
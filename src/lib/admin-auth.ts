@@ -0,0 +1,24 @@
+// Admin Authentication
+// Bearer-token check for admin-only API routes
+
+import { createHash, timingSafeEqual } from 'crypto';
+
+function digest(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Whether the Authorization header carries the configured ADMIN_API_TOKEN.
+ * Always false when no token is configured, so admin routes stay closed by default.
+ */
+export function isAdminAuthorized(
+    authorization: string | null,
+    token: string | undefined = process.env.ADMIN_API_TOKEN
+): boolean {
+    if (!token || !authorization?.startsWith('Bearer ')) {
+        return false;
+    }
+
+    // Compare fixed-length digests so timing does not leak the token length
+    return timingSafeEqual(digest(authorization.slice('Bearer '.length)), digest(token));
+}
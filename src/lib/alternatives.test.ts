@@ -0,0 +1,93 @@
+// Feature: second-thought, Property 26: Alternative Savings Consistency
+// Validates: Requirements 2.2, 3.1
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { resolveAlternatives } from './alternatives';
+import type { AIAlternative } from './analysis-schema';
+import type { ProductInfo } from './types';
+
+const alternativeArbitrary: fc.Arbitrary<AIAlternative> = fc.record({
+    type: fc.constantFrom('used_or_refurbished' as const, 'cheaper_model' as const, 'rent_or_borrow' as const, 'free_option' as const),
+    description: fc.string({ minLength: 1, maxLength: 100 }),
+    estimatedPrice: fc.integer({ min: 0, max: 200000 }).map((n) => n / 100),
+});
+
+function product(price: number): ProductInfo {
+    return { name: 'Camera', price, currency: 'USD', url: 'https://shop.example.com/camera', urgencyIndicators: [] };
+}
+
+describe('Alternatives', () => {
+    // Property 26: Alternative Savings Consistency
+    describe('Property 26: Alternative Savings Consistency', () => {
+        it('should only keep alternatives that save money, with savings derived from the price', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(alternativeArbitrary, { maxLength: 8 }),
+                    fc.integer({ min: 1, max: 200000 }).map((n) => n / 100),
+                    (suggestions, price) => {
+                        const alternatives = resolveAlternatives(suggestions, product(price));
+
+                        for (const alternative of alternatives) {
+                            expect(alternative.estimatedSavings).toBeGreaterThan(0);
+                            expect(alternative.estimatedSavings).toBeLessThanOrEqual(price);
+                            expect(alternative.estimatedSavings).toBeCloseTo(price - alternative.estimatedPrice, 2);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep one alternative per type, ordered by savings', () => {
+            fc.assert(
+                fc.property(fc.array(alternativeArbitrary, { maxLength: 8 }), (suggestions) => {
+                    const alternatives = resolveAlternatives(suggestions, product(2000));
+                    const types = alternatives.map((a) => a.type);
+
+                    expect(new Set(types).size).toBe(types.length);
+                    for (let i = 1; i < alternatives.length; i++) {
+                        expect(alternatives[i - 1].estimatedSavings).toBeGreaterThanOrEqual(alternatives[i].estimatedSavings);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should keep the cheapest suggestion of each type', () => {
+            const alternatives = resolveAlternatives(
+                [
+                    { type: 'used_or_refurbished', description: 'Refurbished from the maker', estimatedPrice: 450 },
+                    { type: 'used_or_refurbished', description: 'Used, good condition', estimatedPrice: 300 },
+                    { type: 'rent_or_borrow', description: 'Rent for a weekend', estimatedPrice: 60 },
+                ],
+                product(600)
+            );
+
+            expect(alternatives).toEqual([
+                { type: 'rent_or_borrow', description: 'Rent for a weekend', estimatedPrice: 60, estimatedSavings: 540 },
+                { type: 'used_or_refurbished', description: 'Used, good condition', estimatedPrice: 300, estimatedSavings: 300 },
+            ]);
+        });
+
+        it('should drop suggestions that cost as much as the product', () => {
+            const alternatives = resolveAlternatives(
+                [{ type: 'cheaper_model', description: 'Last year\'s model', estimatedPrice: 650 }],
+                product(600)
+            );
+
+            expect(alternatives).toEqual([]);
+        });
+
+        it('should return no alternatives when the model gave none', () => {
+            expect(resolveAlternatives(undefined, product(600))).toEqual([]);
+        });
+    });
+});
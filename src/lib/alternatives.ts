@@ -0,0 +1,38 @@
+// Alternatives
+// Turns the model's cheaper-alternative suggestions into savings the panel
+// can show, dropping any that would not actually save money
+
+import type { AIAlternative } from './analysis-schema';
+import type { Alternative, ProductInfo } from './types';
+
+function roundCurrency(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Compute savings against the product price, keep the best suggestion per
+ * type and order by savings, largest first
+ */
+export function resolveAlternatives(
+    suggestions: AIAlternative[] | undefined,
+    product: ProductInfo
+): Alternative[] {
+    const bestByType = new Map<Alternative['type'], Alternative>();
+
+    for (const suggestion of suggestions || []) {
+        const estimatedSavings = roundCurrency(product.price - suggestion.estimatedPrice);
+        if (estimatedSavings <= 0) continue;
+
+        const existing = bestByType.get(suggestion.type);
+        if (existing && existing.estimatedSavings >= estimatedSavings) continue;
+
+        bestByType.set(suggestion.type, {
+            type: suggestion.type,
+            description: suggestion.description,
+            estimatedPrice: roundCurrency(suggestion.estimatedPrice),
+            estimatedSavings,
+        });
+    }
+
+    return [...bestByType.values()].sort((a, b) => b.estimatedSavings - a.estimatedSavings);
+}
@@ -0,0 +1,270 @@
+// Feature: second-thought, Property 18: Analysis Cache Key Stability
+// Validates: Requirements 2.1, 6.2
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock Supabase for testing
+vi.mock('./supabase', () => ({
+    supabase: {
+        from: vi.fn(),
+    },
+}));
+
+import {
+    AnalysisCache,
+    MemoryCacheBackend,
+    SupabaseCacheBackend,
+    canonicalProductId,
+    normalizeProductName,
+} from './analysis-cache';
+import { ExchangeRates } from './currency';
+import { supabase } from './supabase';
+import type { AnalysisOutcome, ProductInfo, UserProfile } from './types';
+
+const productArbitrary = fc.record({
+    name: fc.string({ minLength: 1, maxLength: 50 }),
+    price: fc.integer({ min: 1, max: 100000 }),
+    currency: fc.constantFrom('USD', 'EUR', 'GBP'),
+    url: fc.constantFrom(
+        'https://www.amazon.com/Some-Product/dp/B08N5WRWNW',
+        'https://www.ebay.com/itm/1234567890',
+        'https://shop.example.com/products/widget'
+    ),
+    urgencyIndicators: fc.constant([] as string[]),
+});
+
+const profileArbitrary = fc.record({
+    id: fc.uuid(),
+    savingsGoal: fc.option(fc.integer({ min: 0, max: 100000 }), { nil: undefined }),
+    monthlyBudget: fc.option(fc.integer({ min: 0, max: 10000 }), { nil: undefined }),
+    financialGoals: fc.array(fc.string({ minLength: 1, maxLength: 20 }), { maxLength: 3 }),
+    spendingThreshold: fc.integer({ min: 1, max: 1000 }),
+    coolDownEnabled: fc.boolean(),
+    imageAnalysisEnabled: fc.boolean(),
+    coachingPersona: fc.constantFrom('gentle' as const, 'neutral' as const, 'tough_love' as const, 'humorous' as const),
+    createdAt: fc.date(),
+    updatedAt: fc.date(),
+});
+
+const outcome: AnalysisOutcome = {
+    analysis: {
+        isEssential: false,
+        essentialityScore: 0.3,
+        reasoning: 'Not essential',
+        warnings: [],
+        opportunityCost: {
+            amount: 100,
+            projections: { years5: 140, years10: 197, years20: 387 },
+            comparisonText: 'test',
+        },
+        personalizedMessage: 'Consider waiting',
+        suggestedAction: 'cooldown',
+    },
+    source: 'model',
+    provider: 'fake',
+    model: 'fake-model',
+    promptVersion: 'v1.0',
+};
+
+describe('Analysis Cache', () => {
+    const mockFrom = supabase.from as ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // Property 18: Analysis Cache Key Stability
+    describe('Property 18: Cache Key Stability', () => {
+        const cache = new AnalysisCache(new MemoryCacheBackend());
+
+        it('should ignore tracking parameters and fragments in product URLs', () => {
+            fc.assert(
+                fc.property(
+                    productArbitrary,
+                    fc.string({ minLength: 1, maxLength: 10 }).map(encodeURIComponent),
+                    (product, tag) => {
+                        const tracked = { ...product, url: `${product.url}?utm_source=${tag}&ref=${tag}#reviews` };
+                        expect(cache.buildKey(tracked)).toBe(cache.buildKey(product));
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep different products at the same URL and price apart', () => {
+            fc.assert(
+                fc.property(productArbitrary, fc.string({ minLength: 1, maxLength: 50 }), (product, name) => {
+                    fc.pre(normalizeProductName(name) !== normalizeProductName(product.name));
+                    expect(cache.buildKey({ ...product, name })).not.toBe(cache.buildKey(product));
+
+                    const restyled = { ...product, name: `  ${product.name.toUpperCase()} ` };
+                    expect(cache.buildKey(restyled)).toBe(cache.buildKey({ ...product, name: product.name.toLowerCase() }));
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should change the key when price or currency changes', () => {
+            fc.assert(
+                fc.property(productArbitrary, fc.integer({ min: 1, max: 1000 }), (product, delta) => {
+                    expect(cache.buildKey({ ...product, price: product.price + delta })).not.toBe(cache.buildKey(product));
+                    expect(cache.buildKey({ ...product, currency: 'JPY' })).not.toBe(cache.buildKey(product));
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should depend only on prompt-relevant profile fields', () => {
+            fc.assert(
+                fc.property(productArbitrary, profileArbitrary, profileArbitrary, (product, profile, other) => {
+                    // Same relevant fields, different id, threshold and timestamps
+                    const lookalike: UserProfile = {
+                        ...other,
+                        savingsGoal: profile.savingsGoal,
+                        monthlyBudget: profile.monthlyBudget,
+                        financialGoals: profile.financialGoals,
+                        imageAnalysisEnabled: profile.imageAnalysisEnabled,
+                        coachingPersona: profile.coachingPersona,
+                    };
+                    expect(cache.buildKey(product, lookalike)).toBe(cache.buildKey(product, profile));
+
+                    const changed = { ...profile, financialGoals: [...profile.financialGoals, 'new goal'] };
+                    expect(cache.buildKey(product, changed)).not.toBe(cache.buildKey(product, profile));
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should keep analyses from different prompt versions apart', () => {
+            fc.assert(
+                fc.property(productArbitrary, profileArbitrary, (product, profile) => {
+                    expect(cache.buildKey(product, profile, 'v1.1')).not.toBe(cache.buildKey(product, profile, 'v1.0'));
+                    expect(cache.buildKey(product, profile)).toBe(cache.buildKey(product, profile, 'v1.0'));
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        const product: ProductInfo = {
+            name: 'Test',
+            price: 100,
+            currency: 'USD',
+            url: 'https://www.amazon.com/dp/B08N5WRWNW?tag=abc',
+            urgencyIndicators: [],
+        };
+
+        it('should canonicalize known marketplace product IDs', () => {
+            expect(canonicalProductId('https://www.amazon.com/Echo/dp/b08n5wrwnw/ref=sr_1_1')).toBe('amazon.com:B08N5WRWNW');
+            expect(canonicalProductId('https://www.ebay.com/itm/some-title/1234567890?hash=x')).toBe('ebay.com:1234567890');
+            expect(canonicalProductId('https://shop.example.com/p/?sku=42&utm_medium=email')).toBe('shop.example.com/p?sku=42');
+        });
+
+        it('should return cached outcomes until the TTL passes', async () => {
+            let now = 1000;
+            const cache = new AnalysisCache(new MemoryCacheBackend(), 500, () => now);
+
+            await cache.set(product, undefined, outcome);
+            expect(await cache.get(product)).toEqual(outcome);
+
+            now = 1500;
+            expect(await cache.get(product)).toBeNull();
+        });
+
+        it('should key converted prices by the rates they came from', async () => {
+            const rates = new ExchangeRates();
+            const cache = new AnalysisCache(new MemoryCacheBackend(), undefined, undefined, rates);
+            const profile = { id: 'user-1', homeCurrency: 'EUR' } as UserProfile;
+            const local = { ...profile, homeCurrency: 'USD' };
+            const before = [cache.buildKey(product, profile), cache.buildKey(product, local)];
+
+            await rates.update({ base: 'USD', asOf: '2026-10-15', rates: { USD: 1, EUR: 0.8 } });
+
+            expect(cache.buildKey(product, profile)).not.toBe(before[0]);
+            expect(cache.buildKey(product, local)).toBe(before[1]);
+        });
+
+        it('should invalidate entries written for a user', async () => {
+            const cache = new AnalysisCache(new MemoryCacheBackend());
+            const profile: UserProfile = {
+                id: 'user-1',
+                financialGoals: ['house'],
+                spendingThreshold: 20,
+                coolDownEnabled: true,
+                imageAnalysisEnabled: true,
+                coachingPersona: 'gentle',
+                createdAt: new Date(),
+                updatedAt: new Date(),
+            };
+
+            await cache.set(product, profile, outcome);
+            await cache.invalidateUser('user-1');
+
+            expect(await cache.get(product, profile)).toBeNull();
+        });
+
+        it('should evict the oldest memory entry when full', async () => {
+            const backend = new MemoryCacheBackend(2);
+            await backend.set({ key: 'a', outcome, expiresAt: Infinity });
+            await backend.set({ key: 'b', outcome, expiresAt: Infinity });
+            await backend.set({ key: 'c', outcome, expiresAt: Infinity });
+
+            expect(await backend.get('a')).toBeNull();
+            expect(await backend.get('c')).not.toBeNull();
+        });
+
+        it('should treat backend failures as a miss', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    eq: vi.fn().mockReturnValue({
+                        single: vi.fn().mockRejectedValue(new Error('connection refused')),
+                    }),
+                }),
+            });
+            const cache = new AnalysisCache(new SupabaseCacheBackend());
+
+            expect(await cache.get(product)).toBeNull();
+        });
+
+        it('should round-trip entries through the Supabase table', async () => {
+            const upsert = vi.fn().mockResolvedValue({ error: null });
+            mockFrom.mockReturnValue({ upsert });
+            const backend = new SupabaseCacheBackend();
+
+            await backend.set({ key: 'k', userId: 'user-1', outcome, expiresAt: 0 });
+
+            expect(mockFrom).toHaveBeenCalledWith('analysis_cache');
+            const row = upsert.mock.calls[0][0];
+            expect(row).toEqual({
+                cache_key: 'k',
+                user_id: 'user-1',
+                outcome,
+                expires_at: new Date(0).toISOString(),
+            });
+
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    eq: vi.fn().mockReturnValue({
+                        single: vi.fn().mockResolvedValue({ data: { ...row, created_at: '' }, error: null }),
+                    }),
+                }),
+            });
+
+            expect(await backend.get('k')).toEqual({ key: 'k', userId: 'user-1', outcome, expiresAt: 0 });
+        });
+    });
+});
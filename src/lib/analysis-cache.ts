@@ -0,0 +1,239 @@
+// Analysis Cache
+// Reuses analyses for the same product, price, profile and prompt version
+// across page loads
+
+import { createHash } from 'crypto';
+import { supabase, DbAnalysisCacheEntry } from './supabase';
+import { exchangeRates, type ExchangeRates } from './currency';
+import { DEFAULT_PROMPT_VERSION } from './prompt-registry';
+import type { AnalysisOutcome, ProductInfo, UserProfile } from './types';
+
+const DEFAULT_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const MAX_MEMORY_ENTRIES = 500;
+
+// Profile fields that change the prompt or the opportunity cost, and so the analysis
+const PROFILE_CACHE_FIELDS = [
+    'savingsGoal',
+    'monthlyBudget',
+    'financialGoals',
+    'imageAnalysisEnabled',
+    'coachingPersona',
+    'investmentGrowthRate',
+    'inflationRate',
+    'contributionTiming',
+    'projectionHorizons',
+    'projectionMode',
+    'returnVolatility',
+    'homeCurrency',
+    'hourlyWage',
+] as const;
+
+// Query parameters that identify a product variant rather than tracking
+const IDENTITY_QUERY_PARAMS = ['id', 'pid', 'sku', 'variant', 'product_id', 'item'];
+
+export interface CacheEntry {
+    key: string;
+    userId?: string;
+    outcome: AnalysisOutcome;
+    expiresAt: number;
+}
+
+export interface AnalysisCacheBackend {
+    get(key: string): Promise<CacheEntry | null>;
+    set(entry: CacheEntry): Promise<void>;
+    deleteByUser(userId: string): Promise<void>;
+}
+
+export class MemoryCacheBackend implements AnalysisCacheBackend {
+    private entries = new Map<string, CacheEntry>();
+
+    constructor(private maxEntries: number = MAX_MEMORY_ENTRIES) {}
+
+    async get(key: string): Promise<CacheEntry | null> {
+        return this.entries.get(key) ?? null;
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        // Map keeps insertion order, so the first key is the oldest entry
+        this.entries.delete(entry.key);
+        if (this.entries.size >= this.maxEntries) {
+            const oldest = this.entries.keys().next().value;
+            if (oldest !== undefined) this.entries.delete(oldest);
+        }
+        this.entries.set(entry.key, entry);
+    }
+
+    async deleteByUser(userId: string): Promise<void> {
+        for (const [key, entry] of this.entries) {
+            if (entry.userId === userId) this.entries.delete(key);
+        }
+    }
+}
+
+export class SupabaseCacheBackend implements AnalysisCacheBackend {
+    async get(key: string): Promise<CacheEntry | null> {
+        const { data, error } = await supabase
+            .from('analysis_cache')
+            .select('*')
+            .eq('cache_key', key)
+            .single();
+
+        if (error || !data) {
+            return null;
+        }
+
+        const row = data as DbAnalysisCacheEntry;
+        return {
+            key: row.cache_key,
+            userId: row.user_id ?? undefined,
+            outcome: row.outcome as unknown as AnalysisOutcome,
+            expiresAt: new Date(row.expires_at).getTime(),
+        };
+    }
+
+    async set(entry: CacheEntry): Promise<void> {
+        const { error } = await supabase
+            .from('analysis_cache')
+            .upsert({
+                cache_key: entry.key,
+                user_id: entry.userId ?? null,
+                outcome: entry.outcome,
+                expires_at: new Date(entry.expiresAt).toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to write analysis cache: ${error.message}`);
+        }
+    }
+
+    async deleteByUser(userId: string): Promise<void> {
+        const { error } = await supabase
+            .from('analysis_cache')
+            .delete()
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new Error(`Failed to invalidate analysis cache: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * Canonical product identity: site product IDs where known, otherwise the
+ * host and path with tracking parameters removed
+ */
+export function canonicalProductId(url: string): string {
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        return url.trim();
+    }
+
+    const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+    const asin = parsed.pathname.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/i);
+    if (host.includes('amazon') && asin) {
+        return `${host}:${asin[1].toUpperCase()}`;
+    }
+
+    const ebayItem = parsed.pathname.match(/\/itm\/(?:[^/]+\/)?(\d+)/);
+    if (host.includes('ebay') && ebayItem) {
+        return `${host}:${ebayItem[1]}`;
+    }
+
+    const identityParams = IDENTITY_QUERY_PARAMS
+        .filter((param) => parsed.searchParams.has(param))
+        .map((param) => `${param}=${parsed.searchParams.get(param)}`);
+
+    const path = parsed.pathname.replace(/\/+$/, '') || '/';
+    return identityParams.length > 0 ? `${host}${path}?${identityParams.join('&')}` : `${host}${path}`;
+}
+
+/**
+ * Product name as it identifies the product: case, width variants and
+ * whitespace do not matter. Keeps apart listings that share a URL, such as
+ * variants picked on one page or a generic listing path.
+ */
+export function normalizeProductName(name: string): string {
+    return name.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export function hashProfile(profile?: UserProfile): string {
+    const relevant = PROFILE_CACHE_FIELDS.map((field) => profile?.[field] ?? null);
+    return createHash('sha256').update(JSON.stringify(relevant)).digest('hex').slice(0, 16);
+}
+
+export class AnalysisCache {
+    constructor(
+        private backend: AnalysisCacheBackend,
+        private ttlMs: number = DEFAULT_TTL_MS,
+        private now: () => number = Date.now,
+        private rates: ExchangeRates = exchangeRates
+    ) {}
+
+    buildKey(product: ProductInfo, profile?: UserProfile, promptVersion: string = DEFAULT_PROMPT_VERSION): string {
+        // A converted price is only as current as the rates it came from
+        const converts = !!profile?.homeCurrency && profile.homeCurrency !== product.currency;
+        const parts = [
+            canonicalProductId(product.url),
+            normalizeProductName(product.name),
+            product.price,
+            product.currency,
+            product.billingPeriod ?? null,
+            hashProfile(profile),
+            promptVersion,
+            converts ? this.rates.getVersion() : null,
+        ];
+        return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+    }
+
+    async get(product: ProductInfo, profile?: UserProfile, promptVersion?: string): Promise<AnalysisOutcome | null> {
+        try {
+            const entry = await this.backend.get(this.buildKey(product, profile, promptVersion));
+            if (!entry || entry.expiresAt <= this.now()) {
+                return null;
+            }
+            return entry.outcome;
+        } catch (error) {
+            // A cache failure should never block analysis
+            console.error('Analysis cache read error:', error);
+            return null;
+        }
+    }
+
+    async set(product: ProductInfo, profile: UserProfile | undefined, outcome: AnalysisOutcome): Promise<void> {
+        try {
+            await this.backend.set({
+                key: this.buildKey(product, profile, outcome.promptVersion),
+                userId: profile?.id,
+                outcome,
+                expiresAt: this.now() + this.ttlMs,
+            });
+        } catch (error) {
+            console.error('Analysis cache write error:', error);
+        }
+    }
+
+    async invalidateUser(userId: string): Promise<void> {
+        try {
+            await this.backend.deleteByUser(userId);
+        } catch (error) {
+            console.error('Analysis cache invalidation error:', error);
+        }
+    }
+}
+
+function createBackend(): AnalysisCacheBackend {
+    return process.env.ANALYSIS_CACHE_BACKEND === 'supabase'
+        ? new SupabaseCacheBackend()
+        : new MemoryCacheBackend();
+}
+
+// Singleton instance
+export const analysisCache = new AnalysisCache(
+    createBackend(),
+    Number(process.env.ANALYSIS_CACHE_TTL_MS) || DEFAULT_TTL_MS
+);
+
+export { DEFAULT_TTL_MS, PROFILE_CACHE_FIELDS };
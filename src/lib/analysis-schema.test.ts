@@ -0,0 +1,140 @@
+// Feature: second-thought, Property 12: Structured Output Validation
+// Validates: Requirements 2.2
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { validateAIResponse, AI_ANALYSIS_JSON_SCHEMA } from './analysis-schema';
+
+// Generate valid AI response JSON
+const validAIResponseArbitrary = fc.record({
+    isEssential: fc.boolean(),
+    essentialityScore: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
+    reasoning: fc.string({ minLength: 1, maxLength: 200 }),
+    warnings: fc.array(
+        fc.record({
+            type: fc.constantFrom('fake_discount', 'urgency_manipulation', 'inflated_price'),
+            confidence: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
+            explanation: fc.string({ minLength: 1, maxLength: 100 }),
+        }),
+        { maxLength: 3 }
+    ),
+    personalizedMessage: fc.string({ minLength: 1, maxLength: 200 }),
+    suggestedAction: fc.constantFrom('proceed', 'cooldown', 'skip'),
+    alternatives: fc.array(
+        fc.record({
+            type: fc.constantFrom('used_or_refurbished', 'cheaper_model', 'rent_or_borrow', 'free_option'),
+            description: fc.string({ minLength: 1, maxLength: 100 }),
+            estimatedPrice: fc.integer({ min: 0, max: 100000 }).map((n) => n / 100),
+        }),
+        { maxLength: 4 }
+    ),
+}, { requiredKeys: ['isEssential', 'essentialityScore', 'reasoning', 'warnings', 'personalizedMessage', 'suggestedAction'] });
+
+describe('Analysis Response Schema', () => {
+    // Property 12: Structured Output Validation
+    describe('Property 12: Structured Output Validation', () => {
+        it('should accept every well-formed response unchanged', () => {
+            fc.assert(
+                fc.property(validAIResponseArbitrary, (aiResponse) => {
+                    const result = validateAIResponse(JSON.stringify(aiResponse));
+
+                    expect(result.success).toBe(true);
+                    if (result.success) {
+                        expect(result.data).toEqual(aiResponse);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject unknown warning types with a field path', () => {
+            fc.assert(
+                fc.property(
+                    validAIResponseArbitrary,
+                    fc.string({ minLength: 1, maxLength: 20 }).filter(
+                        (t) => !['fake_discount', 'urgency_manipulation', 'inflated_price'].includes(t)
+                    ),
+                    (aiResponse, badType) => {
+                        const response = {
+                            ...aiResponse,
+                            warnings: [{ type: badType, confidence: 0.5, explanation: 'test' }],
+                        };
+                        const result = validateAIResponse(JSON.stringify(response));
+
+                        expect(result.success).toBe(false);
+                        if (!result.success) {
+                            expect(result.errors.some((e) => e.startsWith('warnings.0.type'))).toBe(true);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should reject out-of-range essentiality scores', () => {
+            fc.assert(
+                fc.property(
+                    validAIResponseArbitrary,
+                    fc.oneof(fc.integer({ min: -100, max: -1 }), fc.integer({ min: 2, max: 200 })),
+                    (aiResponse, score) => {
+                        const result = validateAIResponse(
+                            JSON.stringify({ ...aiResponse, essentialityScore: score })
+                        );
+
+                        expect(result.success).toBe(false);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should report invalid JSON instead of throwing', () => {
+            const result = validateAIResponse('not json at all');
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors[0]).toContain('not valid JSON');
+            }
+        });
+
+        it('should report every missing field', () => {
+            const result = validateAIResponse(JSON.stringify({ isEssential: true }));
+
+            expect(result.success).toBe(false);
+            if (!result.success) {
+                expect(result.errors.some((e) => e.startsWith('suggestedAction'))).toBe(true);
+                expect(result.errors.some((e) => e.startsWith('reasoning'))).toBe(true);
+            }
+        });
+
+        it('should accept JSON wrapped in a markdown code block', () => {
+            const content = '```json\n' + JSON.stringify({
+                isEssential: false,
+                essentialityScore: 0.2,
+                reasoning: 'Not needed',
+                warnings: [],
+                personalizedMessage: 'Think it over',
+                suggestedAction: 'cooldown',
+            }) + '\n```';
+
+            expect(validateAIResponse(content).success).toBe(true);
+        });
+
+        it('should expose the warning type enum in the response JSON schema', () => {
+            const schema = JSON.stringify(AI_ANALYSIS_JSON_SCHEMA);
+
+            expect(schema).toContain('urgency_manipulation');
+            expect(schema).toContain('suggestedAction');
+            expect(AI_ANALYSIS_JSON_SCHEMA.$schema).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,85 @@
+// Analysis Response Schema
+// Zod definition of the model-generated AnalysisResult fields
+
+import { z } from 'zod';
+
+export const pricingWarningSchema = z.object({
+    type: z.enum(['fake_discount', 'urgency_manipulation', 'inflated_price']),
+    confidence: z.number().min(0).max(1),
+    explanation: z.string().min(1),
+});
+
+// One suggestion per type at most
+const MAX_ALTERNATIVES = 4;
+
+// Savings are derived from estimatedPrice locally rather than trusted from the model
+export const alternativeSchema = z.object({
+    type: z.enum(['used_or_refurbished', 'cheaper_model', 'rent_or_borrow', 'free_option']),
+    description: z.string().min(1),
+    estimatedPrice: z.number().min(0),
+});
+
+// Fields the model is responsible for; opportunity cost is computed locally
+export const aiAnalysisSchema = z.object({
+    isEssential: z.boolean(),
+    essentialityScore: z.number().min(0).max(1),
+    reasoning: z.string().min(1),
+    warnings: z.array(pricingWarningSchema),
+    personalizedMessage: z.string().min(1),
+    suggestedAction: z.enum(['proceed', 'cooldown', 'skip']),
+    alternatives: z.array(alternativeSchema).max(MAX_ALTERNATIVES).optional(),
+});
+
+export type AIAnalysis = z.infer<typeof aiAnalysisSchema>;
+export type AIAlternative = z.infer<typeof alternativeSchema>;
+
+export type AIAnalysisValidation =
+    | { success: true; data: AIAnalysis }
+    | { success: false; errors: string[] };
+
+/**
+ * JSON Schema sent to the model as the required response shape
+ */
+export function toResponseJsonSchema(schema: z.ZodType): Record<string, unknown> {
+    const jsonSchema: Record<string, unknown> = z.toJSONSchema(schema);
+    // Gemini rejects the draft marker, only the schema body is needed
+    delete jsonSchema.$schema;
+    return jsonSchema;
+}
+
+export const AI_ANALYSIS_JSON_SCHEMA = toResponseJsonSchema(aiAnalysisSchema);
+
+/**
+ * Parse and validate raw model output against the analysis schema
+ */
+export function validateAIResponse(content: string): AIAnalysisValidation {
+    // Schema-constrained output is plain JSON, but tolerate markdown code blocks
+    let jsonStr = content;
+    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+    if (jsonMatch) {
+        jsonStr = jsonMatch[1];
+    }
+
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(jsonStr.trim());
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        return { success: false, errors: [`Response is not valid JSON: ${reason}`] };
+    }
+
+    const result = aiAnalysisSchema.safeParse(parsed);
+    if (!result.success) {
+        return {
+            success: false,
+            errors: result.error.issues.map((issue) => {
+                const path = issue.path.length > 0 ? issue.path.join('.') : '(root)';
+                return `${path}: ${issue.message}`;
+            }),
+        };
+    }
+
+    return { success: true, data: result.data };
+}
+
+export { MAX_ALTERNATIVES };
@@ -0,0 +1,514 @@
+// Feature: second-thought, Property 2: AI Response Structure Validity
+// Feature: second-thought, Property 9: Prompt Construction Includes User Goals
+// Feature: second-thought, Property 13: Validation Retry and Provider Failover
+// Feature: second-thought, Property 17: Streaming Analysis Events
+// Validates: Requirements 2.2, 6.3
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { buildPrompt, parseAIResponse, analyzePurchase, streamPurchaseAnalysis } from './analyzer';
+import type { AnalysisStreamEvent } from './analyzer';
+import { EMPTY_USAGE } from './cost-accounting';
+import { FakeProvider, DEFAULT_FAKE_RESPONSE } from './fake-provider';
+import { sanitizeProduct } from './prompt-sanitizer';
+import type { ProductInfo, UserProfile } from './types';
+
+// Arbitraries
+const productInfoArbitrary = fc.record({
+    name: fc.string({ minLength: 1, maxLength: 100 }),
+    price: fc.integer({ min: 1, max: 100000 }),
+    currency: fc.constantFrom('USD', 'EUR', 'GBP'),
+    originalPrice: fc.option(fc.integer({ min: 1, max: 100000 }), { nil: undefined }),
+    category: fc.option(fc.string({ minLength: 1, maxLength: 50 }), { nil: undefined }),
+    url: fc.constant('http://test.com/product'),
+    urgencyIndicators: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { maxLength: 3 }),
+});
+
+const userProfileArbitrary = fc.record({
+    id: fc.uuid(),
+    savingsGoal: fc.option(fc.integer({ min: 0, max: 1000000 }), { nil: undefined }),
+    monthlyBudget: fc.option(fc.integer({ min: 0, max: 100000 }), { nil: undefined }),
+    financialGoals: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 1, maxLength: 5 }),
+    spendingThreshold: fc.integer({ min: 1, max: 10000 }),
+    coolDownEnabled: fc.boolean(),
+    imageAnalysisEnabled: fc.boolean(),
+    coachingPersona: fc.constantFrom('gentle' as const, 'neutral' as const, 'tough_love' as const, 'humorous' as const),
+    createdAt: fc.date(),
+    updatedAt: fc.date(),
+});
+
+// Generate valid AI response JSON
+const validAIResponseArbitrary = fc.record({
+    isEssential: fc.boolean(),
+    essentialityScore: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
+    reasoning: fc.string({ minLength: 1, maxLength: 200 }),
+    warnings: fc.array(
+        fc.record({
+            type: fc.constantFrom('fake_discount', 'urgency_manipulation', 'inflated_price'),
+            confidence: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
+            explanation: fc.string({ minLength: 1, maxLength: 100 }),
+        }),
+        { maxLength: 3 }
+    ),
+    personalizedMessage: fc.string({ minLength: 1, maxLength: 200 }),
+    suggestedAction: fc.constantFrom('proceed', 'cooldown', 'skip'),
+});
+
+describe('Purchase Analyzer', () => {
+    // Property 2: AI Response Structure Validity
+    describe('Property 2: Response Structure Validity', () => {
+        it('should parse valid AI responses with correct structure', () => {
+            fc.assert(
+                fc.property(
+                    validAIResponseArbitrary,
+                    productInfoArbitrary,
+                    (aiResponse, product) => {
+                        const jsonContent = JSON.stringify(aiResponse);
+                        const result = parseAIResponse(jsonContent, product as ProductInfo);
+
+                        // Verify structure
+                        expect(typeof result.isEssential).toBe('boolean');
+                        expect(typeof result.essentialityScore).toBe('number');
+                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
+                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
+                        expect(typeof result.reasoning).toBe('string');
+                        expect(Array.isArray(result.warnings)).toBe(true);
+                        expect(typeof result.personalizedMessage).toBe('string');
+                        expect(['proceed', 'cooldown', 'skip']).toContain(result.suggestedAction);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should handle markdown code blocks in response', () => {
+            fc.assert(
+                fc.property(
+                    validAIResponseArbitrary,
+                    productInfoArbitrary,
+                    (aiResponse, product) => {
+                        const jsonContent = '```json\n' + JSON.stringify(aiResponse) + '\n```';
+                        const result = parseAIResponse(jsonContent, product as ProductInfo);
+
+                        expect(typeof result.isEssential).toBe('boolean');
+                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
+                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should clamp essentialityScore to 0-1 range', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: -100, max: 200 }),
+                    productInfoArbitrary,
+                    (score, product) => {
+                        const aiResponse = {
+                            isEssential: false,
+                            essentialityScore: score,
+                            reasoning: 'test',
+                            warnings: [],
+                            personalizedMessage: 'test',
+                            suggestedAction: 'cooldown',
+                        };
+                        const result = parseAIResponse(JSON.stringify(aiResponse), product as ProductInfo);
+
+                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
+                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should return fallback for invalid JSON', () => {
+            fc.assert(
+                fc.property(
+                    fc.string().filter((s) => {
+                        try {
+                            JSON.parse(s);
+                            return false;
+                        } catch {
+                            return true;
+                        }
+                    }),
+                    productInfoArbitrary,
+                    (invalidJson, product) => {
+                        const result = parseAIResponse(invalidJson, product as ProductInfo);
+
+                        // Should return valid structure even for invalid input
+                        expect(typeof result.isEssential).toBe('boolean');
+                        expect(typeof result.essentialityScore).toBe('number');
+                        expect(result.suggestedAction).toBe('cooldown'); // Fallback action
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Property 9: Prompt Construction Includes User Goals
+    describe('Property 9: Prompt Includes User Goals', () => {
+        it('should include all financial goals in the prompt', () => {
+            fc.assert(
+                fc.property(
+                    productInfoArbitrary,
+                    userProfileArbitrary,
+                    (product, profile) => {
+                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
+
+                        // Each financial goal should appear in the prompt
+                        for (const goal of profile.financialGoals) {
+                            expect(prompt).toContain(goal);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should include monthly budget when provided', () => {
+            fc.assert(
+                fc.property(
+                    productInfoArbitrary,
+                    userProfileArbitrary.filter((p) => p.monthlyBudget !== undefined && p.monthlyBudget > 0),
+                    (product, profile) => {
+                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
+                        expect(prompt).toContain('Monthly Budget');
+                        expect(prompt).toContain(String(profile.monthlyBudget));
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should include savings goal when provided', () => {
+            fc.assert(
+                fc.property(
+                    productInfoArbitrary,
+                    userProfileArbitrary.filter((p) => p.savingsGoal !== undefined && p.savingsGoal > 0),
+                    (product, profile) => {
+                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
+                        expect(prompt).toContain('Savings Goal');
+                        expect(prompt).toContain(String(profile.savingsGoal));
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should include product details in prompt', () => {
+            fc.assert(
+                fc.property(productInfoArbitrary, (product) => {
+                    const prompt = buildPrompt(product as ProductInfo);
+
+                    // Scraped text reaches the prompt sanitized and delimited
+                    const { name } = sanitizeProduct(product as ProductInfo);
+                    expect(prompt).toContain(`<untrusted_name>${name}</untrusted_name>`);
+                    expect(prompt).toContain(String(product.price));
+                    expect(prompt).toContain(product.currency);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should include urgency indicators in prompt', () => {
+            const product: ProductInfo = {
+                name: 'Test Product',
+                price: 100,
+                currency: 'USD',
+                url: 'http://test.com',
+                urgencyIndicators: ['Only 3 left!', 'Sale ends soon'],
+            };
+
+            const prompt = buildPrompt(product);
+            expect(prompt).toContain('Only 3 left!');
+            expect(prompt).toContain('Sale ends soon');
+        });
+
+        it('should include original price for discount detection', () => {
+            const product: ProductInfo = {
+                name: 'Test Product',
+                price: 50,
+                currency: 'USD',
+                originalPrice: 100,
+                url: 'http://test.com',
+                urgencyIndicators: [],
+            };
+
+            const prompt = buildPrompt(product);
+            expect(prompt).toContain('Original Price');
+            expect(prompt).toContain('100');
+        });
+
+        it('should calculate opportunity cost in parsed response', () => {
+            const product: ProductInfo = {
+                name: 'Test',
+                price: 100,
+                currency: 'USD',
+                url: 'http://test.com',
+                urgencyIndicators: [],
+            };
+
+            const aiResponse = {
+                isEssential: false,
+                essentialityScore: 0.3,
+                reasoning: 'Not essential',
+                warnings: [],
+                personalizedMessage: 'Consider waiting',
+                suggestedAction: 'cooldown',
+            };
+
+            const result = parseAIResponse(JSON.stringify(aiResponse), product);
+
+            expect(result.opportunityCost.amount).toBe(100);
+            expect(result.opportunityCost.projections.years20).toBeGreaterThan(100);
+        });
+    });
+
+    // Property 13: Validation Retry and Provider Failover
+    describe('Property 13: Validation Retry and Provider Failover', () => {
+        const product: ProductInfo = {
+            name: 'Wireless Headphones',
+            price: 150,
+            currency: 'USD',
+            url: 'http://test.com/headphones',
+            urgencyIndicators: [],
+        };
+
+        const validResponse = {
+            isEssential: false,
+            essentialityScore: 0.3,
+            reasoning: 'Entertainment item',
+            warnings: [],
+            personalizedMessage: 'Consider your savings goal',
+            suggestedAction: 'cooldown',
+        };
+
+        beforeEach(() => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        it('should request the analysis response schema', async () => {
+            const provider = new FakeProvider();
+
+            await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(provider.requests[0].responseJsonSchema).toBeDefined();
+        });
+
+        it('should send the product image only when one is given', async () => {
+            const image = { mimeType: 'image/png', data: 'AAAA' };
+            const withImage = new FakeProvider();
+            const textOnly = new FakeProvider();
+
+            await analyzePurchase(product, undefined, { providers: [withImage], image });
+            await analyzePurchase(product, undefined, { providers: [textOnly] });
+
+            expect(withImage.requests[0].images).toEqual([image]);
+            expect(withImage.requests[0].prompt).toContain('photo of the product');
+            expect(textOnly.requests[0].images).toBeUndefined();
+            expect(textOnly.requests[0].prompt).not.toContain('photo of the product');
+        });
+
+        it('should mark a valid first response as model output with provider details', async () => {
+            const provider = new FakeProvider([JSON.stringify(validResponse)], 'primary', 'primary-model');
+
+            const outcome = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(outcome.source).toBe('model');
+            expect(outcome.provider).toBe('primary');
+            expect(outcome.model).toBe('primary-model');
+            expect(outcome.analysis.reasoning).toBe('Entertainment item');
+            expect(outcome.analysis.opportunityCost.amount).toBe(150);
+        });
+
+        it('should compute savings for model-suggested alternatives', async () => {
+            const provider = new FakeProvider([
+                JSON.stringify({
+                    ...validResponse,
+                    alternatives: [
+                        { type: 'used_or_refurbished', description: 'Buy it used', estimatedPrice: 90 },
+                        { type: 'cheaper_model', description: 'A pricier model', estimatedPrice: 200 },
+                    ],
+                }),
+            ]);
+
+            const { analysis } = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(analysis.alternatives).toEqual([
+                { type: 'used_or_refurbished', description: 'Buy it used', estimatedPrice: 90, estimatedSavings: 60 },
+            ]);
+        });
+
+        it('should retry once with validation errors and mark the result repaired', async () => {
+            const provider = new FakeProvider([
+                JSON.stringify({ ...validResponse, suggestedAction: 'buy' }),
+                JSON.stringify({ ...validResponse, suggestedAction: 'skip' }),
+            ]);
+
+            const { analysis, source } = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(source).toBe('repaired');
+            expect(analysis.suggestedAction).toBe('skip');
+            expect(provider.requests).toHaveLength(2);
+            expect(provider.requests[1].prompt).toContain('suggestedAction');
+        });
+
+        it('should total token usage across the first reply and the repair', async () => {
+            const provider = new FakeProvider([
+                JSON.stringify({ ...validResponse, suggestedAction: 'buy' }),
+                JSON.stringify(validResponse),
+            ]);
+
+            const { usage } = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            const promptTokens = provider.requests.reduce((sum, r) => sum + Math.ceil(r.prompt.length / 4), 0);
+            expect(usage?.promptTokens).toBe(promptTokens);
+            expect(usage?.completionTokens).toBeGreaterThan(0);
+            expect(usage?.costUsd).toBe(0);
+        });
+
+        it('should fall back when the retry is also invalid', async () => {
+            const provider = new FakeProvider(['{"isEssential": "maybe"}']);
+
+            const outcome = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(outcome.source).toBe('fallback');
+            expect(outcome.provider).toBeUndefined();
+            expect(outcome.analysis.suggestedAction).toBe('cooldown');
+            expect(outcome.analysis.opportunityCost.amount).toBe(150);
+            expect(provider.requests).toHaveLength(2);
+        });
+
+        it('should fail over to the next provider in order', async () => {
+            const failing = new FakeProvider([new Error('unavailable')], 'first');
+            const backup = new FakeProvider([DEFAULT_FAKE_RESPONSE], 'second', 'second-model');
+
+            const outcome = await analyzePurchase(product, undefined, { providers: [failing, backup] });
+
+            expect(outcome.source).toBe('model');
+            expect(outcome.provider).toBe('second');
+            expect(outcome.model).toBe('second-model');
+            expect(failing.requests).toHaveLength(1);
+        });
+
+        it('should fall back when every provider fails', async () => {
+            const outcome = await analyzePurchase(product, undefined, {
+                providers: [
+                    new FakeProvider([new Error('down')], 'first'),
+                    new FakeProvider([new Error('down')], 'second'),
+                ],
+            });
+
+            expect(outcome.source).toBe('fallback');
+        });
+
+        it('should use the rules without calling a model when no provider is available', async () => {
+            const outcome = await analyzePurchase(product, undefined, { providers: [] });
+
+            expect(outcome.source).toBe('fallback');
+            expect(outcome.usage).toEqual(EMPTY_USAGE);
+        });
+    });
+
+    // Property 17: Streaming Analysis Events
+    describe('Property 17: Streaming Analysis Events', () => {
+        const product: ProductInfo = {
+            name: 'Smart Watch',
+            price: 300,
+            currency: 'USD',
+            url: 'http://test.com/watch',
+            urgencyIndicators: [],
+        };
+
+        async function collect(stream: AsyncGenerator<AnalysisStreamEvent>): Promise<AnalysisStreamEvent[]> {
+            const events: AnalysisStreamEvent[] = [];
+            for await (const event of stream) {
+                events.push(event);
+            }
+            return events;
+        }
+
+        beforeEach(() => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+        });
+
+        it('should emit each valid field once before the complete event', async () => {
+            const events = await collect(streamPurchaseAnalysis(product, undefined, { providers: [new FakeProvider()] }));
+
+            const fields = events.filter((e) => e.type === 'field').map((e) => e.type === 'field' && e.field);
+            expect(new Set(fields).size).toBe(fields.length);
+            expect(fields).toEqual(expect.arrayContaining(['reasoning', 'personalizedMessage', 'suggestedAction']));
+
+            const last = events[events.length - 1];
+            expect(last.type).toBe('complete');
+            if (last.type === 'complete') {
+                expect(last.outcome.source).toBe('model');
+                expect(last.outcome.analysis.opportunityCost.amount).toBe(300);
+            }
+        });
+
+        it('should not emit fields that fail validation', async () => {
+            const invalid = JSON.stringify({ ...JSON.parse(DEFAULT_FAKE_RESPONSE), suggestedAction: 'buy' });
+            const provider = new FakeProvider([invalid, DEFAULT_FAKE_RESPONSE]);
+
+            const events = await collect(streamPurchaseAnalysis(product, undefined, { providers: [provider] }));
+
+            const invalidAction = events.find((e) => e.type === 'field' && e.field === 'suggestedAction');
+            expect(invalidAction).toBeUndefined();
+            const last = events[events.length - 1];
+            expect(last.type === 'complete' && last.outcome.source).toBe('repaired');
+        });
+
+        it('should fail over before streaming starts and complete with fallback when all fail', async () => {
+            const backup = new FakeProvider([DEFAULT_FAKE_RESPONSE], 'backup');
+            const events = await collect(
+                streamPurchaseAnalysis(product, undefined, {
+                    providers: [new FakeProvider([new Error('down')], 'first'), backup],
+                })
+            );
+            const last = events[events.length - 1];
+            expect(last.type === 'complete' && last.outcome.provider).toBe('backup');
+
+            const failed = await collect(
+                streamPurchaseAnalysis(product, undefined, { providers: [new FakeProvider([new Error('down')])] })
+            );
+            expect(failed).toHaveLength(1);
+            expect(failed[0].type === 'complete' && failed[0].outcome.source).toBe('fallback');
+        });
+
+        it('should call each provider once when none of them streams a reply', async () => {
+            const providers = [new FakeProvider([new Error('down')], 'a'), new FakeProvider([new Error('down')], 'b')];
+
+            const events = await collect(streamPurchaseAnalysis(product, undefined, { providers }));
+
+            const last = events[events.length - 1];
+            expect(last.type === 'complete' && last.outcome.source).toBe('fallback');
+            expect(providers.map((p) => p.requests.length)).toEqual([1, 1]);
+        });
+    });
+});
@@ -0,0 +1,354 @@
+// Purchase Analyzer
+// Builds prompts, validates model output and fails over between LLM providers
+
+import { resolveAlternatives } from './alternatives';
+import { allCircuitsOpen } from './circuit-breaker';
+import { addUsage, EMPTY_USAGE } from './cost-accounting';
+import { homeCurrencyPrice, toHomeCurrency } from './currency';
+import { calculateOpportunityCost, resolveAssumptions } from './opportunity-cost';
+import { calculatePersonalCost } from './personal-cost';
+import { AI_ANALYSIS_JSON_SCHEMA, aiAnalysisSchema, validateAIResponse } from './analysis-schema';
+import { generateWithFailover, streamWithFailover } from './llm-provider';
+import { extractCompletedFields } from './partial-json';
+import { getAvailableProviderChain } from './provider-registry';
+import { getPromptTemplate, DEFAULT_PROMPT_VERSION, IMAGE_INSTRUCTIONS } from './prompt-registry';
+import { detectProductInjection } from './prompt-sanitizer';
+import { analyzeWithRules } from './rules-analyzer';
+import type { AIAlternative, AIAnalysis } from './analysis-schema';
+import type { LLMImage, LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+import type {
+    ProductInfo,
+    AnalysisResult,
+    AnalysisOutcome,
+    AnalysisUsage,
+    ConvertedPrice,
+    OpportunityCost,
+    PersonalCost,
+    UserProfile,
+} from './types';
+
+function buildPrompt(
+    product: ProductInfo,
+    userProfile?: UserProfile,
+    promptVersion: string = DEFAULT_PROMPT_VERSION
+): string {
+    return getPromptTemplate(promptVersion).build(product, userProfile);
+}
+
+function buildRepairPrompt(prompt: string, previousResponse: string, errors: string[]): string {
+    return `${prompt}
+
+Your previous response did not match the required JSON schema:
+${previousResponse}
+
+Validation errors:
+${errors.map((e) => `- ${e}`).join('\n')}
+
+Respond again with corrected JSON only.`;
+}
+
+function parseAIResponse(content: string, product: ProductInfo, userProfile?: UserProfile): AnalysisResult {
+    const opportunityCost = calculateOpportunityCost(
+        product.price,
+        product.currency,
+        resolveAssumptions(userProfile),
+        product.billingPeriod
+    );
+    const validation = validateAIResponse(content);
+
+    if (!validation.success) {
+        // Fall back to the offline rules
+        return analyzeWithRules(product, userProfile);
+    }
+
+    return {
+        ...validation.data,
+        opportunityCost,
+        personalCost: calculatePersonalCost(homeCurrencyPrice(product, userProfile), userProfile),
+        convertedPrice: toHomeCurrency(product, userProfile),
+        alternatives: resolveAlternatives(validation.data.alternatives, product),
+    };
+}
+
+function analysisRequest(prompt: string, images?: LLMImage[], signal?: AbortSignal): LLMRequest {
+    return {
+        prompt,
+        responseJsonSchema: AI_ANALYSIS_JSON_SCHEMA,
+        images,
+        signal,
+    };
+}
+
+async function generateAnalysisJson(
+    providers: LLMProvider[],
+    prompt: string,
+    images?: LLMImage[],
+    signal?: AbortSignal
+): Promise<LLMResponse> {
+    return generateWithFailover(providers, analysisRequest(prompt, images, signal));
+}
+
+export interface AnalyzeOptions {
+    // Providers in failover order; defaults to the configured chain
+    providers?: LLMProvider[];
+    // Prompt template version; defaults to the current control version
+    promptVersion?: string;
+    // Product image sent alongside the prompt; omit for text-only analysis
+    image?: LLMImage;
+    // Deadline or cancellation; once aborted the rules-based result is returned
+    signal?: AbortSignal;
+    // The caller's daily budget is spent; the rules-based result is returned
+    quotaExceeded?: boolean;
+}
+
+// Everything one analysis needs once the prompt has been built
+interface AnalysisRun {
+    product: ProductInfo;
+    userProfile?: UserProfile;
+    providers: LLMProvider[];
+    prompt: string;
+    images?: LLMImage[];
+    promptVersion: string;
+    opportunityCost: OpportunityCost;
+    personalCost?: PersonalCost;
+    convertedPrice?: ConvertedPrice;
+    // The listing looks like it is trying to steer the verdict
+    injectionSuspected: boolean;
+    // Tokens and spend across every model reply in this run
+    usage: AnalysisUsage;
+    signal?: AbortSignal;
+    // No provider would take a request, so the model is not called at all
+    circuitOpen: boolean;
+    quotaExceeded: boolean;
+}
+
+function startRun(product: ProductInfo, userProfile: UserProfile | undefined, options: AnalyzeOptions): AnalysisRun {
+    const promptVersion = options.promptVersion ?? DEFAULT_PROMPT_VERSION;
+    const prompt = buildPrompt(product, userProfile, promptVersion);
+    const providers = options.providers ?? getAvailableProviderChain();
+    const convertedPrice = toHomeCurrency(product, userProfile);
+    return {
+        product,
+        userProfile,
+        providers,
+        prompt: options.image ? `${prompt}\n${IMAGE_INSTRUCTIONS}` : prompt,
+        images: options.image ? [options.image] : undefined,
+        promptVersion,
+        opportunityCost: calculateOpportunityCost(
+            product.price,
+            product.currency,
+            resolveAssumptions(userProfile),
+            product.billingPeriod
+        ),
+        personalCost: calculatePersonalCost(homeCurrencyPrice(product, userProfile), userProfile),
+        convertedPrice,
+        injectionSuspected: detectProductInjection(product).length > 0,
+        usage: EMPTY_USAGE,
+        signal: options.signal,
+        circuitOpen: allCircuitsOpen(providers),
+        quotaExceeded: options.quotaExceeded ?? false,
+    };
+}
+
+function recordUsage(run: AnalysisRun, response: LLMResponse): void {
+    run.usage = addUsage(run.usage, response.model, response.usage);
+}
+
+/**
+ * A listing that tries to instruct the model never gets a 'proceed' verdict,
+ * whatever the model says
+ */
+function guardVerdict(
+    action: AnalysisResult['suggestedAction'],
+    run: Pick<AnalysisRun, 'injectionSuspected'>
+): AnalysisResult['suggestedAction'] {
+    return run.injectionSuspected && action === 'proceed' ? 'cooldown' : action;
+}
+
+/** A validated model reply with the locally computed and guarded fields applied */
+function toAnalysisResult(data: AIAnalysis, run: AnalysisRun): AnalysisResult {
+    return {
+        ...data,
+        suggestedAction: guardVerdict(data.suggestedAction, run),
+        opportunityCost: run.opportunityCost,
+        personalCost: run.personalCost,
+        convertedPrice: run.convertedPrice,
+        alternatives: resolveAlternatives(data.alternatives, run.product),
+    };
+}
+
+/** A streamed field as it will appear in the final result */
+function toStreamedValue(field: keyof AIAnalysis, value: unknown, run: AnalysisRun): unknown {
+    if (field === 'suggestedAction') {
+        return guardVerdict(value as AnalysisResult['suggestedAction'], run);
+    }
+    if (field === 'alternatives') {
+        return resolveAlternatives(value as AIAlternative[], run.product);
+    }
+    return value;
+}
+
+// Running out of time is expected under load, so it is not logged as an error
+function logModelError(run: AnalysisRun, context: string, error: unknown): void {
+    if (run.signal?.aborted) {
+        console.warn(`${context} stopped at the deadline, using the rules-based result`);
+    } else {
+        console.error(`${context} error:`, error);
+    }
+}
+
+// No valid model reply: use the offline rules rather than a generic answer
+function fallbackOutcome(run: AnalysisRun): AnalysisOutcome {
+    return {
+        analysis: analyzeWithRules(run.product, run.userProfile),
+        source: 'fallback',
+        promptVersion: run.promptVersion,
+        usage: run.usage,
+        ...(run.signal?.aborted && { deadlineExceeded: true }),
+        ...(run.circuitOpen && { circuitOpen: true }),
+        ...(run.quotaExceeded && { quotaExceeded: true }),
+    };
+}
+
+// No providers means none has API keys configured
+function skipsModel(run: AnalysisRun): boolean {
+    return run.providers.length === 0 || run.circuitOpen || run.quotaExceeded;
+}
+
+/**
+ * Validate a model reply, retrying once with the validation errors fed back
+ * (starting from the provider that produced the invalid reply)
+ */
+async function resolveAnalysis(run: AnalysisRun, response: LLMResponse): Promise<AnalysisOutcome> {
+    const { providers, prompt, images, promptVersion, signal } = run;
+    recordUsage(run, response);
+
+    const validation = validateAIResponse(response.text);
+    if (validation.success) {
+        return {
+            analysis: toAnalysisResult(validation.data, run),
+            source: 'model',
+            provider: response.provider,
+            model: response.model,
+            promptVersion,
+            usage: run.usage,
+        };
+    }
+
+    console.warn(`${response.provider} response failed validation, retrying:`, validation.errors);
+    const answeredIndex = providers.findIndex((p) => p.name === response.provider);
+    const repaired = await generateAnalysisJson(
+        providers.slice(Math.max(0, answeredIndex)),
+        buildRepairPrompt(prompt, response.text, validation.errors),
+        images,
+        signal
+    );
+    recordUsage(run, repaired);
+    const repairedValidation = validateAIResponse(repaired.text);
+    if (repairedValidation.success) {
+        return {
+            analysis: toAnalysisResult(repairedValidation.data, run),
+            source: 'repaired',
+            provider: repaired.provider,
+            model: repaired.model,
+            promptVersion,
+            usage: run.usage,
+        };
+    }
+
+    console.error(`${repaired.provider} repair attempt failed validation:`, repairedValidation.errors);
+    return fallbackOutcome(run);
+}
+
+export async function analyzePurchase(
+    product: ProductInfo,
+    userProfile?: UserProfile,
+    options: AnalyzeOptions = {}
+): Promise<AnalysisOutcome> {
+    const run = startRun(product, userProfile, options);
+    if (skipsModel(run)) {
+        return fallbackOutcome(run);
+    }
+
+    try {
+        const response = await generateAnalysisJson(run.providers, run.prompt, run.images, run.signal);
+        return await resolveAnalysis(run, response);
+    } catch (error) {
+        logModelError(run, 'LLM analysis', error);
+    }
+
+    // Return fallback response
+    return fallbackOutcome(run);
+}
+
+export type AnalysisStreamEvent =
+    | { type: 'field'; field: keyof AIAnalysis; value: unknown }
+    | { type: 'complete'; outcome: AnalysisOutcome };
+
+/**
+ * Streaming variant of analyzePurchase: yields each model field once it has
+ * fully arrived and validates on its own, then the final validated outcome
+ */
+export async function* streamPurchaseAnalysis(
+    product: ProductInfo,
+    userProfile?: UserProfile,
+    options: AnalyzeOptions = {}
+): AsyncGenerator<AnalysisStreamEvent> {
+    const run = startRun(product, userProfile, options);
+    if (skipsModel(run)) {
+        yield { type: 'complete', outcome: fallbackOutcome(run) };
+        return;
+    }
+
+    const emitted = new Set<string>();
+    let streamed = null as LLMResponse | null;
+
+    try {
+        const request = analysisRequest(run.prompt, run.images, run.signal);
+        for await (const chunk of streamWithFailover(run.providers, request)) {
+            streamed = {
+                text: (streamed?.text || '') + chunk.text,
+                provider: chunk.provider,
+                model: chunk.model,
+                usage: chunk.usage ?? streamed?.usage,
+            };
+
+            const fields = extractCompletedFields(streamed.text);
+            for (const [field, value] of Object.entries(fields)) {
+                if (emitted.has(field) || !(field in aiAnalysisSchema.shape)) continue;
+
+                const fieldSchema = aiAnalysisSchema.shape[field as keyof AIAnalysis];
+                if (!fieldSchema.safeParse(value).success) continue;
+
+                emitted.add(field);
+                yield {
+                    type: 'field',
+                    field: field as keyof AIAnalysis,
+                    value: toStreamedValue(field as keyof AIAnalysis, value, run),
+                };
+            }
+        }
+    } catch (error) {
+        logModelError(run, 'LLM streaming', error);
+    }
+
+    let outcome: AnalysisOutcome;
+    try {
+        if (run.signal?.aborted) {
+            // Out of time: a retry would only overrun further
+            if (streamed) recordUsage(run, streamed);
+            outcome = fallbackOutcome(run);
+        } else {
+            // A stream cut off mid-reply goes through the normal validation retry;
+            // with no reply at all every provider already failed once
+            outcome = streamed ? await resolveAnalysis(run, streamed) : fallbackOutcome(run);
+        }
+    } catch (error) {
+        logModelError(run, 'LLM analysis', error);
+        outcome = fallbackOutcome(run);
+    }
+
+    yield { type: 'complete', outcome };
+}
+
+export { buildPrompt, buildRepairPrompt, parseAIResponse };
@@ -0,0 +1,122 @@
+// Feature: second-thought, Property 30: API Key Redaction
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadApiKeys, parseApiKeys, redactKey, redactSecrets, requireApiKeys, MissingApiKeysError } from './api-keys';
+import { LoadBalancer } from './load-balancer';
+import { CerebrasProvider } from './cerebras';
+import { GeminiProvider } from './gemini';
+import { ProviderError } from './llm-provider';
+
+const keyArbitrary = fc.stringMatching(/^csk-[a-z0-9]{20,40}$/);
+
+describe('API Keys', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'api-keys-'));
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    // Property 30: API Key Redaction
+    describe('Property 30: API Key Redaction', () => {
+        it('should never let a key through to an error message', () => {
+            fc.assert(
+                fc.property(keyArbitrary, fc.string({ maxLength: 40 }), fc.string({ maxLength: 40 }), (key, before, after) => {
+                    const error = new ProviderError(`${before}Bearer ${key}${after}`, 'cerebras');
+
+                    expect(error.message).not.toContain(key);
+                    expect(error.message).toContain('Bearer csk-');
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should parse comma or newline separated keys, skipping comments and duplicates', () => {
+            expect(parseApiKeys(undefined)).toEqual([]);
+            expect(parseApiKeys(' key-a, key-b ,,key-a')).toEqual(['key-a', 'key-b']);
+            expect(parseApiKeys('# rotated 2026-10-01\nkey-a\n\nkey-b # backup\n')).toEqual(['key-a', 'key-b']);
+        });
+
+        it('should prefer the secrets file over the inline variable', () => {
+            const file = join(dir, 'keys');
+            writeFileSync(file, 'file-key-a\nfile-key-b\n');
+
+            expect(loadApiKeys('TEST_KEYS', { TEST_KEYS: 'inline-key' })).toEqual(['inline-key']);
+            expect(loadApiKeys('TEST_KEYS', { TEST_KEYS: 'inline-key', TEST_KEYS_FILE: file }))
+                .toEqual(['file-key-a', 'file-key-b']);
+        });
+
+        it('should refuse an empty key set', () => {
+            expect(() => requireApiKeys('TEST_KEYS', {})).toThrow(MissingApiKeysError);
+            expect(() => requireApiKeys('TEST_KEYS', { TEST_KEYS: ' , ' })).toThrow('set TEST_KEYS or TEST_KEYS_FILE');
+            expect(() => loadApiKeys('TEST_KEYS', { TEST_KEYS_FILE: join(dir, 'missing') }))
+                .toThrow('Failed to read TEST_KEYS_FILE');
+        });
+
+        it('should redact loaded keys of any shape', () => {
+            const [key] = loadApiKeys('TEST_KEYS', { TEST_KEYS: 'custom-secret-value-1234' });
+
+            expect(redactSecrets(`request failed for ${key}`)).toBe('request failed for cust…1234');
+            expect(redactKey('short')).toBe('[redacted]');
+        });
+
+        it('should refuse to build providers without keys', () => {
+            expect(() => new CerebrasProvider(new LoadBalancer([]))).toThrow(MissingApiKeysError);
+            expect(() => new GeminiProvider('')).toThrow(MissingApiKeysError);
+        });
+
+        it('should keep key health across a rotation', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b']);
+            for (let i = 0; i < 3; i++) balancer.reportError('key-a');
+
+            balancer.setKeys(['key-a', 'key-c']);
+
+            expect(balancer.getKeyCount()).toBe(2);
+            expect(balancer.getHealthyKeyCount()).toBe(1);
+            expect(() => balancer.setKeys([])).toThrow('empty API key set');
+        });
+
+        it('should pick up a rotated secrets file on reload', () => {
+            const file = join(dir, 'keys');
+            writeFileSync(file, 'key-a\n');
+            const balancer = new LoadBalancer(() => loadApiKeys('TEST_KEYS', { TEST_KEYS_FILE: file }), {
+                reloadIntervalMs: 60_000,
+            });
+
+            writeFileSync(file, 'key-b\nkey-c\n');
+            expect(balancer.getNextKey()).toBe('key-a');
+
+            expect(balancer.reloadKeys()).toBe(2);
+            expect(['key-b', 'key-c']).toContain(balancer.getNextKey());
+        });
+
+        it('should keep the current keys when a reload fails', () => {
+            const file = join(dir, 'keys');
+            writeFileSync(file, 'key-a\n');
+            const balancer = new LoadBalancer(() => loadApiKeys('TEST_KEYS', { TEST_KEYS_FILE: file }), {
+                reloadIntervalMs: 0,
+            });
+
+            writeFileSync(file, '');
+            expect(balancer.getNextKey()).toBe('key-a');
+
+            rmSync(file);
+            expect(balancer.getNextKey()).toBe('key-a');
+        });
+    });
+});
@@ -0,0 +1,82 @@
+// API Keys
+// Loads provider API keys from environment variables or a mounted secrets
+// file, and keeps them out of logs and error messages
+
+import { readFileSync } from 'fs';
+
+// Shapes of provider keys, redacted even if they were never loaded here
+const KEY_PATTERNS = [/csk-[a-z0-9]{16,}/gi, /AIza[0-9A-Za-z_-]{30,}/g];
+
+// Every key loaded so far, redacted wherever it shows up
+const knownKeys = new Set<string>();
+
+export class MissingApiKeysError extends Error {
+    constructor(public readonly envName: string) {
+        super(`No API keys configured: set ${envName} or ${envName}_FILE`);
+        this.name = 'MissingApiKeysError';
+    }
+}
+
+/**
+ * Parse a key list separated by commas or newlines, e.g.
+ * CEREBRAS_API_KEYS="csk-a,csk-b". Blank lines and # comments are skipped.
+ */
+export function parseApiKeys(config: string | undefined): string[] {
+    if (!config) return [];
+
+    const keys = config
+        .split(/[,\n]/)
+        .map((line) => line.replace(/#.*$/, '').trim())
+        .filter(Boolean);
+
+    return [...new Set(keys)];
+}
+
+/**
+ * Keys from the secrets file named by `<envName>_FILE` when set, otherwise
+ * from `<envName>` itself. The file is read on every call so a rotated
+ * secret is picked up without a redeploy.
+ */
+export function loadApiKeys(envName: string, env: Record<string, string | undefined> = process.env): string[] {
+    const file = env[`${envName}_FILE`];
+
+    let keys: string[];
+    if (file) {
+        try {
+            keys = parseApiKeys(readFileSync(file, 'utf8'));
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            throw new Error(`Failed to read ${envName}_FILE: ${message}`);
+        }
+    } else {
+        keys = parseApiKeys(env[envName]);
+    }
+
+    keys.forEach((key) => knownKeys.add(key));
+    return keys;
+}
+
+/** Like loadApiKeys, but refuses an empty key set */
+export function requireApiKeys(envName: string, env: Record<string, string | undefined> = process.env): string[] {
+    const keys = loadApiKeys(envName, env);
+    if (keys.length === 0) {
+        throw new MissingApiKeysError(envName);
+    }
+    return keys;
+}
+
+/** Enough of a key to tell keys apart in logs, e.g. "csk-…9x2a" */
+export function redactKey(key: string): string {
+    return key.length > 12 ? `${key.slice(0, 4)}…${key.slice(-4)}` : '[redacted]';
+}
+
+/** Replace every loaded key, and anything shaped like a provider key, in text */
+export function redactSecrets(text: string): string {
+    let redacted = text;
+    for (const key of knownKeys) {
+        redacted = redacted.split(key).join(redactKey(key));
+    }
+    return KEY_PATTERNS.reduce((result, pattern) => result.replace(pattern, redactKey), redacted);
+}
+
+export { KEY_PATTERNS };
@@ -0,0 +1,218 @@
+// Feature: second-thought, Property 24: Bounded Batch Analysis
+// Validates: Requirements 2.1, 6.2
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock Supabase for testing
+vi.mock('./supabase', () => ({
+    supabase: {
+        from: vi.fn(),
+    },
+}));
+
+import { analyzeCart, mapWithConcurrency, pickDropCandidates, summarizeCart } from './batch-analyzer';
+import type { BatchItemResult } from './batch-analyzer';
+import { AnalysisCache, MemoryCacheBackend } from './analysis-cache';
+import { FakeProvider } from './fake-provider';
+import { MemoryUsageBackend, UsageQuota } from './usage-quota';
+import type { AnalysisResult, ProductInfo, UserProfile } from './types';
+
+function product(name: string, price: number, currency = 'USD'): ProductInfo {
+    return { name, price, currency, url: `https://shop.example.com/${encodeURIComponent(name)}`, urgencyIndicators: [] };
+}
+
+function item(index: number, p: ProductInfo, overrides: Partial<AnalysisResult> = {}): BatchItemResult {
+    return {
+        index,
+        product: p,
+        analysis: {
+            isEssential: false,
+            essentialityScore: 0.3,
+            reasoning: 'test',
+            warnings: [],
+            opportunityCost: { amount: p.price, projections: { years5: 0, years10: 0, years20: 0 }, comparisonText: '' },
+            personalizedMessage: 'test',
+            suggestedAction: 'cooldown',
+            ...overrides,
+        },
+        source: 'model',
+        cache: 'miss',
+    };
+}
+
+const profile: UserProfile = {
+    id: 'user-1',
+    monthlyBudget: 500,
+    financialGoals: [],
+    spendingThreshold: 20,
+    coolDownEnabled: true,
+    imageAnalysisEnabled: true,
+    coachingPersona: 'gentle',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+};
+
+describe('Batch Analyzer', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    // Property 24: Bounded Batch Analysis
+    describe('Property 24: Bounded Batch Analysis', () => {
+        it('should never exceed the concurrency limit and keep result order', async () => {
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.array(fc.integer({ min: 0, max: 5 }), { minLength: 1, maxLength: 15 }),
+                    fc.integer({ min: 1, max: 5 }),
+                    async (delays, limit) => {
+                        let inFlight = 0;
+                        let peak = 0;
+
+                        const results = await mapWithConcurrency(delays, limit, async (delay, index) => {
+                            inFlight++;
+                            peak = Math.max(peak, inFlight);
+                            await new Promise((resolve) => setTimeout(resolve, delay));
+                            inFlight--;
+                            return index;
+                        });
+
+                        expect(peak).toBeLessThanOrEqual(limit);
+                        expect(results).toEqual(delays.map((_, index) => index));
+                    }
+                ),
+                { numRuns: 30 }
+            );
+        });
+
+        it('should total only items in the cart currency', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(fc.tuple(fc.integer({ min: 1, max: 1000 }), fc.constantFrom('USD', 'EUR')), {
+                        minLength: 1,
+                        maxLength: 10,
+                    }),
+                    (entries) => {
+                        const items = entries.map(([price, currency], i) => item(i, product(`item-${i}`, price, currency)));
+                        const summary = summarizeCart(items, profile);
+
+                        const expected = entries.filter(([, currency]) => currency === entries[0][1]);
+                        expect(summary.total).toBe(expected.reduce((sum, [price]) => sum + price, 0));
+                        expect(summary.excludedItemCount).toBe(entries.length - expected.length);
+                        expect(summary.overBudget).toBe(summary.total > 500);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should analyze every item and summarize the cart', async () => {
+            const cart = [product('Headphones', 300), product('Toothpaste', 5), product('Designer Handbag', 400)];
+
+            const { items, summary } = await analyzeCart(cart, profile, {
+                providers: [new FakeProvider()],
+                concurrency: 2,
+                cache: new AnalysisCache(new MemoryCacheBackend()),
+            });
+
+            expect(items.map((i) => i.product.name)).toEqual(['Headphones', 'Toothpaste', 'Designer Handbag']);
+            expect(items.every((i) => i.source === 'model')).toBe(true);
+            expect(summary.total).toBe(705);
+            expect(summary.budgetShare).toBe(1.41);
+            expect(summary.overBudget).toBe(true);
+            expect(summary.opportunityCost.amount).toBe(705);
+        });
+
+        it('should convert the cart into the home currency when one is set', () => {
+            const items = [product('Headphones', 100, 'USD'), product('Kettle', 92, 'EUR'), product('Tea', 10, 'XYZ')]
+                .map((p, i) => item(i, p));
+
+            const summary = summarizeCart(items, { ...profile, homeCurrency: 'EUR' });
+
+            expect(summary.currency).toBe('EUR');
+            expect(summary.total).toBe(184);
+            expect(summary.excludedItemCount).toBe(1);
+        });
+
+        it('should count subscriptions by the year in the totals and by the month against the budget', () => {
+            const items = [
+                product('Speaker', 100),
+                { ...product('Streaming', 15), billingPeriod: 'monthly' as const },
+                { ...product('Cloud Storage', 50), billingPeriod: 'annual' as const },
+            ].map((p, i) => item(i, p));
+
+            const summary = summarizeCart(items, profile);
+
+            expect(summary.oneTimeTotal).toBe(100);
+            expect(summary.recurringAnnualTotal).toBe(230);
+            expect(summary.total).toBe(330);
+            expect(summary.budgetShare).toBe(0.24);
+            expect(summary.opportunityCost.amount).toBe(100);
+            expect(summary.recurringOpportunityCost?.recurring).toEqual({ billingPeriod: 'annual', annualCost: 230 });
+            expect(summary.dropCandidates.map((c) => c.name)).toEqual(['Streaming', 'Speaker', 'Cloud Storage']);
+            expect(summarizeCart([items[0]], profile).recurringOpportunityCost).toBeUndefined();
+        });
+
+        it('should reuse cached analyses for repeated items', async () => {
+            const cache = new AnalysisCache(new MemoryCacheBackend());
+            const provider = new FakeProvider();
+            const cart = [product('Headphones', 300)];
+
+            await analyzeCart(cart, undefined, { providers: [provider], cache });
+            const { items } = await analyzeCart(cart, undefined, { providers: [provider], cache });
+
+            expect(items[0].cache).toBe('hit');
+            expect(provider.requests).toHaveLength(1);
+        });
+
+        it('should count each model call against the daily budget and stop once it is spent', async () => {
+            const quota = new UsageQuota(new MemoryUsageBackend(), { requests: 2 });
+            const provider = new FakeProvider();
+            const cart = [product('Headphones', 300), product('Kettle', 40), product('Designer Handbag', 400)];
+
+            const { items } = await analyzeCart(cart, profile, {
+                providers: [provider],
+                concurrency: 1,
+                cache: new AnalysisCache(new MemoryCacheBackend()),
+                userId: 'user-1',
+                quota,
+            });
+
+            expect(provider.requests).toHaveLength(2);
+            expect(items.map((i) => !!i.quotaExceeded)).toEqual([false, false, true]);
+            expect(items[2].source).toBe('fallback');
+            expect((await quota.check('user-1')).usage.requests).toBe(2);
+        });
+
+        it('should rank the least essential money first as drop candidates', () => {
+            const candidates = pickDropCandidates([
+                item(0, product('Cheap toy', 20), { essentialityScore: 0.1 }),
+                item(1, product('Big TV', 900), { essentialityScore: 0.3 }),
+                item(2, product('Groceries', 80), { isEssential: true, essentialityScore: 0.9, suggestedAction: 'proceed' }),
+                item(3, product('Handbag', 500), { essentialityScore: 0.1, suggestedAction: 'skip' }),
+            ]);
+
+            expect(candidates.map((c) => c.index)).toEqual([1, 3, 0]);
+            expect(candidates[1].reason).toBe('Suggested to skip');
+        });
+
+        it('should compare drop candidates in one currency and a year of subscription payments', () => {
+            const candidates = pickDropCandidates([
+                item(0, product('Speaker', 100, 'USD')),
+                item(1, product('Camera', 10000, 'JPY')),
+                item(2, { ...product('Streaming', 15, 'USD'), billingPeriod: 'monthly' }),
+                item(3, product('Souvenir', 5000, 'XYZ')),
+            ], 'USD');
+
+            // 15 a month is 180 a year; 10,000 yen is about 67 dollars
+            expect(candidates.map((c) => c.index)).toEqual([2, 0, 1]);
+            expect(candidates[2]).toMatchObject({ price: 10000, currency: 'JPY' });
+        });
+    });
+});
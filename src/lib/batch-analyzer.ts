@@ -0,0 +1,277 @@
+// Batch Analyzer
+// Analyzes a cart of products with bounded concurrency and summarizes the cart
+
+import { analyzePurchase } from './analyzer';
+import { analysisCache, AnalysisCache } from './analysis-cache';
+import { exchangeRates } from './currency';
+import { loadBalancer } from './load-balancer';
+import { annualizeCost, calculateOpportunityCost, isBillingPeriod, resolveAssumptions } from './opportunity-cost';
+import { analyzePricing } from './pricing-analyzer';
+import { DEFAULT_PROMPT_VERSION } from './prompt-registry';
+import { getAvailableProviderChain } from './provider-registry';
+import { userQuota, UsageQuota } from './usage-quota';
+import type { LLMProvider } from './llm-provider';
+import type {
+    AnalysisResult,
+    AnalysisSource,
+    AnalysisUsage,
+    OpportunityCost,
+    ProductInfo,
+    UserProfile,
+} from './types';
+
+const MAX_BATCH_ITEMS = 20;
+const MAX_BATCH_CONCURRENCY = 4;
+const MAX_DROP_CANDIDATES = 3;
+
+export interface BatchItemResult {
+    index: number;
+    product: ProductInfo;
+    analysis: AnalysisResult;
+    source: AnalysisSource;
+    provider?: string;
+    model?: string;
+    cache: 'hit' | 'miss';
+    // Model spend for this item; absent for cache hits
+    usage?: AnalysisUsage;
+    // Served from the rules because the batch ran out of time
+    deadlineExceeded?: boolean;
+    // Served from the rules because the user's daily budget is spent
+    quotaExceeded?: boolean;
+}
+
+export interface DropCandidate {
+    index: number;
+    name: string;
+    // As listed, in the item's own currency
+    price: number;
+    currency: string;
+    reason: string;
+}
+
+export interface CartSummary {
+    itemCount: number;
+    currency: string;
+    // One-time prices plus a year of each subscription, priced in or converted
+    // into the cart currency
+    total: number;
+    oneTimeTotal: number;
+    // A year of payments for every subscription in the cart
+    recurringAnnualTotal: number;
+    // Items left out of the totals because their currency could not be converted
+    excludedItemCount: number;
+    monthlyBudget?: number;
+    // Of the monthly budget, for the one-time prices plus a month of subscriptions
+    budgetShare?: number;
+    overBudget: boolean;
+    // For the one-time prices
+    opportunityCost: OpportunityCost;
+    // For the subscriptions, paid yearly; absent without any
+    recurringOpportunityCost?: OpportunityCost;
+    dropCandidates: DropCandidate[];
+}
+
+export interface BatchAnalysis {
+    items: BatchItemResult[];
+    summary: CartSummary;
+}
+
+export interface BatchOptions {
+    providers?: LLMProvider[];
+    promptVersion?: string;
+    concurrency?: number;
+    cache?: AnalysisCache;
+    // Each item's model call counts against this user's daily budget
+    userId?: string;
+    quota?: UsageQuota;
+    // Shared by every item; items still waiting when it aborts get the rules-based result
+    signal?: AbortSignal;
+}
+
+/**
+ * Concurrency that shares model quota with single analyses: one request in
+ * flight per healthy API key, capped
+ */
+export function defaultBatchConcurrency(): number {
+    return Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, loadBalancer.getHealthyKeyCount()));
+}
+
+/** Map over items with at most `limit` calls in flight, keeping result order */
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    return results;
+}
+
+async function analyzeItem(
+    product: ProductInfo,
+    index: number,
+    userProfile: UserProfile | undefined,
+    promptVersion: string,
+    options: BatchOptions
+): Promise<BatchItemResult> {
+    const cache = options.cache ?? analysisCache;
+    const quota = options.quota ?? userQuota;
+    const { userId } = options;
+
+    let outcome = await cache.get(product, userProfile, promptVersion);
+    const cacheStatus = outcome ? 'hit' : 'miss';
+    if (!outcome) {
+        // Checked per item, so a cart cannot run past a budget it starts under
+        const quotaExceeded = userId ? !(await quota.check(userId)).allowed : false;
+        const providers = options.providers ?? getAvailableProviderChain();
+        // Batch items are text-only to keep cart analysis fast
+        outcome = await analyzePurchase(product, userProfile, {
+            providers,
+            promptVersion,
+            signal: options.signal,
+            quotaExceeded,
+        });
+        if (userId && providers.length > 0 && !outcome.quotaExceeded && !outcome.circuitOpen) {
+            await quota.record(userId, outcome.usage);
+        }
+        if (outcome.source !== 'fallback') {
+            await cache.set(product, userProfile, outcome);
+        }
+    }
+
+    const { analysis, source, provider, model, deadlineExceeded, quotaExceeded } = outcome;
+    return {
+        index,
+        product,
+        analysis: { ...analysis, warnings: [...analysis.warnings, ...analyzePricing(product)] },
+        source,
+        provider,
+        model,
+        cache: cacheStatus,
+        usage: cacheStatus === 'miss' ? outcome.usage : undefined,
+        ...(deadlineExceeded && { deadlineExceeded }),
+        ...(quotaExceeded && { quotaExceeded }),
+    };
+}
+
+function dropReason(item: BatchItemResult): string {
+    if (item.analysis.suggestedAction === 'skip') {
+        return 'Suggested to skip';
+    }
+    if (item.analysis.warnings.length > 0) {
+        return 'Non-essential with pricing warnings';
+    }
+    return 'Least essential for its price';
+}
+
+/**
+ * What an item costs in the cart currency, counting a year of payments for a
+ * subscription; null when its currency has no rate
+ */
+function comparableCost(product: ProductInfo, currency: string): number | null {
+    const price = product.currency === currency
+        ? product.price
+        : exchangeRates.convert(product.price, product.currency, currency)?.amount;
+    if (price === undefined) return null;
+    return isBillingPeriod(product.billingPeriod) ? annualizeCost(price, product.billingPeriod) : price;
+}
+
+/**
+ * Items to drop first: non-essential, not recommended, ranked by how much
+ * money sits in the non-essential part of the cost. Costs are compared in the
+ * cart currency; items that cannot be converted rank last.
+ */
+export function pickDropCandidates(
+    items: BatchItemResult[],
+    currency: string = items[0]?.product.currency || 'USD'
+): DropCandidate[] {
+    return items
+        .filter((item) => !item.analysis.isEssential && item.analysis.suggestedAction !== 'proceed')
+        .map((item) => {
+            const cost = comparableCost(item.product, currency);
+            return { item, weight: cost === null ? -1 : (1 - item.analysis.essentialityScore) * cost };
+        })
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, MAX_DROP_CANDIDATES)
+        .map(({ item }) => ({
+            index: item.index,
+            name: item.product.name,
+            price: item.product.price,
+            currency: item.product.currency,
+            reason: dropReason(item),
+        }));
+}
+
+function sumCents(amounts: number[]): number {
+    return Math.round(amounts.reduce((sum, amount) => sum + amount, 0) * 100) / 100;
+}
+
+/**
+ * One-time prices and a year of each subscription, in the cart currency.
+ * Items without a rate are left out; without a home currency only items in
+ * the first item's currency count.
+ */
+function cartCosts(items: BatchItemResult[], currency: string, convert: boolean) {
+    const priced = items
+        .filter(({ product }) => convert || product.currency === currency)
+        .map(({ product }) => ({ recurring: isBillingPeriod(product.billingPeriod), cost: comparableCost(product, currency) }))
+        .filter((entry): entry is { recurring: boolean; cost: number } => entry.cost !== null);
+
+    return {
+        pricedCount: priced.length,
+        oneTimeTotal: sumCents(priced.filter((entry) => !entry.recurring).map((entry) => entry.cost)),
+        recurringAnnualTotal: sumCents(priced.filter((entry) => entry.recurring).map((entry) => entry.cost)),
+    };
+}
+
+export function summarizeCart(items: BatchItemResult[], userProfile?: UserProfile): CartSummary {
+    const homeCurrency = userProfile?.homeCurrency;
+    const currency = homeCurrency || items[0]?.product.currency || 'USD';
+    const { pricedCount, oneTimeTotal, recurringAnnualTotal } = cartCosts(items, currency, !!homeCurrency);
+    const monthlySpend = sumCents([oneTimeTotal, recurringAnnualTotal / 12]);
+    const monthlyBudget = userProfile?.monthlyBudget;
+    const assumptions = resolveAssumptions(userProfile);
+
+    return {
+        itemCount: items.length,
+        currency,
+        total: sumCents([oneTimeTotal, recurringAnnualTotal]),
+        oneTimeTotal,
+        recurringAnnualTotal,
+        excludedItemCount: items.length - pricedCount,
+        monthlyBudget,
+        budgetShare: monthlyBudget ? Math.round((monthlySpend / monthlyBudget) * 100) / 100 : undefined,
+        overBudget: !!monthlyBudget && monthlySpend > monthlyBudget,
+        opportunityCost: calculateOpportunityCost(oneTimeTotal, currency, assumptions),
+        ...(recurringAnnualTotal > 0 && {
+            recurringOpportunityCost: calculateOpportunityCost(recurringAnnualTotal, currency, assumptions, 'annual'),
+        }),
+        dropCandidates: pickDropCandidates(items, currency),
+    };
+}
+
+export async function analyzeCart(
+    products: ProductInfo[],
+    userProfile?: UserProfile,
+    options: BatchOptions = {}
+): Promise<BatchAnalysis> {
+    const promptVersion = options.promptVersion ?? DEFAULT_PROMPT_VERSION;
+    const concurrency = options.concurrency ?? defaultBatchConcurrency();
+
+    const items = await mapWithConcurrency(products, concurrency, (product, index) =>
+        analyzeItem(product, index, userProfile, promptVersion, options)
+    );
+
+    return { items, summary: summarizeCart(items, userProfile) };
+}
+
+export { MAX_BATCH_ITEMS, MAX_BATCH_CONCURRENCY, MAX_DROP_CANDIDATES };
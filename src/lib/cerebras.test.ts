@@ -1,279 +1,146 @@
-// Feature: second-thought, Property 2: AI Response Structure Validity
-// Feature: second-thought, Property 9: Prompt Construction Includes User Goals
-// Validates: Requirements 2.2, 6.3
-
-import { describe, it, expect } from 'vitest';
-import * as fc from 'fast-check';
-import { buildPrompt, parseAIResponse } from './cerebras';
-import type { ProductInfo, UserProfile } from './types';
-
-// Arbitraries
-const productInfoArbitrary = fc.record({
-    name: fc.string({ minLength: 1, maxLength: 100 }),
-    price: fc.integer({ min: 1, max: 100000 }),
-    currency: fc.constantFrom('USD', 'EUR', 'GBP'),
-    originalPrice: fc.option(fc.integer({ min: 1, max: 100000 }), { nil: undefined }),
-    category: fc.option(fc.string({ minLength: 1, maxLength: 50 }), { nil: undefined }),
-    url: fc.constant('http://test.com/product'),
-    urgencyIndicators: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { maxLength: 3 }),
-});
+// Feature: second-thought, Property 14: LLM Provider Contract
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CerebrasProvider, CEREBRAS_MODEL, CEREBRAS_API_URL } from './cerebras';
+import { LoadBalancer } from './load-balancer';
+import { ProviderError } from './llm-provider';
+
+function jsonResponse(body: unknown, status = 200): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' },
+    });
+}
 
-const userProfileArbitrary = fc.record({
-    id: fc.uuid(),
-    savingsGoal: fc.option(fc.integer({ min: 0, max: 1000000 }), { nil: undefined }),
-    monthlyBudget: fc.option(fc.integer({ min: 0, max: 100000 }), { nil: undefined }),
-    financialGoals: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { minLength: 1, maxLength: 5 }),
-    spendingThreshold: fc.integer({ min: 1, max: 10000 }),
-    coolDownEnabled: fc.boolean(),
-    createdAt: fc.date(),
-    updatedAt: fc.date(),
-});
+describe('Cerebras Provider', () => {
+    const fetchMock = vi.fn();
+    let balancer: LoadBalancer;
 
-// Generate valid AI response JSON
-const validAIResponseArbitrary = fc.record({
-    isEssential: fc.boolean(),
-    essentialityScore: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
-    reasoning: fc.string({ minLength: 1, maxLength: 200 }),
-    warnings: fc.array(
-        fc.record({
-            type: fc.constantFrom('fake_discount', 'urgency_manipulation', 'inflated_price'),
-            confidence: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
-            explanation: fc.string({ minLength: 1, maxLength: 100 }),
-        }),
-        { maxLength: 3 }
-    ),
-    personalizedMessage: fc.string({ minLength: 1, maxLength: 200 }),
-    suggestedAction: fc.constantFrom('proceed', 'cooldown', 'skip'),
-});
+    beforeEach(() => {
+        fetchMock.mockReset();
+        vi.stubGlobal('fetch', fetchMock);
+        balancer = new LoadBalancer(['key-a', 'key-b']);
+    });
 
-describe('Cerebras AI Client', () => {
-    // Property 2: AI Response Structure Validity
-    describe('Property 2: Response Structure Validity', () => {
-        it('should parse valid AI responses with correct structure', () => {
-            fc.assert(
-                fc.property(
-                    validAIResponseArbitrary,
-                    productInfoArbitrary,
-                    (aiResponse, product) => {
-                        const jsonContent = JSON.stringify(aiResponse);
-                        const result = parseAIResponse(jsonContent, product as ProductInfo);
-
-                        // Verify structure
-                        expect(typeof result.isEssential).toBe('boolean');
-                        expect(typeof result.essentialityScore).toBe('number');
-                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
-                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
-                        expect(typeof result.reasoning).toBe('string');
-                        expect(Array.isArray(result.warnings)).toBe(true);
-                        expect(typeof result.personalizedMessage).toBe('string');
-                        expect(['proceed', 'cooldown', 'skip']).toContain(result.suggestedAction);
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+    afterEach(() => {
+        vi.unstubAllGlobals();
+    });
 
-        it('should handle markdown code blocks in response', () => {
-            fc.assert(
-                fc.property(
-                    validAIResponseArbitrary,
-                    productInfoArbitrary,
-                    (aiResponse, product) => {
-                        const jsonContent = '```json\n' + JSON.stringify(aiResponse) + '\n```';
-                        const result = parseAIResponse(jsonContent, product as ProductInfo);
-
-                        expect(typeof result.isEssential).toBe('boolean');
-                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
-                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+    it('should call the chat completions API with a balanced key and JSON schema', async () => {
+        fetchMock.mockResolvedValue(jsonResponse({ choices: [{ message: { content: '{"ok":true}' } }] }));
+        const provider = new CerebrasProvider(balancer);
 
-        it('should clamp essentialityScore to 0-1 range', () => {
-            fc.assert(
-                fc.property(
-                    fc.integer({ min: -100, max: 200 }),
-                    productInfoArbitrary,
-                    (score, product) => {
-                        const aiResponse = {
-                            isEssential: false,
-                            essentialityScore: score,
-                            reasoning: 'test',
-                            warnings: [],
-                            personalizedMessage: 'test',
-                            suggestedAction: 'cooldown',
-                        };
-                        const result = parseAIResponse(JSON.stringify(aiResponse), product as ProductInfo);
-
-                        expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
-                        expect(result.essentialityScore).toBeLessThanOrEqual(1);
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+        const response = await provider.generate({ prompt: 'hello', responseJsonSchema: { type: 'object' } });
 
-        it('should return fallback for invalid JSON', () => {
-            fc.assert(
-                fc.property(
-                    fc.string().filter((s) => {
-                        try {
-                            JSON.parse(s);
-                            return false;
-                        } catch {
-                            return true;
-                        }
-                    }),
-                    productInfoArbitrary,
-                    (invalidJson, product) => {
-                        const result = parseAIResponse(invalidJson, product as ProductInfo);
-
-                        // Should return valid structure even for invalid input
-                        expect(typeof result.isEssential).toBe('boolean');
-                        expect(typeof result.essentialityScore).toBe('number');
-                        expect(result.suggestedAction).toBe('cooldown'); // Fallback action
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+        const [url, init] = fetchMock.mock.calls[0];
+        const body = JSON.parse(init.body);
+        expect(url).toBe(CEREBRAS_API_URL);
+        expect(init.headers.Authorization).toBe('Bearer key-a');
+        expect(body.model).toBe(CEREBRAS_MODEL);
+        expect(body.messages[0].content).toBe('hello');
+        expect(body.response_format.json_schema.schema).toEqual({ type: 'object' });
+        expect(response).toEqual({ text: '{"ok":true}', provider: 'cerebras', model: CEREBRAS_MODEL });
     });
 
-    // Property 9: Prompt Construction Includes User Goals
-    describe('Property 9: Prompt Includes User Goals', () => {
-        it('should include all financial goals in the prompt', () => {
-            fc.assert(
-                fc.property(
-                    productInfoArbitrary,
-                    userProfileArbitrary,
-                    (product, profile) => {
-                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
-
-                        // Each financial goal should appear in the prompt
-                        for (const goal of profile.financialGoals) {
-                            expect(prompt).toContain(goal);
-                        }
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+    it('should report token usage from the completion', async () => {
+        fetchMock.mockResolvedValue(jsonResponse({
+            choices: [{ message: { content: '{}' } }],
+            usage: { prompt_tokens: 300, completion_tokens: 80 },
+        }));
 
-        it('should include monthly budget when provided', () => {
-            fc.assert(
-                fc.property(
-                    productInfoArbitrary,
-                    userProfileArbitrary.filter((p) => p.monthlyBudget !== undefined && p.monthlyBudget > 0),
-                    (product, profile) => {
-                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
-                        expect(prompt).toContain('Monthly Budget');
-                        expect(prompt).toContain(String(profile.monthlyBudget));
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+        const response = await new CerebrasProvider(balancer).generate({ prompt: 'hello' });
 
-        it('should include savings goal when provided', () => {
-            fc.assert(
-                fc.property(
-                    productInfoArbitrary,
-                    userProfileArbitrary.filter((p) => p.savingsGoal !== undefined && p.savingsGoal > 0),
-                    (product, profile) => {
-                        const prompt = buildPrompt(product as ProductInfo, profile as UserProfile);
-                        expect(prompt).toContain('Savings Goal');
-                        expect(prompt).toContain(String(profile.savingsGoal));
-
-                        return true;
-                    }
-                ),
-                { numRuns: 100 }
-            );
-        });
+        expect(response.usage).toEqual({ promptTokens: 300, completionTokens: 80 });
+    });
 
-        it('should include product details in prompt', () => {
-            fc.assert(
-                fc.property(productInfoArbitrary, (product) => {
-                    const prompt = buildPrompt(product as ProductInfo);
+    it('should rotate keys across requests', async () => {
+        fetchMock.mockImplementation(async () => jsonResponse({ choices: [{ message: { content: '{}' } }] }));
+        const provider = new CerebrasProvider(balancer);
 
-                    expect(prompt).toContain(product.name);
-                    expect(prompt).toContain(String(product.price));
-                    expect(prompt).toContain(product.currency);
+        await provider.generate({ prompt: 'one' });
+        await provider.generate({ prompt: 'two' });
 
-                    return true;
-                }),
-                { numRuns: 100 }
-            );
-        });
+        expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer key-a');
+        expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer key-b');
     });
 
-    // Unit tests
-    describe('Unit Tests', () => {
-        it('should include urgency indicators in prompt', () => {
-            const product: ProductInfo = {
-                name: 'Test Product',
-                price: 100,
-                currency: 'USD',
-                url: 'http://test.com',
-                urgencyIndicators: ['Only 3 left!', 'Sale ends soon'],
-            };
-
-            const prompt = buildPrompt(product);
-            expect(prompt).toContain('Only 3 left!');
-            expect(prompt).toContain('Sale ends soon');
-        });
+    it('should report key errors and throw a ProviderError on HTTP failure', async () => {
+        fetchMock.mockImplementation(async () => jsonResponse({ error: 'boom' }, 500));
+        const provider = new CerebrasProvider(balancer);
 
-        it('should include original price for discount detection', () => {
-            const product: ProductInfo = {
-                name: 'Test Product',
-                price: 50,
-                currency: 'USD',
-                originalPrice: 100,
-                url: 'http://test.com',
-                urgencyIndicators: [],
-            };
-
-            const prompt = buildPrompt(product);
-            expect(prompt).toContain('Original Price');
-            expect(prompt).toContain('100');
-        });
+        const error = await provider.generate({ prompt: 'hello' }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.provider).toBe('cerebras');
+        expect(error.status).toBe(500);
+    });
 
-        it('should calculate opportunity cost in parsed response', () => {
-            const product: ProductInfo = {
-                name: 'Test',
-                price: 100,
-                currency: 'USD',
-                url: 'http://test.com',
-                urgencyIndicators: [],
-            };
-
-            const aiResponse = {
-                isEssential: false,
-                essentialityScore: 0.3,
-                reasoning: 'Not essential',
-                warnings: [],
-                personalizedMessage: 'Consider waiting',
-                suggestedAction: 'cooldown',
-            };
-
-            const result = parseAIResponse(JSON.stringify(aiResponse), product);
-
-            expect(result.opportunityCost.amount).toBe(100);
-            expect(result.opportunityCost.projections.years20).toBeGreaterThan(100);
+    it('should mark a key unhealthy after repeated failures', async () => {
+        fetchMock.mockImplementation(async () => jsonResponse({ error: 'boom' }, 500));
+        const provider = new CerebrasProvider(balancer);
+
+        for (let i = 0; i < 6; i++) {
+            await provider.generate({ prompt: 'hello' }).catch(() => undefined);
+        }
+
+        expect(balancer.getHealthyKeyCount()).toBe(0);
+    });
+
+    it('should cool down a rate-limited key for its Retry-After window', async () => {
+        fetchMock.mockImplementationOnce(async () => new Response('{}', { status: 429, headers: { 'Retry-After': '30' } }));
+        fetchMock.mockImplementation(async () => jsonResponse({ choices: [{ message: { content: '{}' } }] }));
+        const provider = new CerebrasProvider(balancer);
+
+        const error = await provider.generate({ prompt: 'one' }).catch((e) => e);
+        await provider.generate({ prompt: 'two' });
+        await provider.generate({ prompt: 'three' });
+
+        expect(error.status).toBe(429);
+        expect(fetchMock.mock.calls[1][1].headers.Authorization).toBe('Bearer key-b');
+        expect(fetchMock.mock.calls[2][1].headers.Authorization).toBe('Bearer key-b');
+        expect(balancer.getKeyStats()[0].coolingDown).toBe(true);
+    });
+
+    it('should not hold caller errors against the key', async () => {
+        fetchMock.mockImplementation(async () => jsonResponse({ error: 'bad request' }, 400));
+        const provider = new CerebrasProvider(balancer);
+
+        for (let i = 0; i < 6; i++) {
+            await provider.generate({ prompt: 'hello' }).catch(() => undefined);
+        }
+
+        expect(balancer.getHealthyKeyCount()).toBe(2);
+    });
+
+    it('should record latency and remaining quota per key', async () => {
+        fetchMock.mockImplementation(async () => new Response(
+            JSON.stringify({ choices: [{ message: { content: '{}' } }] }),
+            { status: 200, headers: { 'x-ratelimit-remaining-requests-day': '1200' } }
+        ));
+
+        await new CerebrasProvider(balancer).generate({ prompt: 'hello' });
+
+        const [stats] = balancer.getKeyStats();
+        expect(stats.remainingQuota).toBe(1200);
+        expect(stats.lastLatencyMs).toBeGreaterThanOrEqual(0);
+        expect(stats.requestCount).toBe(1);
+    });
+
+    it('should not count cancelled requests against the key', async () => {
+        fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+            init.signal?.throwIfAborted();
+            return jsonResponse({});
         });
+        const provider = new CerebrasProvider(balancer);
+        const controller = new AbortController();
+        controller.abort();
+
+        for (let i = 0; i < 6; i++) {
+            await provider.generate({ prompt: 'hello', signal: controller.signal }).catch(() => undefined);
+        }
+
+        expect(fetchMock.mock.calls[0][1].signal).toBe(controller.signal);
+        expect(balancer.getHealthyKeyCount()).toBe(2);
     });
 });
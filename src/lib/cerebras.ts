@@ -0,0 +1,103 @@
+// Cerebras AI Provider (OpenAI-compatible chat completions)
+import { MissingApiKeysError } from './api-keys';
+import { CircuitOpenError } from './circuit-breaker';
+import { loadBalancer, LoadBalancer, CEREBRAS_KEYS_ENV, KeysRateLimitedError, parseRetryAfter } from './load-balancer';
+import { ProviderError } from './llm-provider';
+import type { LLMProvider, LLMRequest, LLMResponse } from './llm-provider';
+
+const MODEL = 'qwen-3-235b-a22b-instruct-2507';
+const CEREBRAS_API_URL = 'https://api.cerebras.ai/v1/chat/completions';
+// Requests left today for the key that made the call
+const REMAINING_QUOTA_HEADER = 'x-ratelimit-remaining-requests-day';
+
+interface ChatCompletionResponse {
+    choices?: Array<{ message?: { content?: string | null } }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+export class CerebrasProvider implements LLMProvider {
+    readonly name = 'cerebras';
+    readonly model: string;
+    private balancer: LoadBalancer;
+
+    constructor(balancer: LoadBalancer = loadBalancer, model: string = MODEL) {
+        if (balancer.getKeyCount() === 0) {
+            throw new MissingApiKeysError(CEREBRAS_KEYS_ENV);
+        }
+        this.balancer = balancer;
+        this.model = model;
+    }
+
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+        let apiKey: string;
+        try {
+            await this.balancer.syncHealth();
+            apiKey = this.balancer.getNextKey();
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            const status = error instanceof KeysRateLimitedError ? 429 : error instanceof CircuitOpenError ? 503 : undefined;
+            throw new ProviderError(message, this.name, status);
+        }
+
+        const startTime = Date.now();
+        let response: Response;
+        try {
+            response = await fetch(CEREBRAS_API_URL, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    Authorization: `Bearer ${apiKey}`,
+                },
+                body: JSON.stringify({
+                    model: this.model,
+                    // Text-only model: any request images are dropped
+                    messages: [{ role: 'user', content: request.prompt }],
+                    response_format: request.responseJsonSchema
+                        ? {
+                            type: 'json_schema',
+                            json_schema: { name: 'analysis', strict: true, schema: request.responseJsonSchema },
+                        }
+                        : undefined,
+                }),
+                signal: request.signal,
+            });
+        } catch (error) {
+            // A cancelled request says nothing about the key's health
+            if (request.signal?.aborted) {
+                this.balancer.reportCancelled(apiKey);
+            } else {
+                await this.balancer.reportError(apiKey);
+            }
+            const message = error instanceof Error ? error.message : String(error);
+            throw new ProviderError(message, this.name);
+        }
+
+        if (!response.ok) {
+            await this.balancer.reportError(apiKey, {
+                status: response.status,
+                retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+            });
+            throw new ProviderError(`Cerebras request failed with status ${response.status}`, this.name, response.status);
+        }
+
+        const latencyMs = Date.now() - startTime;
+        const remainingQuota = parseInt(response.headers.get(REMAINING_QUOTA_HEADER) ?? '', 10);
+        const data = (await response.json()) as ChatCompletionResponse;
+        await this.balancer.reportSuccess(apiKey, {
+            latencyMs,
+            remainingQuota: Number.isNaN(remainingQuota) ? undefined : remainingQuota,
+            tokens: data.usage ? (data.usage.prompt_tokens ?? 0) + (data.usage.completion_tokens ?? 0) : undefined,
+        });
+
+        return {
+            text: data.choices?.[0]?.message?.content || '',
+            provider: this.name,
+            model: this.model,
+            usage: data.usage
+                ? { promptTokens: data.usage.prompt_tokens ?? 0, completionTokens: data.usage.completion_tokens ?? 0 }
+                : undefined,
+        };
+    }
+}
+
+export { MODEL as CEREBRAS_MODEL, CEREBRAS_API_URL };
@@ -0,0 +1,189 @@
+// Feature: second-thought, Property 33: Circuit Breaker Half-Open Probing
+// Validates: Requirements 2.1, 2.2
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    CircuitBreaker,
+    CircuitOpenError,
+    allCircuitsOpen,
+    getProviderBreaker,
+    isCallerError,
+} from './circuit-breaker';
+import { generateWithFailover, ProviderError } from './llm-provider';
+import { analyzePurchase } from './analyzer';
+import { LoadBalancer } from './load-balancer';
+import type { LLMProvider, LLMResponse } from './llm-provider';
+import type { ProductInfo } from './types';
+
+class FakeProvider implements LLMProvider {
+    readonly model = 'fake-model';
+    calls = 0;
+
+    constructor(
+        readonly name: string,
+        private status?: number
+    ) {}
+
+    async generate(): Promise<LLMResponse> {
+        this.calls++;
+        if (this.status !== undefined) {
+            throw new ProviderError(`${this.name} failed`, this.name, this.status);
+        }
+        return { text: '{}', provider: this.name, model: this.model };
+    }
+}
+
+const product: ProductInfo = {
+    name: 'Wireless Headphones',
+    price: 199.99,
+    currency: 'USD',
+    url: 'https://example.com/headphones',
+    urgencyIndicators: [],
+};
+
+describe('Circuit Breaker', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    // Property 33: Circuit Breaker Half-Open Probing
+    describe('Property 33: Circuit Breaker Half-Open Probing', () => {
+        it('should allow exactly one probe after the backoff and close only on its success', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: 1, max: 5 }),
+                    fc.integer({ min: 1, max: 10 }),
+                    fc.boolean(),
+                    (threshold, attempts, probeSucceeds) => {
+                        let now = 0;
+                        const breaker = new CircuitBreaker({ failureThreshold: threshold, baseBackoffMs: 1000, now: () => now });
+
+                        for (let i = 0; i < threshold; i++) breaker.recordFailure();
+                        expect(breaker.getState()).toBe('open');
+                        for (let i = 0; i < attempts; i++) expect(breaker.tryAcquire()).toBe(false);
+
+                        now += 1000;
+                        expect(breaker.getState()).toBe('half_open');
+                        expect(breaker.tryAcquire()).toBe(true);
+                        for (let i = 0; i < attempts; i++) expect(breaker.tryAcquire()).toBe(false);
+
+                        if (probeSucceeds) {
+                            breaker.recordSuccess();
+                            expect(breaker.getState()).toBe('closed');
+                        } else {
+                            breaker.recordFailure();
+                            expect(breaker.getState()).toBe('open');
+                            // Each failed probe doubles the wait
+                            expect(breaker.retryAfterMs()).toBe(2000);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should treat only request mistakes as caller errors', () => {
+            expect(isCallerError(400)).toBe(true);
+            expect(isCallerError(422)).toBe(true);
+            expect(isCallerError(401)).toBe(false);
+            expect(isCallerError(429)).toBe(false);
+            expect(isCallerError(503)).toBe(false);
+            expect(isCallerError(undefined)).toBe(false);
+        });
+
+        it('should free the probe when it is released without an outcome', () => {
+            let now = 0;
+            const breaker = new CircuitBreaker({ failureThreshold: 1, baseBackoffMs: 1000, now: () => now });
+
+            breaker.recordFailure();
+            now += 1000;
+            expect(breaker.tryAcquire()).toBe(true);
+            breaker.release();
+
+            expect(breaker.tryAcquire()).toBe(true);
+        });
+
+        it('should cap the backoff', () => {
+            let now = 0;
+            const breaker = new CircuitBreaker({ failureThreshold: 1, baseBackoffMs: 1000, maxBackoffMs: 4000, now: () => now });
+
+            for (let i = 0; i < 6; i++) {
+                breaker.recordFailure();
+                now += breaker.retryAfterMs();
+                breaker.tryAcquire();
+            }
+
+            expect(breaker.retryAfterMs()).toBe(0);
+            breaker.recordFailure();
+            expect(breaker.retryAfterMs()).toBe(4000);
+        });
+
+        it('should skip a provider whose circuit is open', async () => {
+            const failing = new FakeProvider('failing', 503);
+            const healthy = new FakeProvider('healthy');
+
+            for (let i = 0; i < 3; i++) await generateWithFailover([failing, healthy], { prompt: 'p' });
+            expect(getProviderBreaker(failing).getState()).toBe('open');
+
+            const response = await generateWithFailover([failing, healthy], { prompt: 'p' });
+            expect(response.provider).toBe('healthy');
+            expect(failing.calls).toBe(3);
+        });
+
+        it('should not open a circuit on caller errors', async () => {
+            const rejecting = new FakeProvider('rejecting', 400);
+            const healthy = new FakeProvider('healthy');
+
+            for (let i = 0; i < 5; i++) await generateWithFailover([rejecting, healthy], { prompt: 'p' });
+
+            expect(getProviderBreaker(rejecting).getState()).toBe('closed');
+            expect(rejecting.calls).toBe(5);
+        });
+
+        it('should go straight to the offline fallback while every circuit is open', async () => {
+            const provider = new FakeProvider('down', 503);
+            getProviderBreaker(provider).recordFailure(true);
+            expect(allCircuitsOpen([provider])).toBe(true);
+
+            const outcome = await analyzePurchase(product, undefined, { providers: [provider] });
+
+            expect(outcome.source).toBe('fallback');
+            expect(outcome.circuitOpen).toBe(true);
+            expect(provider.calls).toBe(0);
+        });
+
+        it('should stop handing out keys whose circuits are open instead of resetting them', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b'], { strategy: 'round_robin' });
+
+            balancer.reportError('key-a', { status: 401 });
+            balancer.reportError('key-b', { status: 401 });
+
+            expect(() => balancer.getNextKey()).toThrow(CircuitOpenError);
+            expect(balancer.getKeyStats().map((s) => s.circuit)).toEqual(['open', 'open']);
+        });
+
+        it('should probe a single half-open key', () => {
+            vi.useFakeTimers();
+            try {
+                const balancer = new LoadBalancer(['key-a'], { strategy: 'round_robin' });
+                balancer.reportError('key-a', { status: 401 });
+
+                vi.advanceTimersByTime(60_000);
+                expect(balancer.getNextKey()).toBe('key-a');
+                expect(() => balancer.getNextKey()).toThrow(CircuitOpenError);
+
+                balancer.reportSuccess('key-a');
+                expect(balancer.getNextKey()).toBe('key-a');
+                expect(balancer.getNextKey()).toBe('key-a');
+            } finally {
+                vi.useRealTimers();
+            }
+        });
+    });
+});
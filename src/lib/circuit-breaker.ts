@@ -0,0 +1,187 @@
+// Circuit Breaker
+// Stops calling a failing provider or key: open after repeated failures,
+// half-open with a single probe once a backoff has passed, closed again on
+// success. Each consecutive trip doubles the backoff.
+
+import type { LLMProvider } from './llm-provider';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures that open the circuit
+    failureThreshold?: number;
+    // Wait before the first probe; doubles with each consecutive trip
+    baseBackoffMs?: number;
+    maxBackoffMs?: number;
+    // A probe that has not reported back by then no longer blocks another
+    probeTimeoutMs?: number;
+    now?: () => number;
+}
+
+// State worth sharing or showing, without the breaker's internals
+export interface CircuitSnapshot {
+    state: CircuitState;
+    failures: number;
+    lastFailureAt?: number;
+    // Until the next probe is allowed; only while open
+    retryAfterMs?: number;
+}
+
+export class CircuitOpenError extends Error {
+    constructor(
+        public readonly circuit: string,
+        public readonly retryAfterMs: number
+    ) {
+        super(`Circuit for ${circuit} is open; next probe in ${Math.ceil(retryAfterMs / 1000)}s`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+const DEFAULT_FAILURE_THRESHOLD = 3;
+const DEFAULT_BASE_BACKOFF_MS = 60000; // 1 minute
+const DEFAULT_MAX_BACKOFF_MS = 15 * 60 * 1000;
+const DEFAULT_PROBE_TIMEOUT_MS = 30000;
+
+/**
+ * Statuses that say the request itself was wrong, not the provider or key.
+ * They neither trip nor close a circuit.
+ */
+export function isCallerError(status?: number): boolean {
+    return status !== undefined && status >= 400 && status < 500 && ![401, 403, 429].includes(status);
+}
+
+export class CircuitBreaker {
+    private failures = 0;
+    private trips = 0;
+    private openedAt?: number;
+    private lastFailureAt?: number;
+    private probeStartedAt?: number;
+    private failureThreshold: number;
+    private baseBackoffMs: number;
+    private maxBackoffMs: number;
+    private probeTimeoutMs: number;
+    private now: () => number;
+
+    constructor(options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = options.failureThreshold ?? DEFAULT_FAILURE_THRESHOLD;
+        this.baseBackoffMs = options.baseBackoffMs ?? DEFAULT_BASE_BACKOFF_MS;
+        this.maxBackoffMs = options.maxBackoffMs ?? DEFAULT_MAX_BACKOFF_MS;
+        this.probeTimeoutMs = options.probeTimeoutMs ?? DEFAULT_PROBE_TIMEOUT_MS;
+        this.now = options.now ?? Date.now;
+    }
+
+    getState(): CircuitState {
+        if (this.openedAt === undefined) return 'closed';
+        return this.now() - this.openedAt >= this.backoffMs() ? 'half_open' : 'open';
+    }
+
+    /** Whether a request may go through now, without claiming the probe */
+    canRequest(): boolean {
+        const state = this.getState();
+        return state === 'closed' || (state === 'half_open' && !this.probeInFlight());
+    }
+
+    /**
+     * Claim the right to send a request: always while closed, only the single
+     * probe while half-open
+     */
+    tryAcquire(): boolean {
+        if (!this.canRequest()) return false;
+        if (this.getState() === 'half_open') {
+            this.probeStartedAt = this.now();
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.failures = 0;
+        this.trips = 0;
+        this.openedAt = undefined;
+        this.probeStartedAt = undefined;
+    }
+
+    /** Count a failure; `trip` opens the circuit at once (e.g. a revoked key) */
+    recordFailure(trip = false): void {
+        this.failures++;
+        this.lastFailureAt = this.now();
+        this.probeStartedAt = undefined;
+
+        // A request sent before the circuit opened does not extend the backoff
+        const state = this.getState();
+        if (state === 'open') return;
+
+        // A failed probe, or too many failures while closed
+        if (state === 'half_open' || trip || this.failures >= this.failureThreshold) {
+            this.trips++;
+            this.openedAt = this.now();
+        }
+    }
+
+    /** The request ended without saying anything about health (cancelled, caller error) */
+    release(): void {
+        this.probeStartedAt = undefined;
+    }
+
+    /** Adopt state observed elsewhere, e.g. by another server instance */
+    restore(snapshot: Pick<CircuitSnapshot, 'failures' | 'lastFailureAt'> & { open: boolean }): void {
+        this.failures = snapshot.failures;
+        this.lastFailureAt = snapshot.lastFailureAt;
+        if (!snapshot.open) {
+            this.trips = 0;
+            this.openedAt = undefined;
+            this.probeStartedAt = undefined;
+        } else if (this.openedAt === undefined) {
+            this.trips = 1;
+            this.openedAt = snapshot.lastFailureAt ?? this.now();
+        }
+    }
+
+    snapshot(): CircuitSnapshot {
+        const state = this.getState();
+        return {
+            state,
+            failures: this.failures,
+            lastFailureAt: this.lastFailureAt,
+            retryAfterMs: state === 'open' ? this.retryAfterMs() : undefined,
+        };
+    }
+
+    /** Time until the next probe is allowed; 0 unless open */
+    retryAfterMs(): number {
+        if (this.openedAt === undefined) return 0;
+        return Math.max(0, this.openedAt + this.backoffMs() - this.now());
+    }
+
+    private backoffMs(): number {
+        return Math.min(this.baseBackoffMs * 2 ** Math.max(0, this.trips - 1), this.maxBackoffMs);
+    }
+
+    private probeInFlight(): boolean {
+        return this.probeStartedAt !== undefined && this.now() - this.probeStartedAt < this.probeTimeoutMs;
+    }
+}
+
+// One breaker per provider instance; registry providers are long-lived, so
+// their breakers persist across requests
+const providerBreakers = new WeakMap<LLMProvider, CircuitBreaker>();
+
+export function getProviderBreaker(provider: LLMProvider): CircuitBreaker {
+    let breaker = providerBreakers.get(provider);
+    if (!breaker) {
+        breaker = new CircuitBreaker();
+        providerBreakers.set(provider, breaker);
+    }
+    return breaker;
+}
+
+/** True when no provider in the chain would take a request right now */
+export function allCircuitsOpen(providers: LLMProvider[]): boolean {
+    return providers.length > 0 && providers.every((provider) => !getProviderBreaker(provider).canRequest());
+}
+
+/** Breaker state per provider, for health checks and admin views */
+export function getCircuitStates(providers: LLMProvider[]): Record<string, CircuitSnapshot> {
+    return Object.fromEntries(providers.map((provider) => [provider.name, getProviderBreaker(provider).snapshot()]));
+}
+
+export { DEFAULT_FAILURE_THRESHOLD, DEFAULT_BASE_BACKOFF_MS };
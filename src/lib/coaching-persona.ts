@@ -0,0 +1,65 @@
+// Coaching Persona
+// Tone instructions for each persona, and the wording each tone should and
+// should not use when its messages are evaluated
+
+import type { CoachingPersona, UserProfile } from './types';
+
+export interface PersonaTone {
+    label: string;
+    // Tone instruction added to every prompt
+    instruction: string;
+    // Each matching pattern raises (encouraged) or lowers (discouraged) the empathy score
+    encouraged: RegExp[];
+    discouraged: RegExp[];
+}
+
+// Matches the tone every user had before personas existed
+const DEFAULT_COACHING_PERSONA: CoachingPersona = 'gentle';
+
+// Talking down to the user is off-tone for every persona
+const CONTEMPT = /stupid|idiot|pathetic|ashamed|irresponsible/;
+
+const PERSONA_TONES: Record<CoachingPersona, PersonaTone> = {
+    gentle: {
+        label: 'Gentle',
+        instruction: 'Be empathetic but honest. Keep the tone warm and reassuring, and never make the user feel judged.',
+        encouraged: [/understand|know/, /goal|dream/, /help|support/, /consider|think/],
+        discouraged: [/must|should not/, /wrong|bad/, CONTEMPT],
+    },
+    neutral: {
+        label: 'Neutral',
+        instruction: 'Be honest and matter-of-fact. Keep the tone neutral, stick to the numbers and avoid emotional language.',
+        encouraged: [/\d/, /budget|percent|%/, /goal/, /consider|compare/],
+        discouraged: [/must|should not/, /!/, /love|amazing|awesome/, CONTEMPT],
+    },
+    tough_love: {
+        label: 'Tough love',
+        instruction: 'Be direct and blunt, like a friend who cares enough to tell the truth. Name the trade-off plainly, but never insult or shame the user.',
+        encouraged: [/goal/, /honest|truth|straight/, /skip|wait|don't|do not/, /need to|should|must/],
+        discouraged: [/treat yourself|no big deal|deserve/, CONTEMPT],
+    },
+    humorous: {
+        label: 'Humorous',
+        instruction: "Be honest, with a light, playful sense of humor. A quick joke is welcome, but never at the user's expense, and the advice must stay clear.",
+        encouraged: [/goal|dream/, /!/, /joke|laugh|funny|haha|lol/, /consider|think/],
+        discouraged: [/must|should not/, /wrong|bad/, CONTEMPT],
+    },
+};
+
+const COACHING_PERSONAS = Object.keys(PERSONA_TONES) as CoachingPersona[];
+
+// Own keys only: `in` would also accept inherited names such as 'constructor'
+export function isCoachingPersona(value: unknown): value is CoachingPersona {
+    return typeof value === 'string' && (COACHING_PERSONAS as string[]).includes(value);
+}
+
+export function getPersonaTone(persona: CoachingPersona = DEFAULT_COACHING_PERSONA): PersonaTone {
+    return isCoachingPersona(persona) ? PERSONA_TONES[persona] : PERSONA_TONES[DEFAULT_COACHING_PERSONA];
+}
+
+/** Tone instruction for the user's persona, or the default without a profile */
+export function personaInstruction(userProfile?: UserProfile): string {
+    return getPersonaTone(userProfile?.coachingPersona).instruction;
+}
+
+export { PERSONA_TONES, COACHING_PERSONAS, DEFAULT_COACHING_PERSONA };
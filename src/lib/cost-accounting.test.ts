@@ -0,0 +1,134 @@
+// Feature: second-thought, Property 27: Cost Aggregation Consistency
+// Validates: Requirements 7.1
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import { addUsage, aggregateCosts, calculateCost, parsePriceTable, DEFAULT_MODEL_PRICES, EMPTY_USAGE } from './cost-accounting';
+import type { Intervention } from './types';
+
+const interventionArbitrary: fc.Arbitrary<Intervention> = fc.record({
+    id: fc.uuid(),
+    userId: fc.constantFrom('user-a', 'user-b', 'user-c'),
+    productInfo: fc.constant({ name: 'Item', price: 10, currency: 'USD', url: 'https://shop.example.com', urgencyIndicators: [] }),
+    analysisResult: fc.constant({
+        isEssential: false,
+        essentialityScore: 0.3,
+        reasoning: 'test',
+        warnings: [],
+        opportunityCost: { amount: 10, projections: { years5: 0, years10: 0, years20: 0 }, comparisonText: '' },
+        personalizedMessage: 'test',
+        suggestedAction: 'cooldown' as const,
+    }),
+    usage: fc.option(
+        fc.record({
+            promptTokens: fc.integer({ min: 0, max: 10000 }),
+            completionTokens: fc.integer({ min: 0, max: 5000 }),
+            costUsd: fc.integer({ min: 0, max: 100000 }).map((n) => n / 1e6),
+        }),
+        { nil: undefined }
+    ),
+    createdAt: fc.date({ min: new Date('2026-01-01'), max: new Date('2026-03-01'), noInvalidDate: true }),
+});
+
+describe('Cost Accounting', () => {
+    // Property 27: Cost Aggregation Consistency
+    describe('Property 27: Cost Aggregation Consistency', () => {
+        it('should give the same totals whether grouped by user or by day', () => {
+            fc.assert(
+                fc.property(fc.array(interventionArbitrary, { maxLength: 40 }), (interventions) => {
+                    const { total, byUser, byDay } = aggregateCosts(interventions);
+
+                    for (const groups of [byUser, byDay]) {
+                        expect(groups.reduce((sum, g) => sum + g.interventions, 0)).toBe(interventions.length);
+                        expect(groups.reduce((sum, g) => sum + g.promptTokens, 0)).toBe(total.promptTokens);
+                        expect(groups.reduce((sum, g) => sum + g.costUsd, 0)).toBeCloseTo(total.costUsd, 6);
+                    }
+                    expect(total.interventions).toBe(interventions.length);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should never decrease a running total', () => {
+            fc.assert(
+                fc.property(
+                    fc.array(fc.record({
+                        promptTokens: fc.integer({ min: 0, max: 10000 }),
+                        completionTokens: fc.integer({ min: 0, max: 5000 }),
+                    }), { maxLength: 5 }),
+                    (responses) => {
+                        let total = EMPTY_USAGE;
+                        for (const usage of responses) {
+                            const next = addUsage(total, 'gemini-3-flash-preview', usage);
+                            expect(next.costUsd).toBeGreaterThanOrEqual(total.costUsd);
+                            total = next;
+                        }
+                        expect(total.promptTokens).toBe(responses.reduce((sum, r) => sum + r.promptTokens, 0));
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should price prompt and completion tokens separately', () => {
+            const table = { 'test-model': { inputPerMillion: 1, outputPerMillion: 4 } };
+
+            expect(calculateCost('test-model', { promptTokens: 1_000_000, completionTokens: 500_000 }, table)).toBe(3);
+        });
+
+        it('should record zero cost for models without a price', () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+            expect(calculateCost('unknown-model', { promptTokens: 1000, completionTokens: 1000 }, {})).toBe(0);
+            expect(warn).toHaveBeenCalled();
+        });
+
+        it('should merge price overrides over the defaults and skip invalid entries', () => {
+            const table = parsePriceTable('gemini-3-flash-preview=1:2, new-model=0.1:0.4, broken=abc, =1:1');
+
+            expect(table['gemini-3-flash-preview']).toEqual({ inputPerMillion: 1, outputPerMillion: 2 });
+            expect(table['new-model']).toEqual({ inputPerMillion: 0.1, outputPerMillion: 0.4 });
+            expect(table.broken).toBeUndefined();
+            expect(table['qwen-3-235b-a22b-instruct-2507']).toEqual(DEFAULT_MODEL_PRICES['qwen-3-235b-a22b-instruct-2507']);
+        });
+
+        it('should use the defaults when no overrides are configured', () => {
+            expect(parsePriceTable(undefined)).toEqual(DEFAULT_MODEL_PRICES);
+        });
+
+        it('should bucket interventions by UTC day in date order', () => {
+            const base = {
+                productInfo: { name: 'Item', price: 10, currency: 'USD', url: 'https://shop.example.com', urgencyIndicators: [] },
+                analysisResult: {} as Intervention['analysisResult'],
+            };
+            const { byDay, byUser } = aggregateCosts([
+                { ...base, id: '1', userId: 'a', usage: { promptTokens: 10, completionTokens: 5, costUsd: 0.002 }, createdAt: new Date('2026-02-02T23:30:00Z') },
+                { ...base, id: '2', userId: 'b', usage: { promptTokens: 10, completionTokens: 5, costUsd: 0.001 }, createdAt: new Date('2026-02-01T08:00:00Z') },
+                { ...base, id: '3', userId: 'a', createdAt: new Date('2026-02-02T01:00:00Z') },
+            ]);
+
+            expect(byDay.map((d) => [d.key, d.interventions, d.costUsd])).toEqual([
+                ['2026-02-01', 1, 0.001],
+                ['2026-02-02', 2, 0.002],
+            ]);
+            expect(byUser.map((u) => u.key)).toEqual(['a', 'b']);
+        });
+
+        it('should count reflection spend apart from interventions', () => {
+            const { total, byUser } = aggregateCosts(
+                [{ userId: 'a', usage: { promptTokens: 10, completionTokens: 5, costUsd: 0.001 }, createdAt: new Date('2026-02-01T08:00:00Z') }],
+                [{ userId: 'a', usage: { promptTokens: 30, completionTokens: 15, costUsd: 0.003 }, createdAt: new Date('2026-02-01T09:00:00Z') }]
+            );
+
+            expect(total).toMatchObject({ interventions: 1, reflections: 1, promptTokens: 40, costUsd: 0.004 });
+            expect(byUser).toEqual([{ ...total, key: 'a' }]);
+        });
+    });
+});
@@ -0,0 +1,160 @@
+// Cost Accounting
+// Prices model token usage from a configurable table and aggregates spend
+// per user and per day, across analyses and reflection turns
+
+import type { TokenUsage } from './llm-provider';
+import type { DbIntervention } from './supabase';
+import type { AnalysisUsage, Intervention } from './types';
+
+// USD per million tokens
+export interface ModelPrice {
+    inputPerMillion: number;
+    outputPerMillion: number;
+}
+
+export interface CostAggregate {
+    key: string;
+    interventions: number;
+    // Reflection dialogs whose coach turns called a model
+    reflections: number;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+}
+
+// What an aggregate needs of an intervention or a reflection
+export type CostRecord = Pick<Intervention, 'userId' | 'usage' | 'createdAt'>;
+
+type UsageColumns = Pick<DbIntervention, 'prompt_tokens' | 'completion_tokens' | 'cost_usd'>;
+
+export interface CostSummary {
+    total: CostAggregate;
+    byUser: CostAggregate[];
+    byDay: CostAggregate[];
+}
+
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-3-flash-preview': { inputPerMillion: 0.5, outputPerMillion: 3 },
+    'qwen-3-235b-a22b-instruct-2507': { inputPerMillion: 0.6, outputPerMillion: 1.2 },
+    'fake-model': { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+const EMPTY_USAGE: AnalysisUsage = { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+
+// Costs are fractions of a cent, so keep more precision than currency
+function roundCost(cost: number): number {
+    return Math.round(cost * 1e8) / 1e8;
+}
+
+/**
+ * Parse price overrides, e.g. MODEL_PRICES="gemini-3-flash-preview=0.5:3".
+ * Each entry is model=inputPerMillion:outputPerMillion; invalid entries are
+ * dropped and the rest are merged over the defaults.
+ */
+export function parsePriceTable(config: string | undefined): Record<string, ModelPrice> {
+    const table = { ...DEFAULT_MODEL_PRICES };
+    if (!config) return table;
+
+    for (const entry of config.split(',')) {
+        const [model, prices] = entry.split('=').map((part) => part?.trim());
+        const [input, output] = (prices || '').split(':').map(Number);
+        if (!model || !Number.isFinite(input) || !Number.isFinite(output) || input < 0 || output < 0) continue;
+
+        table[model] = { inputPerMillion: input, outputPerMillion: output };
+    }
+
+    return table;
+}
+
+const priceTable = parsePriceTable(process.env.MODEL_PRICES);
+
+/** USD cost of one response; models missing from the table cost 0 */
+export function calculateCost(
+    model: string,
+    usage: TokenUsage,
+    table: Record<string, ModelPrice> = priceTable
+): number {
+    const price = table[model];
+    if (!price) {
+        console.warn(`No price configured for model ${model}; recording zero cost`);
+        return 0;
+    }
+
+    return roundCost(
+        (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000
+    );
+}
+
+/** Add one response's usage to a running total */
+export function addUsage(
+    total: AnalysisUsage,
+    model: string,
+    usage: TokenUsage | undefined,
+    table: Record<string, ModelPrice> = priceTable
+): AnalysisUsage {
+    if (!usage) return total;
+
+    return {
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+        costUsd: roundCost(total.costUsd + calculateCost(model, usage, table)),
+    };
+}
+
+/** Usage stored in a row's cost columns; absent when no model call was made */
+export function toUsage(db: UsageColumns): AnalysisUsage | undefined {
+    return db.cost_usd !== null && db.cost_usd !== undefined
+        ? {
+            promptTokens: db.prompt_tokens ?? 0,
+            completionTokens: db.completion_tokens ?? 0,
+            costUsd: Number(db.cost_usd),
+        }
+        : undefined;
+}
+
+function emptyAggregate(key: string): CostAggregate {
+    return { key, interventions: 0, reflections: 0, ...EMPTY_USAGE };
+}
+
+function accumulate(aggregate: CostAggregate, kind: 'interventions' | 'reflections', usage: AnalysisUsage | undefined): void {
+    aggregate[kind]++;
+    if (!usage) return;
+
+    aggregate.promptTokens += usage.promptTokens;
+    aggregate.completionTokens += usage.completionTokens;
+    aggregate.costUsd = roundCost(aggregate.costUsd + usage.costUsd);
+}
+
+/**
+ * Spend totals overall, per user and per UTC day; users sorted by cost, days
+ * by date. Reflections are dated by their last turn.
+ */
+export function aggregateCosts<T extends CostRecord>(interventions: T[], reflections: CostRecord[] = []): CostSummary {
+    const total = emptyAggregate('total');
+    const byUser = new Map<string, CostAggregate>();
+    const byDay = new Map<string, CostAggregate>();
+
+    const records = [
+        ...interventions.map((record) => ({ record, kind: 'interventions' as const })),
+        ...reflections.map((record) => ({ record, kind: 'reflections' as const })),
+    ];
+
+    for (const { record, kind } of records) {
+        const day = record.createdAt.toISOString().slice(0, 10);
+
+        if (!byUser.has(record.userId)) byUser.set(record.userId, emptyAggregate(record.userId));
+        if (!byDay.has(day)) byDay.set(day, emptyAggregate(day));
+
+        accumulate(total, kind, record.usage);
+        accumulate(byUser.get(record.userId)!, kind, record.usage);
+        accumulate(byDay.get(day)!, kind, record.usage);
+    }
+
+    return {
+        total,
+        byUser: [...byUser.values()].sort((a, b) => b.costUsd - a.costUsd || a.key.localeCompare(b.key)),
+        byDay: [...byDay.values()].sort((a, b) => a.key.localeCompare(b.key)),
+    };
+}
+
+export { DEFAULT_MODEL_PRICES, EMPTY_USAGE, priceTable };
@@ -0,0 +1,195 @@
+// Feature: second-thought, Property 40: Home Currency Conversion Consistency
+// Validates: Requirements 3.1
+
+import { describe, it, expect, vi } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    ExchangeRates,
+    MemoryExchangeRateBackend,
+    homeCurrencyPrice,
+    toHomeCurrency,
+    validateExchangeRateTable,
+    validateHomeCurrency,
+    BUNDLED_RATES,
+} from './currency';
+import { formatCurrency } from './opportunity-cost';
+import { analyzeWithRules } from './rules-analyzer';
+import { getPromptTemplate, DEFAULT_PROMPT_VERSION } from './prompt-registry';
+import type { ProductInfo, UserProfile } from './types';
+
+const currencyArbitrary = fc.constantFrom(...Object.keys(BUNDLED_RATES.rates));
+const priceArbitrary = fc.integer({ min: 1, max: 1000000 }).map((cents) => cents / 100);
+
+const profile: UserProfile = {
+    id: 'user-1',
+    savingsGoal: 500,
+    monthlyBudget: 1000,
+    homeCurrency: 'USD',
+    financialGoals: [],
+    spendingThreshold: 20,
+    coolDownEnabled: true,
+    imageAnalysisEnabled: true,
+    coachingPersona: 'gentle',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+};
+
+const product: ProductInfo = {
+    name: 'Espresso Machine',
+    price: 920,
+    currency: 'EUR',
+    url: 'https://shop.example.com/espresso',
+    urgencyIndicators: [],
+};
+
+describe('Currency', () => {
+    // Property 40: Home Currency Conversion Consistency
+    describe('Property 40: Home Currency Conversion Consistency', () => {
+        it('should convert back to the original amount, within rounding', () => {
+            const rates = new ExchangeRates();
+
+            fc.assert(
+                fc.property(priceArbitrary, currencyArbitrary, currencyArbitrary, (price, from, to) => {
+                    const there = rates.convert(price, from, to)!;
+                    const back = price * rates.rate(to, from)! * rates.rate(from, to)!;
+
+                    expect(there.currency).toBe(to);
+                    expect(Math.abs(there.amount - price * rates.rate(from, to)!)).toBeLessThanOrEqual(0.005 + 1e-9);
+                    expect(back).toBeCloseTo(price, 6);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should never convert a higher price to a lower amount', () => {
+            const rates = new ExchangeRates();
+
+            fc.assert(
+                fc.property(priceArbitrary, priceArbitrary, currencyArbitrary, currencyArbitrary, (a, b, from, to) => {
+                    const [low, high] = [Math.min(a, b), Math.max(a, b)].map((price) => rates.convert(price, from, to)!);
+
+                    expect(low.amount).toBeLessThanOrEqual(high.amount);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should leave prices alone without a home currency or a rate', () => {
+            expect(toHomeCurrency(product, undefined)).toBeUndefined();
+            expect(toHomeCurrency(product, { homeCurrency: 'EUR' })).toBeUndefined();
+            expect(toHomeCurrency({ ...product, currency: 'XYZ' }, profile)).toBeUndefined();
+        });
+
+        it('should not fall back to the foreign amount without a rate', () => {
+            expect(homeCurrencyPrice(product, undefined)).toBe(920);
+            expect(homeCurrencyPrice(product, { homeCurrency: 'EUR' })).toBe(920);
+            expect(homeCurrencyPrice({ ...product, currency: 'XYZ' }, profile)).toBeNull();
+
+            const result = analyzeWithRules({ ...product, currency: 'XYZ', price: 5000 }, profile);
+            const prompt = getPromptTemplate(DEFAULT_PROMPT_VERSION).build({ ...product, currency: 'XYZ' }, profile);
+
+            expect(result.suggestedAction).not.toBe('skip');
+            expect(result.personalCost).toBeUndefined();
+            expect(result.reasoning).toContain("couldn't convert the price into USD");
+            expect(prompt).toContain('Price in Home Currency: unknown');
+        });
+
+        it('should convert with the table in use and report its date', async () => {
+            expect(toHomeCurrency(product, profile)).toEqual({
+                amount: 1000,
+                currency: 'USD',
+                rate: 1 / 0.92,
+                ratesAsOf: BUNDLED_RATES.asOf,
+            });
+
+            const rates = new ExchangeRates();
+            await rates.update({ base: 'USD', asOf: '2026-10-15', rates: { USD: 1, EUR: 0.8 } });
+
+            expect(toHomeCurrency(product, profile, rates)).toMatchObject({ amount: 1150, ratesAsOf: '2026-10-15' });
+            expect(rates.rate('USD', 'GBP')).toBeNull();
+        });
+
+        it('should treat inherited property names as unsupported currencies', () => {
+            const rates = new ExchangeRates();
+
+            for (const code of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+                expect(rates.rate(code, 'USD')).toBeNull();
+                expect(rates.rate('USD', code)).toBeNull();
+                expect(rates.convert(100, code, 'USD')).toBeNull();
+            }
+        });
+
+        it('should share updated rates through the backend', async () => {
+            let now = 0;
+            const backend = new MemoryExchangeRateBackend();
+            const writer = new ExchangeRates(BUNDLED_RATES, backend, 1000, () => now);
+            const reader = new ExchangeRates(BUNDLED_RATES, backend, 1000, () => now);
+            const version = reader.getVersion();
+
+            await reader.refresh();
+            await writer.update({ base: 'USD', asOf: '2026-10-15', rates: { USD: 1, EUR: 0.8 } });
+            await reader.refresh();
+            expect(reader.getTable().asOf).toBe(BUNDLED_RATES.asOf);
+
+            now = 1000;
+            await reader.refresh();
+            expect(reader.rate('USD', 'EUR')).toBe(0.8);
+            expect(reader.getVersion()).not.toBe(version);
+        });
+
+        it('should keep the table in use when the backend fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const backend = {
+                get: vi.fn().mockRejectedValue(new Error('connection refused')),
+                set: vi.fn().mockRejectedValue(new Error('connection refused')),
+            };
+            const rates = new ExchangeRates(BUNDLED_RATES, backend);
+
+            await rates.refresh();
+            await expect(rates.update({ base: 'USD', asOf: '2026-10-15', rates: { USD: 1 } })).rejects.toThrow();
+            expect(rates.getTable()).toEqual(BUNDLED_RATES);
+        });
+
+        it('should reject invalid rate tables', async () => {
+            expect(validateExchangeRateTable(BUNDLED_RATES)).toBeNull();
+            expect(validateExchangeRateTable(null)).toContain('object');
+            expect(validateExchangeRateTable({ ...BUNDLED_RATES, asOf: 'yesterday' })).toContain('asOf');
+            expect(validateExchangeRateTable({ ...BUNDLED_RATES, rates: { USD: 1, EUR: -1 } })).toContain('EUR');
+            expect(validateExchangeRateTable({ ...BUNDLED_RATES, rates: { USD: 2 } })).toContain('base');
+            await expect(new ExchangeRates().update({ base: 'usd', asOf: '2026-10-15', rates: {} })).rejects.toThrow();
+        });
+
+        it('should only accept home currencies with a rate', () => {
+            expect(validateHomeCurrency(undefined)).toBeNull();
+            expect(validateHomeCurrency(null)).toBeNull();
+            expect(validateHomeCurrency('JPY')).toBeNull();
+            expect(validateHomeCurrency('XYZ')).toContain('homeCurrency');
+            expect(validateHomeCurrency('eur')).toContain('homeCurrency');
+        });
+
+        it('should format each currency in its own locale', () => {
+            expect(formatCurrency(1234.5, 'USD')).toBe('$1,234.50');
+            expect(formatCurrency(1234.5, 'EUR')).toMatch(/^1\.234,50\s€$/);
+            expect(formatCurrency(1234.5, 'JPY')).not.toContain('.');
+        });
+
+        it('should compare the converted price with the budget', () => {
+            const result = analyzeWithRules({ ...product, price: 1840 }, profile);
+            const prompt = getPromptTemplate(DEFAULT_PROMPT_VERSION).build(product, profile);
+
+            expect(result.convertedPrice?.amount).toBe(2000);
+            expect(result.suggestedAction).toBe('skip');
+            expect(result.reasoning).toContain('200% of your monthly budget');
+            expect(prompt).toContain('Price: EUR 920');
+            expect(prompt).toContain('Price in Home Currency: USD 1000');
+            expect(prompt).toContain('Monthly Budget: USD 1000');
+        });
+    });
+});
@@ -0,0 +1,316 @@
+// Currency
+// Locale formatting per currency and conversion into the user's home currency.
+// Rates come from a bundled table that can be replaced at runtime; a
+// replacement is stored in the rate backend so every server instance picks it
+// up. extension/rules-analyzer.js carries the bundled table for offline
+// analysis.
+
+import { createHash } from 'crypto';
+import type { DbExchangeRates } from './supabase';
+import type { ConvertedPrice, ProductInfo, UserProfile } from './types';
+
+export interface ExchangeRateTable {
+    base: string;
+    // Date the rates were taken, YYYY-MM-DD
+    asOf: string;
+    // Units of each currency per one unit of the base
+    rates: Record<string, number>;
+}
+
+const BUNDLED_RATES: ExchangeRateTable = {
+    base: 'USD',
+    asOf: '2026-10-01',
+    rates: {
+        USD: 1,
+        EUR: 0.92,
+        GBP: 0.79,
+        JPY: 149.5,
+        INR: 83.2,
+        CAD: 1.36,
+        AUD: 1.52,
+        NZD: 1.65,
+        CHF: 0.88,
+        CNY: 7.25,
+        HKD: 7.8,
+        SGD: 1.34,
+        KRW: 1330,
+        MXN: 17.9,
+        BRL: 5.0,
+        SEK: 10.7,
+    },
+};
+
+// Where a currency is most used; unlisted currencies format as en-US
+const CURRENCY_LOCALES: Record<string, string> = {
+    USD: 'en-US',
+    EUR: 'de-DE',
+    GBP: 'en-GB',
+    JPY: 'ja-JP',
+    INR: 'en-IN',
+    CAD: 'en-CA',
+    AUD: 'en-AU',
+    NZD: 'en-NZ',
+    CHF: 'de-CH',
+    CNY: 'zh-CN',
+    HKD: 'zh-HK',
+    SGD: 'en-SG',
+    KRW: 'ko-KR',
+    MXN: 'es-MX',
+    BRL: 'pt-BR',
+    SEK: 'sv-SE',
+};
+
+const MAX_CURRENCIES = 200;
+const DEFAULT_RATES_REFRESH_MS = 5 * 60 * 1000; // 5 minutes
+// Row holding the table in use; there is only one
+const CURRENT_RATES_ID = 'current';
+
+export function currencyLocale(currency: string): string {
+    return CURRENCY_LOCALES[currency] ?? 'en-US';
+}
+
+export function isCurrencyCode(value: unknown): value is string {
+    return typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+}
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Check a replacement rate table. Returns an error message, or null when it
+ * is valid.
+ */
+export function validateExchangeRateTable(table: unknown): string | null {
+    const candidate = table as Partial<ExchangeRateTable> | null;
+    if (!candidate || typeof candidate !== 'object') {
+        return 'Rate table must be an object';
+    }
+    if (!isCurrencyCode(candidate.base)) {
+        return 'base must be a three-letter currency code';
+    }
+    if (typeof candidate.asOf !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(candidate.asOf)) {
+        return 'asOf must be a date, YYYY-MM-DD';
+    }
+
+    const rates = candidate.rates;
+    if (!rates || typeof rates !== 'object') {
+        return 'rates must map currency codes to rates';
+    }
+    const entries = Object.entries(rates);
+    if (entries.length > MAX_CURRENCIES) {
+        return `rates may list at most ${MAX_CURRENCIES} currencies`;
+    }
+    const invalid = entries.find(([code, rate]) =>
+        !isCurrencyCode(code) || typeof rate !== 'number' || !Number.isFinite(rate) || rate <= 0);
+    if (invalid) {
+        return `Invalid rate for ${invalid[0]}`;
+    }
+    if (rates[candidate.base] !== 1) {
+        return 'The base currency must have a rate of 1';
+    }
+    return null;
+}
+
+export interface ExchangeRateBackend {
+    get(): Promise<ExchangeRateTable | null>;
+    set(table: ExchangeRateTable): Promise<void>;
+}
+
+export class MemoryExchangeRateBackend implements ExchangeRateBackend {
+    private table: ExchangeRateTable | null = null;
+
+    async get(): Promise<ExchangeRateTable | null> {
+        return this.table;
+    }
+
+    async set(table: ExchangeRateTable): Promise<void> {
+        this.table = table;
+    }
+}
+
+export class SupabaseExchangeRateBackend implements ExchangeRateBackend {
+    // Loaded on first use so currency formatting works without Supabase configured
+    private async client() {
+        return (await import('./supabase')).supabase;
+    }
+
+    async get(): Promise<ExchangeRateTable | null> {
+        const supabase = await this.client();
+        const { data, error } = await supabase
+            .from('exchange_rates')
+            .select('*')
+            .eq('id', CURRENT_RATES_ID)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to read exchange rates: ${error.message}`);
+        }
+        if (!data) return null;
+
+        const row = data as DbExchangeRates;
+        return { base: row.base, asOf: row.as_of, rates: row.rates };
+    }
+
+    async set(table: ExchangeRateTable): Promise<void> {
+        const supabase = await this.client();
+        const { error } = await supabase
+            .from('exchange_rates')
+            .upsert({
+                id: CURRENT_RATES_ID,
+                base: table.base,
+                as_of: table.asOf,
+                rates: table.rates,
+                updated_at: new Date().toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to write exchange rates: ${error.message}`);
+        }
+    }
+}
+
+function copyTable(table: ExchangeRateTable): ExchangeRateTable {
+    return { base: table.base, asOf: table.asOf, rates: { ...table.rates } };
+}
+
+function tableVersion(table: ExchangeRateTable): string {
+    const digest = createHash('sha256').update(JSON.stringify(table)).digest('hex').slice(0, 12);
+    return `${table.asOf}:${digest}`;
+}
+
+export class ExchangeRates {
+    private version: string;
+    private loadedAt = -Infinity;
+
+    constructor(
+        private table: ExchangeRateTable = BUNDLED_RATES,
+        private backend: ExchangeRateBackend = new MemoryExchangeRateBackend(),
+        private refreshMs: number = DEFAULT_RATES_REFRESH_MS,
+        private now: () => number = Date.now
+    ) {
+        this.version = tableVersion(table);
+    }
+
+    getTable(): ExchangeRateTable {
+        return copyTable(this.table);
+    }
+
+    /** The table's date and a digest of its rates, for keying converted results */
+    getVersion(): string {
+        return this.version;
+    }
+
+    /**
+     * Pick up a table stored by another instance; checks the backend at most
+     * once per refresh interval. A store failure or an invalid stored table
+     * keeps the table in use.
+     */
+    async refresh(): Promise<void> {
+        const now = this.now();
+        if (now - this.loadedAt < this.refreshMs) return;
+        this.loadedAt = now;
+
+        try {
+            const stored = await this.backend.get();
+            if (!stored) return;
+
+            const error = validateExchangeRateTable(stored);
+            if (error) {
+                console.error('Ignoring stored exchange rates:', error);
+                return;
+            }
+            this.apply(stored);
+        } catch (error) {
+            console.error('Exchange rate read error:', error);
+        }
+    }
+
+    /** Store a new table for every instance and use it here; throws for an invalid table or a store failure */
+    async update(table: ExchangeRateTable): Promise<void> {
+        const error = validateExchangeRateTable(table);
+        if (error) {
+            throw new Error(`Invalid exchange rates: ${error}`);
+        }
+        const copy = copyTable(table);
+        await this.backend.set(copy);
+        this.apply(copy);
+        this.loadedAt = this.now();
+    }
+
+    private apply(table: ExchangeRateTable): void {
+        this.table = copyTable(table);
+        this.version = tableVersion(this.table);
+    }
+
+    /** Units of `to` per unit of `from`, or null if either is not in the table */
+    rate(from: string, to: string): number | null {
+        // Own entries only, so names like 'constructor' are unsupported rather than NaN
+        const { rates } = this.table;
+        if (!Object.hasOwn(rates, from) || !Object.hasOwn(rates, to)) return null;
+
+        const fromRate = rates[from];
+        const toRate = rates[to];
+        if (!fromRate || !toRate) return null;
+        return toRate / fromRate;
+    }
+
+    convert(amount: number, from: string, to: string): ConvertedPrice | null {
+        const rate = this.rate(from, to);
+        if (rate === null) return null;
+        return { amount: roundCents(amount * rate), currency: to, rate, ratesAsOf: this.table.asOf };
+    }
+}
+
+function createBackend(): ExchangeRateBackend {
+    return process.env.EXCHANGE_RATES_BACKEND === 'supabase'
+        ? new SupabaseExchangeRateBackend()
+        : new MemoryExchangeRateBackend();
+}
+
+// Singleton instance
+export const exchangeRates = new ExchangeRates(
+    BUNDLED_RATES,
+    createBackend(),
+    Number(process.env.EXCHANGE_RATES_REFRESH_MS) || DEFAULT_RATES_REFRESH_MS
+);
+
+/** Error message for an unsupported home currency in a profile update, or null; null clears it */
+export function validateHomeCurrency(homeCurrency: unknown, rates: ExchangeRates = exchangeRates): string | null {
+    if (homeCurrency === undefined || homeCurrency === null) return null;
+    return isCurrencyCode(homeCurrency) && rates.rate(homeCurrency, homeCurrency) !== null
+        ? null
+        : `homeCurrency must be one of: ${Object.keys(rates.getTable().rates).join(', ')}`;
+}
+
+/**
+ * The product's price in the user's home currency; undefined without a home
+ * currency, when the product is already priced in it, or when either
+ * currency has no rate
+ */
+export function toHomeCurrency(
+    product: Pick<ProductInfo, 'price' | 'currency'>,
+    profile?: Pick<UserProfile, 'homeCurrency'>,
+    rates: ExchangeRates = exchangeRates
+): ConvertedPrice | undefined {
+    const home = profile?.homeCurrency;
+    if (!home || home === product.currency) return undefined;
+    return rates.convert(product.price, product.currency, home) ?? undefined;
+}
+
+/**
+ * The price to compare against the profile's budget, goal and threshold;
+ * null when the home currency has no rate from the product's, since the
+ * foreign amount cannot be compared with home-currency settings
+ */
+export function homeCurrencyPrice(
+    product: Pick<ProductInfo, 'price' | 'currency'>,
+    profile?: Pick<UserProfile, 'homeCurrency'>,
+    rates: ExchangeRates = exchangeRates
+): number | null {
+    const home = profile?.homeCurrency;
+    if (!home || home === product.currency) return product.price;
+    return toHomeCurrency(product, profile, rates)?.amount ?? null;
+}
+
+export { BUNDLED_RATES, CURRENCY_LOCALES, DEFAULT_RATES_REFRESH_MS };
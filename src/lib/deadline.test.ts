@@ -0,0 +1,183 @@
+// Feature: second-thought, Property 29: Deadline-Bounded Analysis
+// Validates: Requirements 2.1, 2.2
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { analyzePurchase, streamPurchaseAnalysis } from './analyzer';
+import type { AnalysisStreamEvent } from './analyzer';
+import { createDeadline, parseDeadlineMs, raceAbort, DEFAULT_ANALYSIS_DEADLINE_MS } from './deadline';
+import { FakeProvider } from './fake-provider';
+import { generateWithFailover, streamWithFailover } from './llm-provider';
+import { analyzeWithRules } from './rules-analyzer';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk } from './llm-provider';
+import type { ProductInfo } from './types';
+
+const TEST_DEADLINE_MS = 20;
+
+// Never answers; optionally yields one streamed field first
+class HangingProvider implements LLMProvider {
+    readonly model = 'hanging-model';
+    readonly requests: LLMRequest[] = [];
+
+    constructor(readonly name = 'hanging', private firstChunk?: string) {}
+
+    generate(request: LLMRequest): Promise<LLMResponse> {
+        this.requests.push(request);
+        return new Promise(() => {});
+    }
+
+    async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        this.requests.push(request);
+        if (this.firstChunk) {
+            yield { text: this.firstChunk, provider: this.name, model: this.model };
+        }
+        await new Promise(() => {});
+    }
+}
+
+const productArbitrary = fc.record({
+    name: fc.constantFrom('Wireless Headphones', 'Toothpaste', 'Designer Handbag', 'Mystery Box'),
+    price: fc.integer({ min: 1, max: 5000 }),
+    currency: fc.constant('USD'),
+    url: fc.constant('http://test.com/product'),
+    urgencyIndicators: fc.constant<string[]>([]),
+});
+
+describe('Deadline Budgets', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    // Property 29: Deadline-Bounded Analysis
+    describe('Property 29: Deadline-Bounded Analysis', () => {
+        it('should return the rules-based result once the deadline passes, without failing over', async () => {
+            await fc.assert(
+                fc.asyncProperty(productArbitrary, async (product: ProductInfo) => {
+                    const hanging = new HangingProvider();
+                    const backup = new FakeProvider(undefined, 'backup');
+                    const startTime = Date.now();
+
+                    const outcome = await analyzePurchase(product, undefined, {
+                        providers: [hanging, backup],
+                        signal: createDeadline(undefined, TEST_DEADLINE_MS),
+                    });
+
+                    expect(outcome.source).toBe('fallback');
+                    expect(outcome.deadlineExceeded).toBe(true);
+                    expect(outcome.analysis).toEqual(analyzeWithRules(product));
+                    expect(hanging.requests[0].signal?.aborted).toBe(true);
+                    expect(backup.requests).toHaveLength(0);
+                    expect(Date.now() - startTime).toBeLessThan(TEST_DEADLINE_MS + 500);
+
+                    return true;
+                }),
+                { numRuns: 10 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        const product: ProductInfo = {
+            name: 'Smart Watch',
+            price: 300,
+            currency: 'USD',
+            url: 'http://test.com/watch',
+            urgencyIndicators: [],
+        };
+
+        it('should parse the deadline from configuration', () => {
+            expect(parseDeadlineMs(undefined)).toBe(DEFAULT_ANALYSIS_DEADLINE_MS);
+            expect(parseDeadlineMs('2500')).toBe(2500);
+            expect(parseDeadlineMs('0')).toBe(DEFAULT_ANALYSIS_DEADLINE_MS);
+            expect(parseDeadlineMs('soon', 1000)).toBe(1000);
+        });
+
+        it('should abort the deadline when the parent signal aborts', () => {
+            const parent = new AbortController();
+            const signal = createDeadline(parent.signal, 60_000);
+
+            parent.abort();
+
+            expect(signal.aborted).toBe(true);
+        });
+
+        it('should settle with the promise while the signal is live', async () => {
+            const controller = new AbortController();
+
+            await expect(raceAbort(Promise.resolve('done'), controller.signal)).resolves.toBe('done');
+            await expect(raceAbort(Promise.reject(new Error('boom')), controller.signal)).rejects.toThrow('boom');
+        });
+
+        it('should reject with the abort reason when the signal aborts first', async () => {
+            const controller = new AbortController();
+            const pending = raceAbort(new Promise(() => {}), controller.signal);
+
+            controller.abort(new Error('cancelled'));
+
+            await expect(pending).rejects.toThrow('cancelled');
+            await expect(raceAbort(Promise.resolve('late'), controller.signal)).rejects.toThrow('cancelled');
+        });
+
+        it('should not call any provider once the signal has aborted', async () => {
+            const provider = new FakeProvider();
+            const controller = new AbortController();
+            controller.abort();
+
+            await expect(generateWithFailover([provider], { prompt: 'p', signal: controller.signal }))
+                .rejects.toBeDefined();
+            expect(provider.requests).toHaveLength(0);
+        });
+
+        it('should stop a stream that ignores the signal', async () => {
+            const hanging = new HangingProvider('hanging', '{"reasoning":');
+            const backup = new FakeProvider(undefined, 'backup');
+            const chunks: LLMStreamChunk[] = [];
+
+            const error = await (async () => {
+                const stream = streamWithFailover([hanging, backup], {
+                    prompt: 'p',
+                    signal: createDeadline(undefined, TEST_DEADLINE_MS),
+                });
+                for await (const chunk of stream) chunks.push(chunk);
+            })().catch((e) => e);
+
+            expect(error).toBeDefined();
+            expect(chunks).toHaveLength(1);
+            expect(backup.requests).toHaveLength(0);
+        });
+
+        it('should complete a stream with the rules-based result after the deadline', async () => {
+            const events: AnalysisStreamEvent[] = [];
+            const hanging = new HangingProvider('hanging', '{"reasoning": "Let me think about this.",');
+
+            for await (const event of streamPurchaseAnalysis(product, undefined, {
+                providers: [hanging],
+                signal: createDeadline(undefined, TEST_DEADLINE_MS),
+            })) {
+                events.push(event);
+            }
+
+            expect(events[0]).toEqual({ type: 'field', field: 'reasoning', value: 'Let me think about this.' });
+            const complete = events[events.length - 1];
+            expect(complete.type).toBe('complete');
+            if (complete.type === 'complete') {
+                expect(complete.outcome.source).toBe('fallback');
+                expect(complete.outcome.deadlineExceeded).toBe(true);
+                expect(complete.outcome.analysis).toEqual(analyzeWithRules(product));
+            }
+            expect(hanging.requests).toHaveLength(1);
+        });
+
+        it('should not flag analyses that finish in time', async () => {
+            const outcome = await analyzePurchase(product, undefined, {
+                providers: [new FakeProvider()],
+                signal: createDeadline(undefined, 60_000),
+            });
+
+            expect(outcome.source).toBe('model');
+            expect(outcome.deadlineExceeded).toBeUndefined();
+        });
+    });
+});
@@ -0,0 +1,57 @@
+// Deadline Budgets
+// Per-request time limits for model calls, propagated with AbortSignal so a
+// hung provider cannot outlive the request that is waiting on it
+
+// Leaves headroom under a 10 second serverless function limit
+const DEFAULT_ANALYSIS_DEADLINE_MS = 8000;
+
+/**
+ * Parse a deadline in milliseconds, e.g. ANALYSIS_DEADLINE_MS="6000".
+ * Missing or non-positive values use the fallback.
+ */
+export function parseDeadlineMs(config: string | undefined, fallback: number = DEFAULT_ANALYSIS_DEADLINE_MS): number {
+    const ms = Number(config);
+    return Number.isFinite(ms) && ms > 0 ? ms : fallback;
+}
+
+const ANALYSIS_DEADLINE_MS = parseDeadlineMs(process.env.ANALYSIS_DEADLINE_MS);
+
+/**
+ * A signal that aborts after `ms`, or as soon as `parent` aborts (for
+ * example when the client disconnects)
+ */
+export function createDeadline(parent?: AbortSignal, ms: number = ANALYSIS_DEADLINE_MS): AbortSignal {
+    const timeout = AbortSignal.timeout(ms);
+    return parent ? AbortSignal.any([parent, timeout]) : timeout;
+}
+
+/**
+ * Settle with the promise, or reject with the abort reason as soon as the
+ * signal aborts, even if the underlying call ignores the signal
+ */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+
+    if (signal.aborted) {
+        promise.catch(() => {});
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(signal.reason);
+        signal.addEventListener('abort', onAbort, { once: true });
+
+        promise.then(
+            (value) => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(value);
+            },
+            (error) => {
+                signal.removeEventListener('abort', onAbort);
+                reject(error);
+            }
+        );
+    });
+}
+
+export { ANALYSIS_DEADLINE_MS, DEFAULT_ANALYSIS_DEADLINE_MS };
@@ -4,6 +4,8 @@
 import { AnswerRelevance, Usefulness, BaseMetric } from 'opik';
 import type { EvaluationScoreResult } from 'opik';
 import { z } from 'zod';
+import { getPersonaTone } from './coaching-persona';
+import { DEFAULT_ASSUMPTIONS, longestProjection, projectRecurringValue, projectValue } from './opportunity-cost';
 import type { ProductInfo, AnalysisResult, UserProfile, EvaluationResult } from './types';
 
 // Custom Empathy Metric
@@ -12,6 +14,8 @@ const empathySchema = z.object({
     productName: z.string(),
     price: z.number(),
     personalizedMessage: z.string(),
+    // Tone the message was asked for; defaults to the gentle persona
+    persona: z.enum(['gentle', 'neutral', 'tough_love', 'humorous']).optional(),
 });
 
 type EmpathyInput = z.infer<typeof empathySchema>;
@@ -27,25 +31,25 @@ class EmpathyMetric extends BaseMetric<typeof empathySchema> {
         // This would use an LLM to evaluate empathy
         // For now, we use heuristics as a placeholder
         const message = input.personalizedMessage.toLowerCase();
+        const tone = getPersonaTone(input.persona);
 
         let score = 0.5; // Base score
 
-        // Positive indicators
-        if (message.includes('understand') || message.includes('know')) score += 0.1;
-        if (message.includes('goal') || message.includes('dream')) score += 0.1;
-        if (message.includes('help') || message.includes('support')) score += 0.1;
-        if (message.includes('consider') || message.includes('think')) score += 0.1;
-
-        // Negative indicators
-        if (message.includes('must') || message.includes('should not')) score -= 0.1;
-        if (message.includes('wrong') || message.includes('bad')) score -= 0.1;
+        // What counts as supportive depends on the tone the user asked for,
+        // e.g. "you must" is off-tone when gentle but expected from tough love
+        for (const pattern of tone.encouraged) {
+            if (pattern.test(message)) score += 0.1;
+        }
+        for (const pattern of tone.discouraged) {
+            if (pattern.test(message)) score -= 0.1;
+        }
 
         score = Math.max(0, Math.min(1, score));
 
         return {
             name: this.name,
             value: score,
-            reason: `Empathy score based on message tone and supportiveness`,
+            reason: `Empathy score based on message tone and supportiveness for the ${tone.label.toLowerCase()} persona`,
         };
     }
 }
@@ -53,7 +57,14 @@ class EmpathyMetric extends BaseMetric<typeof empathySchema> {
 // Custom Accuracy Metric
 const accuracySchema = z.object({
     productPrice: z.number(),
-    opportunityCost20yr: z.number(),
+    // The furthest projection, checked against the assumptions it was made
+    // with; unset assumptions are the defaults
+    projectedValue: z.number(),
+    horizonYears: z.number().optional(),
+    annualGrowthRate: z.number().optional(),
+    contributionTiming: z.enum(['start', 'end']).optional(),
+    // Set when the price is charged every period
+    billingPeriod: z.enum(['weekly', 'monthly', 'annual']).optional(),
     isEssential: z.boolean(),
     category: z.string().optional(),
 });
@@ -71,9 +82,15 @@ class AccuracyMetric extends BaseMetric<typeof accuracySchema> {
         let score = 1.0;
         const reasons: string[] = [];
 
-        // Verify opportunity cost calculation (7% annual growth for 20 years)
-        const expectedCost = input.productPrice * Math.pow(1.07, 20);
-        const costError = Math.abs(input.opportunityCost20yr - expectedCost) / expectedCost;
+        // Verify the opportunity cost against the parameters actually used
+        const assumptions = {
+            annualGrowthRate: input.annualGrowthRate ?? DEFAULT_ASSUMPTIONS.annualGrowthRate,
+            contributionTiming: input.contributionTiming ?? DEFAULT_ASSUMPTIONS.contributionTiming,
+        };
+        const expectedCost = input.billingPeriod
+            ? projectRecurringValue(input.productPrice, input.billingPeriod, input.horizonYears ?? 20, assumptions)
+            : projectValue(input.productPrice, input.horizonYears ?? 20, assumptions);
+        const costError = Math.abs(input.projectedValue - expectedCost) / expectedCost;
 
         if (costError > 0.01) {
             score -= 0.3;
@@ -169,12 +186,18 @@ export async function evaluateIntervention(
         productName: product.name,
         price: product.price,
         personalizedMessage: analysis.personalizedMessage,
+        persona: userProfile?.coachingPersona,
     });
 
     // Evaluate accuracy
+    const projection = longestProjection(analysis.opportunityCost);
     const accuracyResult = await accuracyMetric.score({
         productPrice: product.price,
-        opportunityCost20yr: analysis.opportunityCost.projections.years20,
+        projectedValue: projection.nominal,
+        horizonYears: projection.years,
+        annualGrowthRate: analysis.opportunityCost.assumptions?.annualGrowthRate,
+        contributionTiming: analysis.opportunityCost.assumptions?.contributionTiming,
+        billingPeriod: analysis.opportunityCost.recurring?.billingPeriod,
         isEssential: analysis.isEssential,
         category: product.category,
     });
@@ -0,0 +1,80 @@
+// Fake LLM Provider
+// Scripted, network-free provider for local development and tests
+
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, TokenUsage } from './llm-provider';
+
+// Size of each streamed piece, small enough to split fields across chunks
+const STREAM_CHUNK_SIZE = 16;
+
+// Reply used when no script is given: a valid, cautious analysis
+const DEFAULT_FAKE_RESPONSE = JSON.stringify({
+    isEssential: false,
+    essentialityScore: 0.4,
+    reasoning: 'Fake provider response for local testing.',
+    warnings: [],
+    personalizedMessage: 'Take a moment to consider whether this fits your goals.',
+    suggestedAction: 'cooldown',
+});
+
+// Roughly four characters per token, enough to exercise usage accounting
+function estimateUsage(request: LLMRequest, text: string): TokenUsage {
+    return {
+        promptTokens: Math.ceil(request.prompt.length / 4),
+        completionTokens: Math.ceil(text.length / 4),
+    };
+}
+
+// A scripted step is either reply text or an error to throw
+export type FakeStep = string | Error;
+
+export class FakeProvider implements LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    readonly requests: LLMRequest[] = [];
+    private steps: FakeStep[];
+
+    constructor(steps: FakeStep[] = [DEFAULT_FAKE_RESPONSE], name = 'fake', model = 'fake-model') {
+        this.steps = steps;
+        this.name = name;
+        this.model = model;
+    }
+
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+        const text = this.nextStep(request);
+        return {
+            text,
+            provider: this.name,
+            model: this.model,
+            usage: estimateUsage(request, text),
+        };
+    }
+
+    async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        const text = this.nextStep(request);
+
+        for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+            const last = i + STREAM_CHUNK_SIZE >= text.length;
+            yield {
+                text: text.slice(i, i + STREAM_CHUNK_SIZE),
+                provider: this.name,
+                model: this.model,
+                // Like real providers, usage arrives with the final chunk
+                usage: last ? estimateUsage(request, text) : undefined,
+            };
+        }
+    }
+
+    private nextStep(request: LLMRequest): string {
+        this.requests.push(request);
+
+        // Replay steps in order, repeating the last one once exhausted
+        const step = this.steps.length > 1 ? this.steps.shift()! : this.steps[0];
+        if (step instanceof Error) {
+            throw step;
+        }
+
+        return step ?? DEFAULT_FAKE_RESPONSE;
+    }
+}
+
+export { DEFAULT_FAKE_RESPONSE };
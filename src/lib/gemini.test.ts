@@ -0,0 +1,98 @@
+// Feature: second-thought, Property 14: LLM Provider Contract
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { generateContent, getModel } = vi.hoisted(() => ({ generateContent: vi.fn(), getModel: vi.fn() }));
+
+// Mock Gemini SDK
+vi.mock('@google/genai', () => ({
+    GoogleGenAI: class {
+        models = { generateContent, get: getModel };
+    },
+}));
+
+// Import after mocking
+import { GeminiProvider, GEMINI_MODEL } from './gemini';
+import { ProviderError } from './llm-provider';
+
+describe('Gemini Provider', () => {
+    beforeEach(() => {
+        generateContent.mockReset();
+        getModel.mockReset();
+    });
+
+    it('should ping by looking up the model', async () => {
+        getModel.mockResolvedValue({ name: `models/${GEMINI_MODEL}` });
+
+        await new GeminiProvider('test-key').ping();
+        expect(getModel.mock.calls[0][0].model).toBe(GEMINI_MODEL);
+
+        getModel.mockRejectedValue(Object.assign(new Error('API key not valid'), { status: 400 }));
+        await expect(new GeminiProvider('test-key').ping()).rejects.toBeInstanceOf(ProviderError);
+        expect(generateContent).not.toHaveBeenCalled();
+    });
+
+    it('should pass the response schema as structured output config', async () => {
+        generateContent.mockResolvedValue({ text: '{}' });
+        const schema = { type: 'object' };
+
+        await new GeminiProvider('test-key').generate({ prompt: 'hello', responseJsonSchema: schema });
+
+        const request = generateContent.mock.calls[0][0];
+        expect(request.model).toBe(GEMINI_MODEL);
+        expect(request.contents).toBe('hello');
+        expect(request.config.responseMimeType).toBe('application/json');
+        expect(request.config.responseJsonSchema).toBe(schema);
+    });
+
+    it('should pass the request signal as the abort signal', async () => {
+        generateContent.mockResolvedValue({ text: 'hi' });
+        const controller = new AbortController();
+
+        await new GeminiProvider('test-key').generate({ prompt: 'hello', signal: controller.signal });
+
+        expect(generateContent.mock.calls[0][0].config.abortSignal).toBe(controller.signal);
+    });
+
+    it('should send images as inline data parts after the prompt', async () => {
+        generateContent.mockResolvedValue({ text: '{}' });
+        const image = { mimeType: 'image/jpeg', data: 'AAAA' };
+
+        await new GeminiProvider('test-key').generate({ prompt: 'hello', images: [image] });
+
+        const request = generateContent.mock.calls[0][0];
+        expect(request.contents).toEqual([
+            { role: 'user', parts: [{ text: 'hello' }, { inlineData: image }] },
+        ]);
+    });
+
+    it('should report provider and model with the response text', async () => {
+        generateContent.mockResolvedValue({ text: '{"ok":true}' });
+
+        const response = await new GeminiProvider('test-key').generate({ prompt: 'hello' });
+
+        expect(response).toEqual({ text: '{"ok":true}', provider: 'gemini', model: GEMINI_MODEL });
+    });
+
+    it('should report token usage, counting thinking tokens as completion', async () => {
+        generateContent.mockResolvedValue({
+            text: '{}',
+            usageMetadata: { promptTokenCount: 120, candidatesTokenCount: 40, thoughtsTokenCount: 10 },
+        });
+
+        const response = await new GeminiProvider('test-key').generate({ prompt: 'hello' });
+
+        expect(response.usage).toEqual({ promptTokens: 120, completionTokens: 50 });
+    });
+
+    it('should wrap SDK failures in a ProviderError with status', async () => {
+        generateContent.mockRejectedValue(Object.assign(new Error('quota exceeded'), { status: 429 }));
+
+        const error = await new GeminiProvider('test-key').generate({ prompt: 'hello' }).catch((e) => e);
+
+        expect(error).toBeInstanceOf(ProviderError);
+        expect(error.provider).toBe('gemini');
+        expect(error.status).toBe(429);
+    });
+});
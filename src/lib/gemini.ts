@@ -1,135 +1,103 @@
-// Gemini AI Client
+// Gemini AI Provider
 import { GoogleGenAI } from "@google/genai";
-import { calculateOpportunityCost } from './opportunity-cost';
-import type { ProductInfo, AnalysisResult, UserProfile, PricingWarning } from './types';
+import type { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { loadApiKeys, MissingApiKeysError } from './api-keys';
+import { ProviderError } from './llm-provider';
+import type { LLMProvider, LLMRequest, LLMResponse, LLMStreamChunk, TokenUsage } from './llm-provider';
 
 const MODEL = 'gemini-3-flash-preview';
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY || '';
+// Single key, from GEMINI_API_KEY or the file named by GEMINI_API_KEY_FILE
+const GEMINI_KEY_ENV = 'GEMINI_API_KEY';
 
-// Initialize Gemini client
-const ai = new GoogleGenAI({
-    apiKey: GEMINI_API_KEY,
-});
+// Thinking tokens are billed as output, so they count as completion tokens
+function toTokenUsage(metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined {
+    if (!metadata) return undefined;
 
-// Fallback response when AI is unavailable
-const FALLBACK_ANALYSIS: AnalysisResult = {
-    isEssential: false,
-    essentialityScore: 0.5,
-    reasoning: "We couldn't analyze this purchase right now. Consider waiting 24 hours before deciding.",
-    warnings: [],
-    opportunityCost: {
-        amount: 0,
-        projections: { years5: 0, years10: 0, years20: 0 },
-        comparisonText: '',
-    },
-    personalizedMessage: 'Take a moment to reflect on whether you truly need this item.',
-    suggestedAction: 'cooldown',
-};
-
-function buildPrompt(product: ProductInfo, userProfile?: UserProfile): string {
-    const goalsSection = userProfile?.financialGoals?.length
-        ? `\nUser's Financial Goals: ${userProfile.financialGoals.join(', ')}`
-        : '';
-
-    const budgetSection = userProfile?.monthlyBudget
-        ? `\nMonthly Budget: ${userProfile.monthlyBudget}`
-        : '';
-
-    const savingsSection = userProfile?.savingsGoal
-        ? `\nSavings Goal: ${userProfile.savingsGoal}`
-        : '';
-
-    return `You are a financial wellness assistant helping users make better purchasing decisions.
-
-Analyze this potential purchase and provide guidance:
+    return {
+        promptTokens: metadata.promptTokenCount ?? 0,
+        completionTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+    };
+}
 
-Product: ${product.name}
-Price: ${product.currency} ${product.price}
-${product.originalPrice ? `Original Price: ${product.currency} ${product.originalPrice}` : ''}
-${product.category ? `Category: ${product.category}` : ''}
-${product.urgencyIndicators?.length ? `Urgency Indicators Found: ${product.urgencyIndicators.join(', ')}` : ''}
-${goalsSection}${budgetSection}${savingsSection}
+export class GeminiProvider implements LLMProvider {
+    readonly name = 'gemini';
+    readonly model: string;
+    private ai: GoogleGenAI;
 
-Respond in JSON format with these fields:
-{
-  "isEssential": boolean (true if this is a necessary purchase like food, medicine, utilities),
-  "essentialityScore": number (0-1, how essential is this purchase),
-  "reasoning": string (brief explanation of your assessment),
-  "warnings": [
-    {
-      "type": "fake_discount" | "urgency_manipulation" | "inflated_price",
-      "confidence": number (0-1),
-      "explanation": string
+    constructor(apiKey: string = loadApiKeys(GEMINI_KEY_ENV)[0] ?? '', model: string = MODEL) {
+        if (!apiKey) {
+            throw new MissingApiKeysError(GEMINI_KEY_ENV);
+        }
+        this.ai = new GoogleGenAI({ apiKey });
+        this.model = model;
     }
-  ],
-  "personalizedMessage": string (empathetic message considering user's goals),
-  "suggestedAction": "proceed" | "cooldown" | "skip"
-}
 
-Be empathetic but honest. Focus on helping the user achieve their financial goals.`;
-}
+    async generate(request: LLMRequest): Promise<LLMResponse> {
+        try {
+            const response = await this.ai.models.generateContent(this.buildParams(request));
+
+            return {
+                text: response.text || '',
+                provider: this.name,
+                model: this.model,
+                usage: toTokenUsage(response.usageMetadata),
+            };
+        } catch (error) {
+            throw this.toProviderError(error);
+        }
+    }
 
-function parseAIResponse(content: string, product: ProductInfo): AnalysisResult {
-    try {
-        // Extract JSON from response (handle markdown code blocks)
-        let jsonStr = content;
-        const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-        if (jsonMatch) {
-            jsonStr = jsonMatch[1];
+    async *generateStream(request: LLMRequest): AsyncGenerator<LLMStreamChunk> {
+        try {
+            const stream = await this.ai.models.generateContentStream(this.buildParams(request));
+
+            for await (const response of stream) {
+                const usage = toTokenUsage(response.usageMetadata);
+                if (response.text || usage) {
+                    yield { text: response.text || '', provider: this.name, model: this.model, usage };
+                }
+            }
+        } catch (error) {
+            throw this.toProviderError(error);
         }
+    }
 
-        const parsed = JSON.parse(jsonStr.trim());
-        const opportunityCost = calculateOpportunityCost(product.price, product.currency);
+    /** Looks up the model, which is free and proves the key and API are working */
+    async ping(signal?: AbortSignal): Promise<void> {
+        try {
+            await this.ai.models.get({ model: this.model, config: { abortSignal: signal } });
+        } catch (error) {
+            throw this.toProviderError(error);
+        }
+    }
 
+    private buildParams(request: LLMRequest) {
         return {
-            isEssential: Boolean(parsed.isEssential),
-            essentialityScore: Math.max(0, Math.min(1, Number(parsed.essentialityScore) || 0.5)),
-            reasoning: String(parsed.reasoning || 'Unable to analyze'),
-            warnings: Array.isArray(parsed.warnings) ? parsed.warnings.map((w: PricingWarning) => ({
-                type: w.type || 'inflated_price',
-                confidence: Math.max(0, Math.min(1, Number(w.confidence) || 0.5)),
-                explanation: String(w.explanation || ''),
-            })) : [],
-            opportunityCost,
-            personalizedMessage: String(parsed.personalizedMessage || 'Consider your financial goals before purchasing.'),
-            suggestedAction: ['proceed', 'cooldown', 'skip'].includes(parsed.suggestedAction)
-                ? parsed.suggestedAction
-                : 'cooldown',
-        };
-    } catch {
-        // Return fallback with calculated opportunity cost
-        const opportunityCost = calculateOpportunityCost(product.price, product.currency);
-        return {
-            ...FALLBACK_ANALYSIS,
-            opportunityCost,
+            model: this.model,
+            contents: request.images?.length
+                ? [{
+                    role: 'user',
+                    parts: [
+                        { text: request.prompt },
+                        ...request.images.map((image) => ({ inlineData: image })),
+                    ],
+                }]
+                : request.prompt,
+            config: {
+                ...(request.responseJsonSchema && {
+                    responseMimeType: 'application/json',
+                    responseJsonSchema: request.responseJsonSchema,
+                }),
+                abortSignal: request.signal,
+            },
         };
     }
-}
 
-export async function analyzePurchase(
-    product: ProductInfo,
-    userProfile?: UserProfile
-): Promise<AnalysisResult> {
-    try {
-        const prompt = buildPrompt(product, userProfile);
-
-        const response = await ai.models.generateContent({
-            model: MODEL,
-            contents: prompt,
-        });
-
-        const content = response.text || '';
-        return parseAIResponse(content, product);
-    } catch (error) {
-        console.error('Gemini AI error:', error);
-
-        // Return fallback response
-        const opportunityCost = calculateOpportunityCost(product.price, product.currency);
-        return {
-            ...FALLBACK_ANALYSIS,
-            opportunityCost,
-        };
+    private toProviderError(error: unknown): ProviderError {
+        const message = error instanceof Error ? error.message : String(error);
+        const status = (error as { status?: number }).status;
+        return new ProviderError(message, this.name, typeof status === 'number' ? status : undefined);
     }
 }
 
-export { buildPrompt, parseAIResponse, FALLBACK_ANALYSIS };
+export { MODEL as GEMINI_MODEL, GEMINI_KEY_ENV };
@@ -0,0 +1,119 @@
+// Feature: second-thought, Property 35: Health Status Aggregation
+// Validates: Requirements 2.1, 6.1
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    checkDatabase,
+    checkObservability,
+    getHealthReport,
+    overallStatus,
+    parseHealthMode,
+} from './health';
+import type { CheckDefinition, CheckStatus, HealthCheck } from './health';
+
+const checkArbitrary: fc.Arbitrary<HealthCheck> = fc.record({
+    status: fc.constantFrom<CheckStatus>('pass', 'warn', 'fail'),
+    critical: fc.boolean(),
+    latencyMs: fc.nat(5000),
+});
+
+function fixed(status: CheckStatus, critical = true): CheckDefinition {
+    return { critical, run: async () => ({ status }) };
+}
+
+describe('Health', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    // Property 35: Health Status Aggregation
+    describe('Property 35: Health Status Aggregation', () => {
+        it('should be down exactly when a critical check fails, and ok only when every check passes', () => {
+            fc.assert(
+                fc.property(fc.array(checkArbitrary, { maxLength: 6 }), (checks) => {
+                    const status = overallStatus(checks);
+
+                    expect(status === 'down').toBe(checks.some((c) => c.critical && c.status === 'fail'));
+                    expect(status === 'ok').toBe(checks.every((c) => c.status === 'pass'));
+
+                    return true;
+                }),
+                { numRuns: 200 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should parse the probe mode', () => {
+            expect(parseHealthMode('readiness')).toBe('readiness');
+            expect(parseHealthMode(' Ready ')).toBe('readiness');
+            expect(parseHealthMode('liveness')).toBe('liveness');
+            expect(parseHealthMode(null)).toBe('liveness');
+        });
+
+        it('should run no dependency checks for liveness', async () => {
+            const run = vi.fn();
+
+            const report = await getHealthReport('liveness', { database: { critical: true, run } });
+
+            expect(report.status).toBe('ok');
+            expect(report.checks).toEqual({});
+            expect(run).not.toHaveBeenCalled();
+        });
+
+        it('should report each readiness check with its latency', async () => {
+            const report = await getHealthReport('readiness', {
+                database: fixed('pass'),
+                observability: fixed('warn', false),
+            });
+
+            expect(report.status).toBe('degraded');
+            expect(report.checks.database).toMatchObject({ status: 'pass', critical: true });
+            expect(report.checks.observability.latencyMs).toBeGreaterThanOrEqual(0);
+        });
+
+        it('should fail a check that hangs past the timeout', async () => {
+            const report = await getHealthReport(
+                'readiness',
+                { database: { critical: true, run: () => new Promise(() => {}) } },
+                20
+            );
+
+            expect(report.status).toBe('down');
+            expect(report.checks.database.message).toBe('Timed out after 20ms');
+        });
+
+        it('should fail a check that throws, with secrets redacted', async () => {
+            const report = await getHealthReport('readiness', {
+                providers: {
+                    critical: true,
+                    run: async () => {
+                        throw new Error('rejected key csk-abcdefghijklmnop1234');
+                    },
+                },
+            });
+
+            expect(report.checks.providers.status).toBe('fail');
+            expect(report.checks.providers.message).not.toContain('abcdefghijklmnop1234');
+        });
+
+        it('should fail the database check without Supabase credentials', async () => {
+            vi.stubEnv('NEXT_PUBLIC_SUPABASE_URL', '');
+
+            const result = await checkDatabase(new AbortController().signal);
+
+            expect(result).toEqual({ status: 'fail', message: 'Supabase credentials not configured' });
+        });
+
+        it('should warn when Opik is not configured', async () => {
+            vi.stubEnv('OPIK_API_KEY', '');
+            vi.stubEnv('OPIK_URL_OVERRIDE', '');
+            expect((await checkObservability()).status).toBe('warn');
+
+            vi.stubEnv('OPIK_API_KEY', 'opik-key');
+            expect((await checkObservability()).status).toBe('pass');
+        });
+    });
+});
@@ -0,0 +1,182 @@
+// Health Checks
+// Liveness and readiness for uptime monitors. Readiness checks the database,
+// model providers, API key health and observability, each within a timeout.
+
+import { redactSecrets } from './api-keys';
+import { getProviderBreaker } from './circuit-breaker';
+import { createDeadline, raceAbort } from './deadline';
+import { loadBalancer } from './load-balancer';
+import { getProviderChain, parseProviderOrder } from './provider-registry';
+
+export type HealthMode = 'liveness' | 'readiness';
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface CheckResult {
+    status: CheckStatus;
+    message?: string;
+    details?: Record<string, unknown>;
+}
+
+export interface HealthCheck extends CheckResult {
+    // A failing critical check makes the service unready
+    critical: boolean;
+    latencyMs: number;
+}
+
+export interface HealthReport {
+    status: HealthStatus;
+    mode: HealthMode;
+    checkedAt: string;
+    uptimeSeconds: number;
+    checks: Record<string, HealthCheck>;
+}
+
+export interface CheckDefinition {
+    critical: boolean;
+    run: (signal: AbortSignal) => Promise<CheckResult>;
+}
+
+const HEALTH_CHECK_TIMEOUT_MS = 3000;
+const startedAt = Date.now();
+
+/** Readiness for "readiness" or "ready"; anything else is a liveness probe */
+export function parseHealthMode(value: string | null | undefined): HealthMode {
+    const mode = value?.trim().toLowerCase();
+    return mode === 'readiness' || mode === 'ready' ? 'readiness' : 'liveness';
+}
+
+/** Down if a critical check fails, degraded if anything else is off, ok otherwise */
+export function overallStatus(checks: HealthCheck[]): HealthStatus {
+    if (checks.some((check) => check.critical && check.status === 'fail')) return 'down';
+    if (checks.some((check) => check.status !== 'pass')) return 'degraded';
+    return 'ok';
+}
+
+function errorMessage(error: unknown): string {
+    return redactSecrets(error instanceof Error ? error.message : String(error));
+}
+
+export async function checkDatabase(signal: AbortSignal): Promise<CheckResult> {
+    if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY) {
+        return { status: 'fail', message: 'Supabase credentials not configured' };
+    }
+
+    // Imported here because creating the client throws without credentials
+    const { supabase } = await import('./supabase');
+    const { error } = await supabase
+        .from('user_profiles')
+        .select('id', { count: 'exact', head: true })
+        .abortSignal(signal);
+
+    if (error) {
+        return { status: 'fail', message: `Database query failed: ${error.message}` };
+    }
+    return { status: 'pass' };
+}
+
+/** Each configured provider's circuit, and whether it answers a ping */
+export async function checkProviders(signal: AbortSignal): Promise<CheckResult> {
+    // Throws for a provider without API keys
+    const providers = getProviderChain();
+
+    const results = await Promise.all(providers.map(async (provider) => {
+        const circuit = getProviderBreaker(provider).getState();
+        if (!provider.ping) {
+            return { name: provider.name, model: provider.model, circuit };
+        }
+
+        try {
+            await provider.ping(signal);
+            return { name: provider.name, model: provider.model, circuit, reachable: true };
+        } catch (error) {
+            return { name: provider.name, model: provider.model, circuit, reachable: false, error: errorMessage(error) };
+        }
+    }));
+
+    const usable = results.filter((r) => r.circuit !== 'open' && r.reachable !== false);
+    const unusable = results.filter((r) => !usable.includes(r)).map((r) => r.name);
+
+    return {
+        status: usable.length === 0 ? 'fail' : unusable.length > 0 ? 'warn' : 'pass',
+        message: unusable.length > 0 ? `Unavailable: ${unusable.join(', ')}` : undefined,
+        details: { providers: results },
+    };
+}
+
+/** Cerebras key counts; keys themselves are never included */
+export async function checkKeys(): Promise<CheckResult> {
+    if (!parseProviderOrder(process.env.LLM_PROVIDERS).includes('cerebras')) {
+        return { status: 'pass', message: 'Cerebras is not in the provider chain' };
+    }
+
+    await loadBalancer.syncHealth();
+    const total = loadBalancer.getKeyCount();
+    const healthy = loadBalancer.getHealthyKeyCount();
+
+    return {
+        status: healthy === 0 ? 'fail' : healthy < total ? 'warn' : 'pass',
+        message: healthy < total ? `${total - healthy} of ${total} keys unavailable` : undefined,
+        details: { total, healthy, strategy: loadBalancer.getStrategy() },
+    };
+}
+
+export async function checkObservability(): Promise<CheckResult> {
+    if (!process.env.OPIK_API_KEY && !process.env.OPIK_URL_OVERRIDE) {
+        return { status: 'warn', message: 'Opik not configured; traces are not recorded' };
+    }
+    return {
+        status: 'pass',
+        details: { projectName: process.env.OPIK_PROJECT_NAME || 'second-thought' },
+    };
+}
+
+const READINESS_CHECKS: Record<string, CheckDefinition> = {
+    database: { critical: true, run: checkDatabase },
+    providers: { critical: true, run: checkProviders },
+    keys: { critical: false, run: checkKeys },
+    observability: { critical: false, run: checkObservability },
+};
+
+async function runCheck(definition: CheckDefinition, timeoutMs: number): Promise<HealthCheck> {
+    const start = Date.now();
+    const signal = createDeadline(undefined, timeoutMs);
+
+    let result: CheckResult;
+    try {
+        result = await raceAbort(definition.run(signal), signal);
+    } catch (error) {
+        result = {
+            status: 'fail',
+            message: signal.aborted ? `Timed out after ${timeoutMs}ms` : errorMessage(error),
+        };
+    }
+
+    return { ...result, critical: definition.critical, latencyMs: Date.now() - start };
+}
+
+/**
+ * Liveness only says the process is serving requests; readiness runs every
+ * check in parallel, each bounded by the timeout
+ */
+export async function getHealthReport(
+    mode: HealthMode,
+    checks: Record<string, CheckDefinition> = READINESS_CHECKS,
+    timeoutMs: number = HEALTH_CHECK_TIMEOUT_MS
+): Promise<HealthReport> {
+    const entries = mode === 'readiness'
+        ? await Promise.all(Object.entries(checks).map(async ([name, definition]) =>
+            [name, await runCheck(definition, timeoutMs)] as const))
+        : [];
+    const results = Object.fromEntries(entries);
+
+    return {
+        status: overallStatus(Object.values(results)),
+        mode,
+        checkedAt: new Date().toISOString(),
+        uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000),
+        checks: results,
+    };
+}
+
+export { HEALTH_CHECK_TIMEOUT_MS, READINESS_CHECKS };
@@ -0,0 +1,232 @@
+// Feature: second-thought, Property 20: Prompt Version Engagement Aggregation
+// Validates: Requirements 7.1, 7.3
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock Supabase for testing
+vi.mock('./supabase', () => ({
+    supabase: {
+        from: vi.fn(),
+    },
+}));
+
+import {
+    InterventionManager,
+    aggregateByPromptVersion,
+    followedAdvice,
+    pickWinner,
+} from './interventions';
+import { supabase } from './supabase';
+import type { AnalysisResult, Intervention, ProductInfo } from './types';
+
+const product: ProductInfo = {
+    name: 'Test',
+    price: 100,
+    currency: 'USD',
+    url: 'https://example.com/test',
+    urgencyIndicators: [],
+};
+
+const analysis: AnalysisResult = {
+    isEssential: false,
+    essentialityScore: 0.3,
+    reasoning: 'Not essential',
+    warnings: [],
+    opportunityCost: {
+        amount: 100,
+        projections: { years5: 140, years10: 197, years20: 387 },
+        comparisonText: 'test',
+    },
+    personalizedMessage: 'Consider waiting',
+    suggestedAction: 'cooldown',
+};
+
+const interventionArbitrary = fc.record({
+    id: fc.uuid(),
+    userId: fc.uuid(),
+    productInfo: fc.constant(product),
+    analysisResult: fc.constantFrom('proceed', 'cooldown', 'skip').map(
+        (suggestedAction) => ({ ...analysis, suggestedAction }) as AnalysisResult
+    ),
+    userAction: fc.option(fc.constantFrom('dismissed', 'cooldown_started', 'proceeded'), { nil: undefined }),
+    promptVersion: fc.option(fc.constantFrom('v1.0', 'v1.1'), { nil: undefined }),
+    createdAt: fc.date(),
+}) as fc.Arbitrary<Intervention>;
+
+function stats(promptVersion: string, responded: number, followed: number) {
+    return {
+        promptVersion,
+        interventions: responded,
+        responded,
+        followedAdvice: followed,
+        followedAdviceRate: followed / responded,
+        actions: { dismissed: 0, cooldown_started: 0, proceeded: 0 },
+    };
+}
+
+describe('Intervention Log', () => {
+    const mockFrom = supabase.from as ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+    });
+
+    // Property 20: Prompt Version Engagement Aggregation
+    describe('Property 20: Prompt Version Engagement Aggregation', () => {
+        it('should account for every versioned intervention exactly once', () => {
+            fc.assert(
+                fc.property(fc.array(interventionArbitrary, { maxLength: 50 }), (interventions) => {
+                    const result = aggregateByPromptVersion(interventions);
+
+                    const versioned = interventions.filter((i) => i.promptVersion);
+                    const total = result.reduce((sum, entry) => sum + entry.interventions, 0);
+                    expect(total).toBe(versioned.length);
+
+                    for (const entry of result) {
+                        const actionTotal = Object.values(entry.actions).reduce((sum, n) => sum + n, 0);
+                        expect(actionTotal).toBe(entry.responded);
+                        expect(entry.followedAdvice).toBeLessThanOrEqual(entry.responded);
+                        expect(entry.followedAdviceRate).toBeGreaterThanOrEqual(0);
+                        expect(entry.followedAdviceRate).toBeLessThanOrEqual(1);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should match actions to the advice they follow', () => {
+            expect(followedAdvice('cooldown', 'cooldown_started')).toBe(true);
+            expect(followedAdvice('skip', 'dismissed')).toBe(true);
+            expect(followedAdvice('proceed', 'proceeded')).toBe(true);
+            expect(followedAdvice('cooldown', 'proceeded')).toBe(false);
+        });
+
+        it('should not pick a winner until every arm has enough responses', () => {
+            expect(pickWinner([stats('v1.0', 150, 60), stats('v1.1', 40, 30)], 100)).toBeNull();
+            expect(pickWinner([], 100)).toBeNull();
+        });
+
+        it('should pick the arm with the best followed-advice rate', () => {
+            const winner = pickWinner([stats('v1.0', 150, 60), stats('v1.1', 120, 72)], 100);
+            expect(winner?.promptVersion).toBe('v1.1');
+        });
+
+        it('should record interventions without an action', async () => {
+            const insert = vi.fn().mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    single: vi.fn().mockResolvedValue({
+                        data: {
+                            id: 'int-1',
+                            user_id: 'user-1',
+                            product_info: product,
+                            analysis_result: analysis,
+                            user_action: null,
+                            prompt_version: 'v1.1',
+                            created_at: new Date().toISOString(),
+                        },
+                        error: null,
+                    }),
+                }),
+            });
+            mockFrom.mockReturnValue({ insert });
+
+            const intervention = await new InterventionManager().record('user-1', product, analysis, 'v1.1');
+
+            expect(mockFrom).toHaveBeenCalledWith('interventions');
+            expect(insert.mock.calls[0][0]).toMatchObject({ user_action: null, prompt_version: 'v1.1' });
+            expect(intervention.userAction).toBeUndefined();
+            expect(intervention.promptVersion).toBe('v1.1');
+        });
+
+        it('should read costs past the first page with only the cost columns', async () => {
+            const row = { id: 'i', user_id: 'user-1', prompt_tokens: 10, completion_tokens: 5, cost_usd: 0.001, created_at: '2026-02-01T08:00:00Z' };
+            const range = vi.fn()
+                .mockResolvedValueOnce({ data: Array(1000).fill(row), error: null })
+                .mockResolvedValueOnce({ data: [row, row], error: null });
+            const query = { eq: vi.fn(), order: vi.fn().mockReturnValue({ range }) };
+            query.eq.mockReturnValue(query);
+            const select = vi.fn().mockReturnValue(query);
+            const reflectionRange = vi.fn().mockResolvedValue({ data: [], error: null });
+            const reflectionQuery = { eq: vi.fn(), order: vi.fn().mockReturnValue({ range: reflectionRange }) };
+            reflectionQuery.eq.mockReturnValue(reflectionQuery);
+            const reflectionSelect = vi.fn().mockReturnValue({ not: vi.fn().mockReturnValue(reflectionQuery) });
+            mockFrom.mockImplementation((table: string) => ({ select: table === 'reflections' ? reflectionSelect : select }));
+
+            const summary = await new InterventionManager().getCostSummary(undefined, undefined, 'user-1');
+
+            expect(summary.total.interventions).toBe(1002);
+            expect(range.mock.calls).toEqual([[0, 999], [1000, 1999]]);
+            expect(select.mock.calls[0][0]).not.toContain('analysis_result');
+        });
+
+        it('should include reflection spend in the cost summary', async () => {
+            const intervention = { id: 'i', user_id: 'user-1', prompt_tokens: 10, completion_tokens: 5, cost_usd: 0.001, created_at: '2026-02-01T08:00:00Z' };
+            const reflection = { intervention_id: 'i', user_id: 'user-1', prompt_tokens: 40, completion_tokens: 20, cost_usd: 0.004, updated_at: '2026-02-02T08:00:00Z' };
+            const not = vi.fn();
+            mockFrom.mockImplementation((table: string) => {
+                const range = vi.fn().mockResolvedValue({ data: [table === 'reflections' ? reflection : intervention], error: null });
+                const query = { order: vi.fn().mockReturnValue({ range }) };
+                not.mockReturnValue(query);
+                return { select: vi.fn().mockReturnValue(table === 'reflections' ? { not } : query) };
+            });
+
+            const summary = await new InterventionManager().getCostSummary();
+
+            expect(mockFrom).toHaveBeenCalledWith('reflections');
+            expect(not).toHaveBeenCalledWith('cost_usd', 'is', null);
+            expect(summary.total).toMatchObject({ interventions: 1, reflections: 1, promptTokens: 50, costUsd: 0.005 });
+            expect(summary.byDay.map((d) => [d.key, d.costUsd])).toEqual([['2026-02-01', 0.001], ['2026-02-02', 0.004]]);
+        });
+
+        it('should record every cart item with its usage in one insert', async () => {
+            const insert = vi.fn().mockResolvedValue({ error: null });
+            mockFrom.mockReturnValue({ insert });
+
+            await new InterventionManager().recordMany('user-1', [
+                { product, analysis, usage: { promptTokens: 10, completionTokens: 5, costUsd: 0.001 } },
+                { product, analysis },
+            ], 'v1.1');
+
+            expect(insert).toHaveBeenCalledTimes(1);
+            expect(insert.mock.calls[0][0]).toMatchObject([
+                { user_id: 'user-1', prompt_version: 'v1.1', prompt_tokens: 10, cost_usd: 0.001 },
+                { user_id: 'user-1', prompt_version: 'v1.1', prompt_tokens: null, cost_usd: null },
+            ]);
+        });
+
+        it('should aggregate experiment stats from the verdict alone', async () => {
+            const range = vi.fn().mockResolvedValue({
+                data: [
+                    { id: '1', prompt_version: 'v1.1', user_action: 'cooldown_started', suggested_action: 'cooldown' },
+                    { id: '2', prompt_version: 'v1.1', user_action: null, suggested_action: 'skip' },
+                ],
+                error: null,
+            });
+            const select = vi.fn().mockReturnValue({ not: vi.fn().mockReturnValue({ order: vi.fn().mockReturnValue({ range }) }) });
+            mockFrom.mockReturnValue({ select });
+
+            const [stats] = await new InterventionManager().getStatsByPromptVersion();
+
+            expect(stats).toMatchObject({ promptVersion: 'v1.1', interventions: 2, responded: 1, followedAdvice: 1 });
+            expect(select.mock.calls[0][0]).toContain('analysis_result->>suggestedAction');
+        });
+
+        it('should throw when an action cannot be recorded', async () => {
+            mockFrom.mockReturnValue({
+                update: vi.fn().mockReturnValue({
+                    eq: vi.fn().mockResolvedValue({ error: { message: 'not found' } }),
+                }),
+            });
+
+            await expect(new InterventionManager().recordAction('int-1', 'proceeded')).rejects.toThrow(
+                'Failed to record intervention action: not found'
+            );
+        });
+    });
+});
@@ -0,0 +1,305 @@
+// Intervention Log
+// Records each analysis shown to a user and what they did about it, so
+// engagement can be compared across prompt versions
+
+import { supabase, DbIntervention, DbReflection } from './supabase';
+import { aggregateCosts, toUsage } from './cost-accounting';
+import type { CostSummary } from './cost-accounting';
+import type { AnalysisResult, AnalysisUsage, Intervention, ProductInfo, UserAction } from './types';
+
+// Interventions an arm needs before it can be declared a winner
+const MIN_SAMPLES_FOR_WINNER = 100;
+
+export interface PromptVersionStats {
+    promptVersion: string;
+    interventions: number;
+    // Interventions where the user has acted
+    responded: number;
+    followedAdvice: number;
+    followedAdviceRate: number;
+    actions: Record<UserAction, number>;
+}
+
+// What an aggregate needs of an intervention
+export type EngagementRecord = Pick<Intervention, 'promptVersion' | 'userAction'> & {
+    analysisResult: Pick<AnalysisResult, 'suggestedAction'>;
+};
+
+type EngagementRow = Pick<DbIntervention, 'prompt_version' | 'user_action'> & {
+    suggested_action: AnalysisResult['suggestedAction'];
+};
+
+type CostRow = Pick<DbIntervention, 'user_id' | 'prompt_tokens' | 'completion_tokens' | 'cost_usd' | 'created_at'>;
+
+type ReflectionCostRow = Pick<DbReflection, 'user_id' | 'prompt_tokens' | 'completion_tokens' | 'cost_usd' | 'updated_at'>;
+
+// PostgREST caps each response (1000 rows by default), so scans read in pages
+const PAGE_SIZE = 1000;
+
+interface PageResult {
+    data: unknown[] | null;
+    error: { message: string } | null;
+}
+
+interface PageableQuery extends PromiseLike<PageResult> {
+    order(column: string): { range(from: number, to: number): PromiseLike<PageResult> };
+}
+
+/** Every row a query matches, one page at a time in a stable order */
+async function selectAllPages<T>(
+    context: string,
+    buildQuery: () => PageableQuery,
+    orderColumn: string = 'id'
+): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await buildQuery().order(orderColumn).range(from, from + PAGE_SIZE - 1);
+
+        if (error) {
+            throw new Error(`Failed to ${context}: ${error.message}`);
+        }
+
+        rows.push(...((data || []) as T[]));
+        if (!data || data.length < PAGE_SIZE) return rows;
+    }
+}
+
+// Convert database format to application format
+function dbToIntervention(db: DbIntervention): Intervention {
+    return {
+        id: db.id,
+        userId: db.user_id,
+        productInfo: db.product_info as unknown as ProductInfo,
+        analysisResult: db.analysis_result as unknown as AnalysisResult,
+        userAction: db.user_action ?? undefined,
+        promptVersion: db.prompt_version ?? undefined,
+        usage: toUsage(db),
+        createdAt: new Date(db.created_at),
+    };
+}
+
+/** Whether the user's action matches what the analysis suggested */
+export function followedAdvice(suggestedAction: AnalysisResult['suggestedAction'], action: UserAction): boolean {
+    return (
+        (suggestedAction === 'cooldown' && action === 'cooldown_started') ||
+        (suggestedAction === 'skip' && action === 'dismissed') ||
+        (suggestedAction === 'proceed' && action === 'proceeded')
+    );
+}
+
+/** Per-version engagement totals; interventions without a version are skipped */
+export function aggregateByPromptVersion(interventions: EngagementRecord[]): PromptVersionStats[] {
+    const stats = new Map<string, PromptVersionStats>();
+
+    for (const intervention of interventions) {
+        if (!intervention.promptVersion) continue;
+
+        let entry = stats.get(intervention.promptVersion);
+        if (!entry) {
+            entry = {
+                promptVersion: intervention.promptVersion,
+                interventions: 0,
+                responded: 0,
+                followedAdvice: 0,
+                followedAdviceRate: 0,
+                actions: { dismissed: 0, cooldown_started: 0, proceeded: 0 },
+            };
+            stats.set(intervention.promptVersion, entry);
+        }
+
+        entry.interventions++;
+        if (!intervention.userAction) continue;
+
+        entry.responded++;
+        entry.actions[intervention.userAction]++;
+        if (followedAdvice(intervention.analysisResult.suggestedAction, intervention.userAction)) {
+            entry.followedAdvice++;
+        }
+    }
+
+    return [...stats.values()]
+        .map((entry) => ({
+            ...entry,
+            followedAdviceRate: entry.responded > 0 ? entry.followedAdvice / entry.responded : 0,
+        }))
+        .sort((a, b) => a.promptVersion.localeCompare(b.promptVersion));
+}
+
+/**
+ * The version with the best followed-advice rate, once every arm has at least
+ * `minSamples` responses. Returns null while the experiment is undecided.
+ */
+export function pickWinner(
+    stats: PromptVersionStats[],
+    minSamples: number = MIN_SAMPLES_FOR_WINNER
+): PromptVersionStats | null {
+    if (stats.length === 0 || stats.some((entry) => entry.responded < minSamples)) {
+        return null;
+    }
+
+    return stats.reduce((best, entry) => (entry.followedAdviceRate > best.followedAdviceRate ? entry : best));
+}
+
+export class InterventionManager {
+    /** Record an analysis shown to a user; the action is filled in later */
+    async record(
+        userId: string,
+        product: ProductInfo,
+        analysis: AnalysisResult,
+        promptVersion: string,
+        usage?: AnalysisUsage
+    ): Promise<Intervention> {
+        const { data, error } = await supabase
+            .from('interventions')
+            .insert({
+                user_id: userId,
+                product_info: product,
+                analysis_result: analysis,
+                user_action: null,
+                prompt_version: promptVersion,
+                prompt_tokens: usage?.promptTokens ?? null,
+                completion_tokens: usage?.completionTokens ?? null,
+                cost_usd: usage?.costUsd ?? null,
+            })
+            .select()
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to record intervention: ${error.message}`);
+        }
+
+        return dbToIntervention(data as DbIntervention);
+    }
+
+    /**
+     * Record every item of a cart analysis in one insert; cache hits carry no
+     * usage, like a cached single analysis
+     */
+    async recordMany(
+        userId: string,
+        entries: { product: ProductInfo; analysis: AnalysisResult; usage?: AnalysisUsage }[],
+        promptVersion: string
+    ): Promise<void> {
+        if (entries.length === 0) return;
+
+        const { error } = await supabase
+            .from('interventions')
+            .insert(entries.map(({ product, analysis, usage }) => ({
+                user_id: userId,
+                product_info: product,
+                analysis_result: analysis,
+                user_action: null,
+                prompt_version: promptVersion,
+                prompt_tokens: usage?.promptTokens ?? null,
+                completion_tokens: usage?.completionTokens ?? null,
+                cost_usd: usage?.costUsd ?? null,
+            })));
+
+        if (error) {
+            throw new Error(`Failed to record interventions: ${error.message}`);
+        }
+    }
+
+    async get(interventionId: string): Promise<Intervention | null> {
+        const { data, error } = await supabase
+            .from('interventions')
+            .select('*')
+            .eq('id', interventionId)
+            .single();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return dbToIntervention(data as DbIntervention);
+    }
+
+    async recordAction(interventionId: string, action: UserAction): Promise<void> {
+        const { error } = await supabase
+            .from('interventions')
+            .update({ user_action: action })
+            .eq('id', interventionId);
+
+        if (error) {
+            throw new Error(`Failed to record intervention action: ${error.message}`);
+        }
+    }
+
+    async getStatsByPromptVersion(since?: Date): Promise<PromptVersionStats[]> {
+        // Only the columns the stats need; the JSONB analysis is reduced to its verdict
+        const rows = await selectAllPages<EngagementRow>('get intervention stats', () => {
+            let query = supabase
+                .from('interventions')
+                .select('id, prompt_version, user_action, suggested_action:analysis_result->>suggestedAction')
+                .not('prompt_version', 'is', null);
+
+            if (since) {
+                query = query.gte('created_at', since.toISOString());
+            }
+            return query;
+        });
+
+        return aggregateByPromptVersion(rows.map((row) => ({
+            promptVersion: row.prompt_version ?? undefined,
+            userAction: row.user_action ?? undefined,
+            analysisResult: { suggestedAction: row.suggested_action },
+        })));
+    }
+
+    /** Spend on analyses and on reflection turns, which are dated by their last turn */
+    async getCostSummary(since?: Date, until?: Date, userId?: string): Promise<CostSummary> {
+        const rows = await selectAllPages<CostRow>('get intervention costs', () => {
+            let query = supabase
+                .from('interventions')
+                .select('id, user_id, prompt_tokens, completion_tokens, cost_usd, created_at');
+
+            if (since) {
+                query = query.gte('created_at', since.toISOString());
+            }
+            if (until) {
+                query = query.lt('created_at', until.toISOString());
+            }
+            if (userId) {
+                query = query.eq('user_id', userId);
+            }
+            return query;
+        });
+
+        // Only reflections whose coach turns called a model have spend to report
+        const reflectionRows = await selectAllPages<ReflectionCostRow>('get reflection costs', () => {
+            let query = supabase
+                .from('reflections')
+                .select('intervention_id, user_id, prompt_tokens, completion_tokens, cost_usd, updated_at')
+                .not('cost_usd', 'is', null);
+
+            if (since) {
+                query = query.gte('updated_at', since.toISOString());
+            }
+            if (until) {
+                query = query.lt('updated_at', until.toISOString());
+            }
+            if (userId) {
+                query = query.eq('user_id', userId);
+            }
+            return query;
+        }, 'intervention_id');
+
+        return aggregateCosts(
+            rows.map((row) => ({
+                userId: row.user_id,
+                usage: toUsage(row),
+                createdAt: new Date(row.created_at),
+            })),
+            reflectionRows.map((row) => ({
+                userId: row.user_id,
+                usage: toUsage(row),
+                createdAt: new Date(row.updated_at),
+            }))
+        );
+    }
+}
+
+// Singleton instance
+export const interventionManager = new InterventionManager();
+
+export { MIN_SAMPLES_FOR_WINNER };
@@ -0,0 +1,150 @@
+// Feature: second-thought, Property 32: Shared Key Health
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock Supabase for testing
+vi.mock('./supabase', () => ({
+    supabase: { from: vi.fn() },
+}));
+
+import { supabase } from './supabase';
+import {
+    KeyHealthStore,
+    MemoryKeyHealthBackend,
+    SupabaseKeyHealthBackend,
+    createKeyHealthStore,
+    keyId,
+} from './key-health-store';
+import { LoadBalancer } from './load-balancer';
+
+const KEYS = ['key-a', 'key-b', 'key-c'];
+
+function sharedBalancers(store: KeyHealthStore): [LoadBalancer, LoadBalancer] {
+    return [
+        new LoadBalancer(KEYS, { strategy: 'round_robin', healthStore: store }),
+        new LoadBalancer(KEYS, { strategy: 'round_robin', healthStore: store }),
+    ];
+}
+
+describe('Key Health Store', () => {
+    const mockFrom = supabase.from as ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        mockFrom.mockReset();
+    });
+
+    // Property 32: Shared Key Health
+    describe('Property 32: Shared Key Health', () => {
+        it('should let a fresh instance skip keys another instance found failing', async () => {
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.subarray(KEYS, { minLength: 1, maxLength: KEYS.length - 1 }),
+                    fc.constantFrom(429, 500, 401),
+                    async (failing, status) => {
+                        const [warm, cold] = sharedBalancers(new KeyHealthStore(new MemoryKeyHealthBackend()));
+
+                        for (const key of failing) {
+                            for (let i = 0; i < 3; i++) await warm.reportError(key, { status });
+                        }
+                        await cold.syncHealth();
+
+                        expect(cold.getHealthyKeyCount()).toBe(KEYS.length - failing.length);
+                        for (let i = 0; i < KEYS.length; i++) {
+                            expect(failing).not.toContain(cold.getNextKey());
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 50 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should store keys by hash only', async () => {
+            const backend = new MemoryKeyHealthBackend();
+            const [balancer] = sharedBalancers(new KeyHealthStore(backend));
+
+            await balancer.reportError('key-a', { status: 500 });
+
+            const [entry] = await backend.getMany([keyId('key-a')]);
+            expect(entry.keyId).toMatch(/^[0-9a-f]{16}$/);
+            expect(JSON.stringify(entry)).not.toContain('key-a');
+            expect(entry.errorCount).toBe(1);
+        });
+
+        it('should ignore expired entries', async () => {
+            let now = 1_000_000;
+            const store = new KeyHealthStore(new MemoryKeyHealthBackend(), 60_000, () => now);
+
+            await store.save({ keyId: 'abc', healthy: false, errorCount: 3, updatedAt: now });
+            expect((await store.load(['abc'])).size).toBe(1);
+
+            now += 60_001;
+            expect((await store.load(['abc'])).size).toBe(0);
+        });
+
+        it('should keep a rate-limit cooldown past the TTL', async () => {
+            let now = 1_000_000;
+            const store = new KeyHealthStore(new MemoryKeyHealthBackend(), 60_000, () => now);
+
+            await store.save({ keyId: 'abc', healthy: true, errorCount: 0, cooldownUntil: now + 120_000, updatedAt: now });
+
+            now += 90_000;
+            expect((await store.load(['abc'])).get('abc')?.cooldownUntil).toBe(1_120_000);
+        });
+
+        it('should fall back to local state when the store fails', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const failing = {
+                getMany: vi.fn().mockRejectedValue(new Error('connection refused')),
+                set: vi.fn().mockRejectedValue(new Error('connection refused')),
+            };
+            const [balancer] = sharedBalancers(new KeyHealthStore(failing));
+
+            await balancer.reportError('key-a', { status: 500 });
+            await balancer.syncHealth();
+
+            expect(balancer.getKeyStats()[0].errorCount).toBe(1);
+            expect(balancer.getNextKey()).toBe('key-a');
+        });
+
+        it('should round-trip entries through the Supabase table', async () => {
+            const upsert = vi.fn().mockResolvedValue({ error: null });
+            mockFrom.mockReturnValue({ upsert });
+            const backend = new SupabaseKeyHealthBackend();
+
+            await backend.set({
+                keyId: 'abc',
+                healthy: false,
+                errorCount: 3,
+                lastErrorAt: Date.parse('2026-10-19T12:00:00Z'),
+                updatedAt: Date.parse('2026-10-19T12:00:00Z'),
+                expiresAt: Date.parse('2026-10-19T12:10:00Z'),
+            });
+
+            expect(mockFrom).toHaveBeenCalledWith('key_health');
+            const row = upsert.mock.calls[0][0];
+            expect(row).toMatchObject({ key_id: 'abc', healthy: false, error_count: 3, cooldown_until: null });
+
+            mockFrom.mockReturnValue({
+                select: vi.fn().mockReturnValue({
+                    in: vi.fn().mockResolvedValue({ data: [row], error: null }),
+                }),
+            });
+            const [entry] = await backend.getMany(['abc']);
+            expect(entry.lastErrorAt).toBe(Date.parse('2026-10-19T12:00:00Z'));
+            expect(entry.cooldownUntil).toBeUndefined();
+        });
+
+        it('should select the store from configuration', () => {
+            expect(createKeyHealthStore(undefined)).toBeUndefined();
+            expect(createKeyHealthStore('memory')).toBeInstanceOf(KeyHealthStore);
+            expect(createKeyHealthStore('supabase')).toBeInstanceOf(KeyHealthStore);
+        });
+    });
+});
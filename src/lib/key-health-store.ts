@@ -0,0 +1,151 @@
+// Key Health Store
+// Shares API key health across serverless instances, so a cold start does
+// not rediscover keys that are failing or rate limited. Keys are stored by
+// hash only, and entries expire so stale outcomes are forgotten.
+
+import { createHash } from 'crypto';
+import type { DbKeyHealth } from './supabase';
+
+const DEFAULT_KEY_HEALTH_TTL_MS = 10 * 60 * 1000; // 10 minutes
+
+export interface KeyHealthEntry {
+    // Hash of the key; the key itself never leaves the process
+    keyId: string;
+    healthy: boolean;
+    errorCount: number;
+    lastErrorAt?: number;
+    cooldownUntil?: number;
+    remainingQuota?: number;
+    avgLatencyMs?: number;
+    // When the outcome was reported; the newest report wins across instances
+    updatedAt: number;
+    expiresAt: number;
+}
+
+export interface KeyHealthBackend {
+    getMany(keyIds: string[]): Promise<KeyHealthEntry[]>;
+    set(entry: KeyHealthEntry): Promise<void>;
+}
+
+/** Stable, non-reversible id for a key */
+export function keyId(key: string): string {
+    return createHash('sha256').update(key).digest('hex').slice(0, 16);
+}
+
+export class MemoryKeyHealthBackend implements KeyHealthBackend {
+    private entries = new Map<string, KeyHealthEntry>();
+
+    async getMany(keyIds: string[]): Promise<KeyHealthEntry[]> {
+        return keyIds.flatMap((id) => this.entries.get(id) ?? []);
+    }
+
+    async set(entry: KeyHealthEntry): Promise<void> {
+        this.entries.set(entry.keyId, entry);
+    }
+}
+
+function toIso(ms?: number): string | null {
+    return ms === undefined ? null : new Date(ms).toISOString();
+}
+
+function fromIso(value: string | null): number | undefined {
+    return value ? new Date(value).getTime() : undefined;
+}
+
+export class SupabaseKeyHealthBackend implements KeyHealthBackend {
+    // Loaded on first use so the load balancer can be imported without Supabase configured
+    private async client() {
+        return (await import('./supabase')).supabase;
+    }
+
+    async getMany(keyIds: string[]): Promise<KeyHealthEntry[]> {
+        const supabase = await this.client();
+        const { data, error } = await supabase
+            .from('key_health')
+            .select('*')
+            .in('key_id', keyIds);
+
+        if (error) {
+            throw new Error(`Failed to read key health: ${error.message}`);
+        }
+
+        return ((data || []) as DbKeyHealth[]).map((row) => ({
+            keyId: row.key_id,
+            healthy: row.healthy,
+            errorCount: row.error_count,
+            lastErrorAt: fromIso(row.last_error_at),
+            cooldownUntil: fromIso(row.cooldown_until),
+            remainingQuota: row.remaining_quota ?? undefined,
+            avgLatencyMs: row.avg_latency_ms ?? undefined,
+            updatedAt: new Date(row.updated_at).getTime(),
+            expiresAt: new Date(row.expires_at).getTime(),
+        }));
+    }
+
+    async set(entry: KeyHealthEntry): Promise<void> {
+        const supabase = await this.client();
+        const { error } = await supabase
+            .from('key_health')
+            .upsert({
+                key_id: entry.keyId,
+                healthy: entry.healthy,
+                error_count: entry.errorCount,
+                last_error_at: toIso(entry.lastErrorAt),
+                cooldown_until: toIso(entry.cooldownUntil),
+                remaining_quota: entry.remainingQuota ?? null,
+                avg_latency_ms: entry.avgLatencyMs ?? null,
+                updated_at: new Date(entry.updatedAt).toISOString(),
+                expires_at: new Date(entry.expiresAt).toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to write key health: ${error.message}`);
+        }
+    }
+}
+
+export class KeyHealthStore {
+    constructor(
+        private backend: KeyHealthBackend,
+        private ttlMs: number = DEFAULT_KEY_HEALTH_TTL_MS,
+        private now: () => number = Date.now
+    ) {}
+
+    /** Unexpired entries by key id; a store failure reads as no shared state */
+    async load(keyIds: string[]): Promise<Map<string, KeyHealthEntry>> {
+        try {
+            const entries = await this.backend.getMany(keyIds);
+            const now = this.now();
+            return new Map(entries.filter((e) => e.expiresAt > now).map((e) => [e.keyId, e]));
+        } catch (error) {
+            // Shared health is an optimization; keys still work from local state
+            console.error('Key health read error:', error);
+            return new Map();
+        }
+    }
+
+    async save(entry: Omit<KeyHealthEntry, 'expiresAt'>): Promise<void> {
+        try {
+            // A cooldown outlives the TTL so the whole window is shared
+            const expiresAt = Math.max(this.now() + this.ttlMs, entry.cooldownUntil ?? 0);
+            await this.backend.set({ ...entry, expiresAt });
+        } catch (error) {
+            console.error('Key health write error:', error);
+        }
+    }
+}
+
+/**
+ * Shared store selected by KEY_HEALTH_STORE ("supabase" or "memory"); unset
+ * keeps health in process memory only, as before
+ */
+export function createKeyHealthStore(
+    backend: string | undefined = process.env.KEY_HEALTH_STORE
+): KeyHealthStore | undefined {
+    const ttlMs = Number(process.env.KEY_HEALTH_TTL_MS) || DEFAULT_KEY_HEALTH_TTL_MS;
+    if (backend === 'supabase') return new KeyHealthStore(new SupabaseKeyHealthBackend(), ttlMs);
+    if (backend === 'memory') return new KeyHealthStore(new MemoryKeyHealthBackend(), ttlMs);
+    return undefined;
+}
+
+export { DEFAULT_KEY_HEALTH_TTL_MS };
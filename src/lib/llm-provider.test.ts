@@ -0,0 +1,91 @@
+// Feature: second-thought, Property 15: Ordered Provider Failover
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { generateWithFailover, AllProvidersFailedError, ProviderError } from './llm-provider';
+import { parseProviderOrder, getAvailableProviderChain, getProviderChain, DEFAULT_PROVIDER_ORDER } from './provider-registry';
+import { FakeProvider } from './fake-provider';
+
+describe('LLM Provider Layer', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    // Property 15: Ordered Provider Failover
+    describe('Property 15: Ordered Provider Failover', () => {
+        it('should answer from the first healthy provider in order', async () => {
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.integer({ min: 0, max: 4 }),
+                    fc.integer({ min: 0, max: 3 }),
+                    async (failingCount, healthyCount) => {
+                        const failing = Array.from({ length: failingCount }, (_, i) =>
+                            new FakeProvider([new Error('down')], `failing-${i}`)
+                        );
+                        const healthy = Array.from({ length: healthyCount }, (_, i) =>
+                            new FakeProvider(['ok'], `healthy-${i}`)
+                        );
+                        const providers = [...failing, ...healthy];
+
+                        if (healthyCount === 0) {
+                            await expect(generateWithFailover(providers, { prompt: 'p' }))
+                                .rejects.toBeInstanceOf(AllProvidersFailedError);
+                        } else {
+                            const response = await generateWithFailover(providers, { prompt: 'p' });
+                            expect(response.provider).toBe('healthy-0');
+                        }
+
+                        // Every failing provider is tried exactly once, later ones never
+                        failing.forEach((p) => expect(p.requests).toHaveLength(1));
+                        healthy.slice(1).forEach((p) => expect(p.requests).toHaveLength(0));
+
+                        return true;
+                    }
+                ),
+                { numRuns: 50 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should collect provider errors when every provider fails', async () => {
+            const error = await generateWithFailover(
+                [
+                    new FakeProvider([new ProviderError('rate limited', 'first', 429)], 'first'),
+                    new FakeProvider([new Error('timeout')], 'second'),
+                ],
+                { prompt: 'p' }
+            ).catch((e) => e);
+
+            expect(error).toBeInstanceOf(AllProvidersFailedError);
+            expect(error.errors.map((e: ProviderError) => e.provider)).toEqual(['first', 'second']);
+            expect(error.errors[0].status).toBe(429);
+        });
+
+        it('should parse provider order from configuration', () => {
+            expect(parseProviderOrder(undefined)).toEqual(DEFAULT_PROVIDER_ORDER);
+            expect(parseProviderOrder(' Cerebras , gemini,cerebras ')).toEqual(['cerebras', 'gemini']);
+            expect(parseProviderOrder(' , ')).toEqual(DEFAULT_PROVIDER_ORDER);
+        });
+
+        it('should build the configured chain and reject unknown providers', () => {
+            const chain = getProviderChain(['fake']);
+
+            expect(chain.map((p) => p.name)).toEqual(['fake']);
+            expect(getProviderChain(['fake'])[0]).toBe(chain[0]);
+            expect(() => getProviderChain(['unknown'])).toThrow('Unknown LLM provider');
+        });
+
+        it('should leave providers without API keys out of the available chain', () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            vi.stubEnv('GEMINI_API_KEY', '');
+
+            expect(getAvailableProviderChain(['gemini', 'fake']).map((p) => p.name)).toEqual(['fake']);
+            expect(() => getProviderChain(['gemini'])).toThrow('GEMINI_API_KEY');
+
+            vi.unstubAllEnvs();
+        });
+    });
+});
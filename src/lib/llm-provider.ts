@@ -0,0 +1,197 @@
+// LLM Provider Layer
+// Common interface for model providers and ordered failover between them
+
+import { redactSecrets } from './api-keys';
+import { CircuitOpenError, getProviderBreaker, isCallerError } from './circuit-breaker';
+import type { CircuitBreaker } from './circuit-breaker';
+import { raceAbort } from './deadline';
+
+// Inline image input; data is base64-encoded
+export interface LLMImage {
+    mimeType: string;
+    data: string;
+}
+
+export interface LLMRequest {
+    prompt: string;
+    responseJsonSchema?: Record<string, unknown>;
+    // Images sent alongside the prompt; text-only providers ignore them
+    images?: LLMImage[];
+    // Aborts the call when the request's deadline passes or the client goes away
+    signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+}
+
+export interface LLMResponse {
+    text: string;
+    provider: string;
+    model: string;
+    // Token counts reported by the provider, when it reports them
+    usage?: TokenUsage;
+}
+
+// A piece of streamed output; text is the delta since the previous chunk and
+// usage, when present, covers the whole stream so far
+export type LLMStreamChunk = LLMResponse;
+
+export interface LLMProvider {
+    readonly name: string;
+    readonly model: string;
+    generate(request: LLMRequest): Promise<LLMResponse>;
+    // Optional incremental output; providers without it are streamed as one chunk
+    generateStream?(request: LLMRequest): AsyncIterable<LLMStreamChunk>;
+    // Optional reachability check for health probes; must not spend tokens
+    ping?(signal?: AbortSignal): Promise<void>;
+}
+
+export class ProviderError extends Error {
+    constructor(
+        message: string,
+        public readonly provider: string,
+        public readonly status?: number
+    ) {
+        // SDK errors can echo request URLs or headers that carry the key
+        super(redactSecrets(message));
+        this.name = 'ProviderError';
+    }
+}
+
+export class AllProvidersFailedError extends Error {
+    constructor(public readonly errors: ProviderError[]) {
+        super(
+            errors.length > 0
+                ? `All LLM providers failed: ${errors.map((e) => `${e.provider}: ${e.message}`).join('; ')}`
+                : 'No LLM providers configured'
+        );
+        this.name = 'AllProvidersFailedError';
+    }
+}
+
+function toProviderError(error: unknown, provider: string): ProviderError {
+    if (error instanceof ProviderError) return error;
+    const message = error instanceof Error ? error.message : String(error);
+    return new ProviderError(message, provider);
+}
+
+/** Claim the provider's breaker, or the error to record when its circuit is open */
+function acquireProvider(provider: LLMProvider): CircuitBreaker | ProviderError {
+    const breaker = getProviderBreaker(provider);
+    if (breaker.tryAcquire()) return breaker;
+    return new ProviderError(new CircuitOpenError(provider.name, breaker.retryAfterMs()).message, provider.name, 503);
+}
+
+function recordProviderFailure(breaker: CircuitBreaker, error: ProviderError): void {
+    // A rejected request is the caller's problem, not the provider's
+    if (isCallerError(error.status)) {
+        breaker.release();
+    } else {
+        breaker.recordFailure();
+    }
+}
+
+/**
+ * Try each provider in order, returning the first successful response.
+ * Providers whose circuit is open are skipped. Once the request's signal
+ * aborts, the abort reason is thrown without failover.
+ */
+export async function generateWithFailover(
+    providers: LLMProvider[],
+    request: LLMRequest
+): Promise<LLMResponse> {
+    const errors: ProviderError[] = [];
+
+    for (const provider of providers) {
+        request.signal?.throwIfAborted();
+        const breaker = acquireProvider(provider);
+        if (breaker instanceof ProviderError) {
+            errors.push(breaker);
+            continue;
+        }
+
+        try {
+            const response = await raceAbort(provider.generate(request), request.signal);
+            breaker.recordSuccess();
+            return response;
+        } catch (error) {
+            if (request.signal?.aborted) {
+                breaker.release();
+                throw request.signal.reason;
+            }
+            const providerError = toProviderError(error, provider.name);
+            recordProviderFailure(breaker, providerError);
+            console.warn(`LLM provider ${provider.name} failed, trying next:`, providerError.message);
+            errors.push(providerError);
+        }
+    }
+
+    throw new AllProvidersFailedError(errors);
+}
+
+/**
+ * Stream from the first provider that starts producing output. Failover only
+ * happens before the first chunk; a failure mid-stream is thrown to the caller.
+ */
+export async function* streamWithFailover(
+    providers: LLMProvider[],
+    request: LLMRequest
+): AsyncGenerator<LLMStreamChunk> {
+    const errors: ProviderError[] = [];
+
+    for (const provider of providers) {
+        request.signal?.throwIfAborted();
+        const breaker = acquireProvider(provider);
+        if (breaker instanceof ProviderError) {
+            errors.push(breaker);
+            continue;
+        }
+
+        let started = false;
+        try {
+            if (!provider.generateStream) {
+                const response = await raceAbort(provider.generate(request), request.signal);
+                breaker.recordSuccess();
+                started = true;
+                yield response;
+                return;
+            }
+
+            // Iterated by hand so each chunk can be raced against the signal
+            const iterator = provider.generateStream(request)[Symbol.asyncIterator]();
+            let finished = false;
+            try {
+                while (true) {
+                    const next = await raceAbort(iterator.next(), request.signal);
+                    if (next.done) {
+                        finished = true;
+                        return;
+                    }
+                    // The first chunk shows the provider is answering
+                    if (!started) breaker.recordSuccess();
+                    started = true;
+                    yield next.value;
+                }
+            } finally {
+                // Close the provider's stream if we stopped reading early
+                if (!finished) void iterator.return?.()?.catch(() => {});
+            }
+        } catch (error) {
+            if (request.signal?.aborted) throw request.signal.reason;
+            const providerError = toProviderError(error, provider.name);
+            recordProviderFailure(breaker, providerError);
+            if (started) {
+                throw providerError;
+            }
+            console.warn(`LLM provider ${provider.name} failed, trying next:`, providerError.message);
+            errors.push(providerError);
+        } finally {
+            // Frees a half-open probe if the stream was abandoned or cancelled
+            breaker.release();
+        }
+    }
+
+    throw new AllProvidersFailedError(errors);
+}
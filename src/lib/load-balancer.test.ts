@@ -0,0 +1,136 @@
+// Feature: second-thought, Property 31: Rate-Limit-Aware Key Selection
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    LoadBalancer,
+    KeysRateLimitedError,
+    classifyKeyError,
+    parseKeySelectionStrategy,
+    parseRetryAfter,
+    KEY_SELECTION_STRATEGIES,
+} from './load-balancer';
+
+const KEYS = ['key-a', 'key-b', 'key-c', 'key-d'];
+
+describe('Load Balancer', () => {
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    // Property 31: Rate-Limit-Aware Key Selection
+    describe('Property 31: Rate-Limit-Aware Key Selection', () => {
+        it('should never hand out a key inside its cooldown window', () => {
+            fc.assert(
+                fc.property(
+                    fc.constantFrom(...KEY_SELECTION_STRATEGIES),
+                    fc.subarray(KEYS, { minLength: 1, maxLength: KEYS.length - 1 }),
+                    fc.integer({ min: 1, max: 20 }),
+                    (strategy, limited, draws) => {
+                        const balancer = new LoadBalancer(KEYS, { strategy, random: () => 0.5 });
+                        limited.forEach((key) => balancer.reportError(key, { status: 429, retryAfterMs: 30_000 }));
+
+                        for (let i = 0; i < draws; i++) {
+                            expect(limited).not.toContain(balancer.getNextKey());
+                        }
+                        expect(balancer.getHealthyKeyCount()).toBe(KEYS.length - limited.length);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should classify errors by status', () => {
+            expect(classifyKeyError(429)).toBe('rate_limited');
+            expect(classifyKeyError(401)).toBe('auth');
+            expect(classifyKeyError(400)).toBe('caller');
+            expect(classifyKeyError(422)).toBe('caller');
+            expect(classifyKeyError(503)).toBe('server');
+            expect(classifyKeyError(undefined)).toBe('server');
+        });
+
+        it('should parse Retry-After as seconds or an HTTP date', () => {
+            const now = Date.parse('2026-10-19T12:00:00Z');
+
+            expect(parseRetryAfter('30')).toBe(30_000);
+            expect(parseRetryAfter('Mon, 19 Oct 2026 12:01:00 GMT', now)).toBe(60_000);
+            expect(parseRetryAfter('later')).toBeUndefined();
+            expect(parseRetryAfter(null)).toBeUndefined();
+        });
+
+        it('should parse the selection strategy from configuration', () => {
+            expect(parseKeySelectionStrategy(undefined)).toBe('round_robin');
+            expect(parseKeySelectionStrategy(' Least-Latency ')).toBe('least_latency');
+            expect(parseKeySelectionStrategy('fastest')).toBe('round_robin');
+        });
+
+        it('should bring a key back once its cooldown ends', () => {
+            vi.useFakeTimers();
+            const balancer = new LoadBalancer(['key-a'], { strategy: 'round_robin' });
+
+            balancer.reportError('key-a', { status: 429, retryAfterMs: 10_000 });
+            const error = (() => {
+                try {
+                    balancer.getNextKey();
+                } catch (e) {
+                    return e;
+                }
+            })();
+            expect(error).toBeInstanceOf(KeysRateLimitedError);
+            expect((error as KeysRateLimitedError).retryAfterMs).toBe(10_000);
+
+            vi.advanceTimersByTime(10_001);
+            expect(balancer.getNextKey()).toBe('key-a');
+        });
+
+        it('should take a rejected key out of rotation on the first auth error', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b'], { strategy: 'round_robin' });
+
+            balancer.reportError('key-a', { status: 401 });
+
+            expect(balancer.getHealthyKeyCount()).toBe(1);
+            expect(balancer.getNextKey()).toBe('key-b');
+        });
+
+        it('should prefer the fastest key once every key has been measured', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b', 'key-c'], { strategy: 'least_latency' });
+
+            balancer.reportSuccess('key-a', { latencyMs: 900 });
+            expect(balancer.getNextKey()).not.toBe('key-a');
+            balancer.reportSuccess('key-b', { latencyMs: 200 });
+            balancer.reportSuccess('key-c', { latencyMs: 500 });
+
+            expect(balancer.getNextKey()).toBe('key-b');
+            expect(balancer.getNextKey()).toBe('key-b');
+        });
+
+        it('should weight keys by remaining quota', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b'], { strategy: 'quota_weighted', random: () => 0.5 });
+
+            balancer.reportSuccess('key-a', { remainingQuota: 100 });
+            balancer.reportSuccess('key-b', { remainingQuota: 900 });
+            expect(balancer.getNextKey()).toBe('key-b');
+
+            balancer.reportSuccess('key-b', { remainingQuota: 0 });
+            expect(balancer.getNextKey()).toBe('key-a');
+        });
+
+        it('should smooth latency and redact keys in stats', () => {
+            const balancer = new LoadBalancer(['csk-abcdef1234567890'], { strategy: 'round_robin' });
+
+            balancer.reportSuccess('csk-abcdef1234567890', { latencyMs: 100 });
+            balancer.reportSuccess('csk-abcdef1234567890', { latencyMs: 200 });
+
+            const [stats] = balancer.getKeyStats();
+            expect(stats.key).toBe('csk-…7890');
+            expect(stats.lastLatencyMs).toBe(200);
+            expect(stats.avgLatencyMs).toBe(130);
+        });
+    });
+});
@@ -1,105 +1,497 @@
-// API Key Load Balancer with health tracking
+// API Key Load Balancer with a circuit breaker per key, rate-limit cooldowns,
+// daily budgets and per-key latency statistics
+
+import { loadApiKeys, MissingApiKeysError, redactKey, redactSecrets } from './api-keys';
+import { CircuitBreaker, CircuitOpenError, isCallerError } from './circuit-breaker';
+import type { CircuitState } from './circuit-breaker';
+import { createKeyHealthStore, keyId } from './key-health-store';
+import type { KeyHealthEntry, KeyHealthStore } from './key-health-store';
+import { isOverQuota, nextUsageDay, parseQuotaLimit, usageDay } from './usage-quota';
+import type { DailyUsage, QuotaLimits } from './usage-quota';
 
 interface KeyHealth {
+    key: string;
+    // Hash of the key, used to share health without sharing the key
+    id: string;
+    // Opens after repeated failures; half-open lets one probe request through
+    breaker: CircuitBreaker;
+    lastSuccess?: Date;
+    // Rate limited: skipped until this time (ms since epoch)
+    cooldownUntil?: number;
+    requestCount: number;
+    lastLatencyMs?: number;
+    // Exponentially weighted, so recent calls count most
+    avgLatencyMs?: number;
+    // Requests left in the provider's current quota window, when it reports it
+    remainingQuota?: number;
+    // Counted against the daily budget by this instance
+    usage: Pick<DailyUsage, 'day' | 'requests' | 'tokens'>;
+    // Last local or shared outcome, to tell which side is newer
+    updatedAt: number;
+    // Last write to the shared store
+    persistedAt: number;
+}
+
+// How a key is picked among the available ones
+export type KeySelectionStrategy = 'round_robin' | 'least_latency' | 'quota_weighted';
+
+// What a failed call says about the key that made it
+export type KeyErrorClass = 'rate_limited' | 'auth' | 'caller' | 'server';
+
+export interface KeyFailure {
+    status?: number;
+    // From the Retry-After header on rate-limit responses
+    retryAfterMs?: number;
+}
+
+export interface KeySuccess {
+    latencyMs?: number;
+    remainingQuota?: number;
+    // Prompt and completion tokens the call used
+    tokens?: number;
+}
+
+// Health and latency of one key, safe to log or return from an API
+export interface KeyStats {
     key: string;
     healthy: boolean;
+    circuit: CircuitState;
+    coolingDown: boolean;
+    cooldownUntil?: string;
     errorCount: number;
-    lastError?: Date;
-    lastSuccess?: Date;
+    requestCount: number;
+    lastLatencyMs?: number;
+    avgLatencyMs?: number;
+    remainingQuota?: number;
+    dailyRequests: number;
+    dailyTokens: number;
+    overBudget: boolean;
+}
+
+export interface LoadBalancerOptions {
+    strategy?: KeySelectionStrategy;
+    // How often a key source is re-read to pick up rotated keys
+    reloadIntervalMs?: number;
+    // Injected for deterministic weighted selection in tests
+    random?: () => number;
+    // Shares outcomes with other instances; defaults to KEY_HEALTH_STORE
+    healthStore?: KeyHealthStore;
+    // Per key, per UTC day; defaults to KEY_DAILY_REQUEST_LIMIT and KEY_DAILY_TOKEN_LIMIT
+    dailyBudget?: QuotaLimits;
 }
 
-const API_KEYS = [
-    'csk-c9ddc69fd3pk9jj3py24jmhydft6c2ymmdk59tyt6em6derc',
-    'csk-nrtfnn56xmvkyckdt9nwn3rh8ef8vwx9xxktvxwmk6yxw566',
-    'csk-hrtwc24p9mtw48m4dmvf95j4xx539nth4y63wxympjhkdhfp',
-    'csk-4r22m82n6pve9ywhd9hkpdneek6t52keethr5dn66jpw6fyw',
-    'csk-wp589vwjn2hfhnxhv9rwyj54tnpexc6yfxev5en9x6ffej5m',
-    'csk-6232phepe8nxn25vrwjenf2p9mpke9txvw6pjjd6jx8reh2n',
-    'csk-4f9vfnrkmd898h5dyr98y8j2ftnjhvhee322mvy8tmhnfthh',
-    'csk-mennk8jmdnxptr4r56xv9mc95t9vwjpwhhnr54jhp4382wjt',
-];
+// Returns the current key set; re-read periodically when the balancer is built from one
+export type KeySource = () => string[];
+
+export class KeysRateLimitedError extends Error {
+    constructor(public readonly retryAfterMs: number) {
+        super(`All API keys are rate limited; retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+        this.name = 'KeysRateLimitedError';
+    }
+}
+
+// Cerebras keys, comma separated, or one per line in CEREBRAS_API_KEYS_FILE
+const CEREBRAS_KEYS_ENV = 'CEREBRAS_API_KEYS';
+
+// Cooldown for a 429 that does not say how long to wait
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 60000;
+// Never trust a Retry-After longer than this
+const MAX_RATE_LIMIT_COOLDOWN_MS = 15 * 60 * 1000;
+const KEY_RELOAD_INTERVAL_MS = 5 * 60 * 1000;
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+// How often shared health is read, and routine successes are written
+const HEALTH_SYNC_INTERVAL_MS = 5000;
+
+const KEY_SELECTION_STRATEGIES: KeySelectionStrategy[] = ['round_robin', 'least_latency', 'quota_weighted'];
 
-const ERROR_THRESHOLD = 3;
-const RECOVERY_TIME_MS = 60000; // 1 minute
+/**
+ * Parse the selection strategy, e.g. KEY_SELECTION_STRATEGY="least_latency".
+ * Unknown values fall back to round-robin.
+ */
+export function parseKeySelectionStrategy(config: string | undefined): KeySelectionStrategy {
+    const strategy = config?.trim().toLowerCase().replace(/-/g, '_');
+    return KEY_SELECTION_STRATEGIES.find((s) => s === strategy) ?? 'round_robin';
+}
+
+/**
+ * Classify a failed call. Requests the provider rejected as malformed say
+ * nothing about the key, so they are not held against it.
+ */
+export function classifyKeyError(status?: number): KeyErrorClass {
+    if (status === 429) return 'rate_limited';
+    if (status === 401 || status === 403) return 'auth';
+    if (isCallerError(status)) return 'caller';
+    // 5xx, or no response at all
+    return 'server';
+}
+
+/** Milliseconds to wait from a Retry-After header (seconds or an HTTP date) */
+export function parseRetryAfter(header: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!header) return undefined;
+
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return seconds >= 0 ? seconds * 1000 : undefined;
+    }
+
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+function newKeyHealth(key: string): KeyHealth {
+    return {
+        key,
+        id: keyId(key),
+        breaker: new CircuitBreaker(),
+        requestCount: 0,
+        usage: { day: usageDay(Date.now()), requests: 0, tokens: 0 },
+        updatedAt: 0,
+        persistedAt: 0,
+    };
+}
 
 class LoadBalancer {
-    private keys: KeyHealth[];
-    private currentIndex: number;
-
-    constructor(apiKeys: string[] = API_KEYS) {
-        this.keys = apiKeys.map((key) => ({
-            key,
-            healthy: true,
-            errorCount: 0,
-        }));
-        this.currentIndex = 0;
+    private keys: KeyHealth[] = [];
+    private currentIndex = 0;
+    private source?: KeySource;
+    private lastReload = 0;
+    private strategy: KeySelectionStrategy;
+    private reloadIntervalMs: number;
+    private random: () => number;
+    private healthStore?: KeyHealthStore;
+    private lastSync = 0;
+    private dailyBudget: QuotaLimits;
+
+    constructor(
+        apiKeys: string[] | KeySource = () => loadApiKeys(CEREBRAS_KEYS_ENV),
+        options: LoadBalancerOptions = {}
+    ) {
+        this.strategy = options.strategy ?? parseKeySelectionStrategy(process.env.KEY_SELECTION_STRATEGY);
+        this.reloadIntervalMs = options.reloadIntervalMs ?? KEY_RELOAD_INTERVAL_MS;
+        this.random = options.random ?? Math.random;
+        this.healthStore = 'healthStore' in options ? options.healthStore : createKeyHealthStore();
+        this.dailyBudget = options.dailyBudget ?? {
+            requests: parseQuotaLimit(process.env.KEY_DAILY_REQUEST_LIMIT),
+            tokens: parseQuotaLimit(process.env.KEY_DAILY_TOKEN_LIMIT),
+        };
+
+        if (typeof apiKeys === 'function') {
+            this.source = apiKeys;
+            this.reloadKeys();
+        } else {
+            this.setKeys(apiKeys);
+        }
     }
 
-    getNextKey(): string {
-        // Try to find a healthy key using round-robin
-        const startIndex = this.currentIndex;
-        let attempts = 0;
+    /**
+     * Swap in a new key set. Keys kept across the rotation keep their health;
+     * an empty set is refused so a bad rotation cannot take the provider down.
+     */
+    setKeys(apiKeys: string[]): void {
+        const unique = [...new Set(apiKeys.filter(Boolean))];
+        if (unique.length === 0 && this.keys.length > 0) {
+            throw new Error('Refusing to rotate to an empty API key set');
+        }
 
-        while (attempts < this.keys.length) {
-            const keyHealth = this.keys[this.currentIndex];
-            this.currentIndex = (this.currentIndex + 1) % this.keys.length;
+        const previous = new Map(this.keys.map((k) => [k.key, k]));
+        this.keys = unique.map((key) => previous.get(key) ?? newKeyHealth(key));
+        this.currentIndex = this.keys.length > 0 ? this.currentIndex % this.keys.length : 0;
+    }
 
-            // Check if key should be recovered
-            if (!keyHealth.healthy && keyHealth.lastError) {
-                const timeSinceError = Date.now() - keyHealth.lastError.getTime();
-                if (timeSinceError > RECOVERY_TIME_MS) {
-                    keyHealth.healthy = true;
-                    keyHealth.errorCount = 0;
-                }
+    /**
+     * Re-read the key source. A failed or empty read keeps the current keys.
+     * Returns the number of keys in use afterwards.
+     */
+    reloadKeys(): number {
+        if (!this.source) return this.keys.length;
+        this.lastReload = Date.now();
+
+        try {
+            const keys = this.source();
+            if (keys.length > 0 || this.keys.length === 0) {
+                this.setKeys(keys);
+            } else {
+                console.warn('API key source returned no keys, keeping the current set');
             }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error('API key reload error:', redactSecrets(message));
+        }
+
+        return this.keys.length;
+    }
+
+    /**
+     * Pull outcomes other instances reported since the last sync, at most
+     * once per sync interval. Newer shared entries replace local state.
+     */
+    async syncHealth(): Promise<void> {
+        const now = Date.now();
+        if (!this.healthStore || now - this.lastSync < HEALTH_SYNC_INTERVAL_MS) return;
+        this.lastSync = now;
 
-            if (keyHealth.healthy) {
-                return keyHealth.key;
+        const shared = await this.healthStore.load(this.keys.map((k) => k.id));
+        for (const keyHealth of this.keys) {
+            const entry = shared.get(keyHealth.id);
+            if (entry && entry.updatedAt > keyHealth.updatedAt) {
+                this.applyShared(keyHealth, entry);
             }
+        }
+    }
 
-            attempts++;
+    getNextKey(): string {
+        if (this.source && Date.now() - this.lastReload > this.reloadIntervalMs) {
+            this.reloadKeys();
+        }
+        if (this.keys.length === 0) {
+            throw new MissingApiKeysError(CEREBRAS_KEYS_ENV);
         }
 
-        // All keys unhealthy, reset and return first key
-        this.resetAllKeys();
-        return this.keys[startIndex].key;
+        const now = Date.now();
+        const ready = this.keys.filter((k) => this.unavailableForMs(k, now) === 0 && k.breaker.canRequest());
+        const closed = ready.filter((k) => k.breaker.getState() === 'closed');
+
+        // Closed keys take traffic; a half-open key only gets its single probe
+        // when there is nothing better
+        const chosen = closed.length > 0
+            ? this.select(closed)
+            : ready.find((k) => k.breaker.tryAcquire());
+
+        if (!chosen) {
+            // Calling a rate-limited key only earns another 429, and a spent
+            // budget stays spent until tomorrow; let the caller fail over
+            const waits = this.keys.map((k) => this.unavailableForMs(k, now));
+            if (waits.every((ms) => ms > 0)) {
+                throw new KeysRateLimitedError(Math.min(...waits));
+            }
+            const retryAfterMs = Math.min(...this.keys.map((k) => k.breaker.retryAfterMs()));
+            throw new CircuitOpenError('every API key', retryAfterMs);
+        }
+
+        chosen.requestCount++;
+        this.usageToday(chosen, now).requests++;
+        return chosen.key;
     }
 
-    reportError(key: string): void {
+    /** Record a failure; resolves once it is shared with other instances */
+    reportError(key: string, failure: KeyFailure = {}): Promise<void> {
         const keyHealth = this.keys.find((k) => k.key === key);
-        if (keyHealth) {
-            keyHealth.errorCount++;
-            keyHealth.lastError = new Date();
+        if (!keyHealth) return Promise.resolve();
 
-            if (keyHealth.errorCount >= ERROR_THRESHOLD) {
-                keyHealth.healthy = false;
+        switch (classifyKeyError(failure.status)) {
+            case 'caller':
+                keyHealth.breaker.release();
+                return Promise.resolve();
+            case 'rate_limited': {
+                const cooldownMs = Math.min(
+                    failure.retryAfterMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS,
+                    MAX_RATE_LIMIT_COOLDOWN_MS
+                );
+                keyHealth.cooldownUntil = Date.now() + cooldownMs;
+                keyHealth.remainingQuota = 0;
+                keyHealth.breaker.release();
+                return this.persist(keyHealth);
             }
+            case 'auth':
+                // A rejected key will not start working by retrying it
+                keyHealth.breaker.recordFailure(true);
+                break;
+            case 'server':
+                keyHealth.breaker.recordFailure();
+                break;
         }
+
+        return this.persist(keyHealth);
     }
 
-    reportSuccess(key: string): void {
+    /** The request was cancelled; frees the key's probe without judging it */
+    reportCancelled(key: string): void {
+        this.keys.find((k) => k.key === key)?.breaker.release();
+    }
+
+    /**
+     * Record a success. Routine successes are shared at most once per sync
+     * interval; one that clears errors is shared right away.
+     */
+    reportSuccess(key: string, success: KeySuccess = {}): Promise<void> {
         const keyHealth = this.keys.find((k) => k.key === key);
         if (keyHealth) {
-            keyHealth.healthy = true;
-            keyHealth.errorCount = 0;
+            const recovered = keyHealth.breaker.snapshot().failures > 0 || keyHealth.breaker.getState() !== 'closed';
+            keyHealth.breaker.recordSuccess();
             keyHealth.lastSuccess = new Date();
+
+            if (success.latencyMs !== undefined) {
+                keyHealth.lastLatencyMs = success.latencyMs;
+                keyHealth.avgLatencyMs = keyHealth.avgLatencyMs === undefined
+                    ? success.latencyMs
+                    : LATENCY_SMOOTHING * success.latencyMs + (1 - LATENCY_SMOOTHING) * keyHealth.avgLatencyMs;
+            }
+            if (success.remainingQuota !== undefined) {
+                keyHealth.remainingQuota = success.remainingQuota;
+            }
+            if (success.tokens !== undefined) {
+                this.usageToday(keyHealth, Date.now()).tokens += success.tokens;
+            }
+
+            if (recovered || Date.now() - keyHealth.persistedAt >= HEALTH_SYNC_INTERVAL_MS) {
+                return this.persist(keyHealth);
+            }
+            keyHealth.updatedAt = Date.now();
         }
+        return Promise.resolve();
     }
 
+    getKeyCount(): number {
+        return this.keys.length;
+    }
+
+    /** Keys that can take a request right now: circuit closed, not rate limited, within budget */
     getHealthyKeyCount(): number {
-        return this.keys.filter((k) => k.healthy).length;
+        const now = Date.now();
+        return this.keys.filter((k) => k.breaker.getState() === 'closed' && this.unavailableForMs(k, now) === 0).length;
+    }
+
+    getStrategy(): KeySelectionStrategy {
+        return this.strategy;
+    }
+
+    getDailyBudget(): QuotaLimits {
+        return { ...this.dailyBudget };
+    }
+
+    /** Per-key health and latency, with keys redacted */
+    getKeyStats(): KeyStats[] {
+        const now = Date.now();
+        return this.keys.map((k) => ({
+            key: redactKey(k.key),
+            healthy: k.breaker.getState() === 'closed',
+            circuit: k.breaker.getState(),
+            coolingDown: this.isCoolingDown(k, now),
+            cooldownUntil: this.isCoolingDown(k, now) ? new Date(k.cooldownUntil!).toISOString() : undefined,
+            errorCount: k.breaker.snapshot().failures,
+            requestCount: k.requestCount,
+            lastLatencyMs: k.lastLatencyMs,
+            avgLatencyMs: k.avgLatencyMs === undefined ? undefined : Math.round(k.avgLatencyMs),
+            remainingQuota: k.remainingQuota,
+            dailyRequests: this.usageToday(k, now).requests,
+            dailyTokens: this.usageToday(k, now).tokens,
+            overBudget: this.isOverBudget(k, now),
+        }));
+    }
+
+    private select(available: KeyHealth[]): KeyHealth {
+        switch (this.strategy) {
+            case 'least_latency':
+                return this.selectLeastLatency(available);
+            case 'quota_weighted':
+                return this.selectByQuota(available);
+            default:
+                return this.selectRoundRobin(available);
+        }
+    }
+
+    // Next available key after the last one handed out
+    private selectRoundRobin(available: KeyHealth[]): KeyHealth {
+        for (let attempts = 0; attempts < this.keys.length; attempts++) {
+            const keyHealth = this.keys[this.currentIndex];
+            this.currentIndex = (this.currentIndex + 1) % this.keys.length;
+            if (available.includes(keyHealth)) {
+                return keyHealth;
+            }
+        }
+        return available[0];
+    }
+
+    // Untried keys first so every key gets measured, then the fastest
+    private selectLeastLatency(available: KeyHealth[]): KeyHealth {
+        const untried = available.filter((k) => k.avgLatencyMs === undefined);
+        if (untried.length > 0) {
+            return this.selectRoundRobin(untried);
+        }
+        return available.reduce((best, k) => (k.avgLatencyMs! < best.avgLatencyMs! ? k : best));
+    }
+
+    // Random pick weighted by remaining quota; keys with unknown quota get the average weight
+    private selectByQuota(available: KeyHealth[]): KeyHealth {
+        const known = available.filter((k) => k.remainingQuota !== undefined);
+        const fallbackWeight = known.length > 0
+            ? known.reduce((sum, k) => sum + k.remainingQuota!, 0) / known.length
+            : 1;
+        const weights = available.map((k) => k.remainingQuota ?? fallbackWeight);
+        const total = weights.reduce((sum, w) => sum + w, 0);
+        if (total <= 0) {
+            return this.selectRoundRobin(available);
+        }
+
+        let target = this.random() * total;
+        for (let i = 0; i < available.length; i++) {
+            target -= weights[i];
+            if (target < 0) return available[i];
+        }
+        return available[available.length - 1];
     }
 
-    private resetAllKeys(): void {
-        this.keys.forEach((k) => {
-            k.healthy = true;
-            k.errorCount = 0;
+    private persist(keyHealth: KeyHealth): Promise<void> {
+        keyHealth.updatedAt = Date.now();
+        if (!this.healthStore) return Promise.resolve();
+
+        keyHealth.persistedAt = keyHealth.updatedAt;
+        const circuit = keyHealth.breaker.snapshot();
+        return this.healthStore.save({
+            keyId: keyHealth.id,
+            healthy: circuit.state === 'closed',
+            errorCount: circuit.failures,
+            lastErrorAt: circuit.lastFailureAt,
+            cooldownUntil: keyHealth.cooldownUntil,
+            remainingQuota: keyHealth.remainingQuota,
+            avgLatencyMs: keyHealth.avgLatencyMs,
+            updatedAt: keyHealth.updatedAt,
         });
     }
+
+    private applyShared(keyHealth: KeyHealth, entry: KeyHealthEntry): void {
+        keyHealth.breaker.restore({ open: !entry.healthy, failures: entry.errorCount, lastFailureAt: entry.lastErrorAt });
+        keyHealth.cooldownUntil = entry.cooldownUntil;
+        keyHealth.remainingQuota = entry.remainingQuota ?? keyHealth.remainingQuota;
+        keyHealth.avgLatencyMs = keyHealth.avgLatencyMs ?? entry.avgLatencyMs;
+        keyHealth.updatedAt = entry.updatedAt;
+    }
+
+    private isCoolingDown(keyHealth: KeyHealth, now: number): boolean {
+        return keyHealth.cooldownUntil !== undefined && keyHealth.cooldownUntil > now;
+    }
+
+    // Today's usage, started afresh when the UTC day changes
+    private usageToday(keyHealth: KeyHealth, now: number): KeyHealth['usage'] {
+        const day = usageDay(now);
+        if (keyHealth.usage.day !== day) {
+            keyHealth.usage = { day, requests: 0, tokens: 0 };
+        }
+        return keyHealth.usage;
+    }
+
+    private isOverBudget(keyHealth: KeyHealth, now: number): boolean {
+        return isOverQuota(this.usageToday(keyHealth, now), this.dailyBudget);
+    }
+
+    // How long until the key may be used again; 0 when it can be used now
+    private unavailableForMs(keyHealth: KeyHealth, now: number): number {
+        const cooldownMs = this.isCoolingDown(keyHealth, now) ? keyHealth.cooldownUntil! - now : 0;
+        const budgetMs = this.isOverBudget(keyHealth, now) ? nextUsageDay(now).getTime() - now : 0;
+        return Math.max(cooldownMs, budgetMs);
+    }
 }
 
 // Singleton instance
 export const loadBalancer = new LoadBalancer();
 
 // Export class for testing
-export { LoadBalancer, API_KEYS };
+export {
+    LoadBalancer,
+    CEREBRAS_KEYS_ENV,
+    KEY_RELOAD_INTERVAL_MS,
+    DEFAULT_RATE_LIMIT_COOLDOWN_MS,
+    KEY_SELECTION_STRATEGIES,
+    HEALTH_SYNC_INTERVAL_MS,
+};
@@ -2,7 +2,10 @@
 // Comprehensive tracing and evaluation for AI interactions
 
 import { Opik } from 'opik';
-import type { ProductInfo, AnalysisResult, UserProfile, TraceMetadata } from './types';
+import { longestProjection } from './opportunity-cost';
+import { DEFAULT_PROMPT_VERSION } from './prompt-registry';
+import type { ProductInfo, AnalysisResult, UserProfile, TraceMetadata, Intervention, Reflection } from './types';
+import type { CartSummary } from './batch-analyzer';
 
 // Initialize Opik client
 const opikClient = new Opik({
@@ -27,7 +30,8 @@ export class OpikTracker {
     startAnalysisTrace(
         product: ProductInfo,
         userId: string,
-        sessionId: string
+        sessionId: string,
+        promptVersion: string = DEFAULT_PROMPT_VERSION
     ): TraceContext {
         const startTime = Date.now();
 
@@ -47,7 +51,7 @@ export class OpikTracker {
                 userId,
                 sessionId,
                 productUrl: product.url,
-                promptVersion: 'v1.0',
+                promptVersion,
             },
         });
 
@@ -77,12 +81,81 @@ export class OpikTracker {
                 essentialityScore: analysis.essentialityScore,
                 suggestedAction: analysis.suggestedAction,
                 warningCount: analysis.warnings.length,
-                opportunityCost20yr: analysis.opportunityCost.projections.years20,
+                opportunityCostYears: longestProjection(analysis.opportunityCost).years,
+                opportunityCostProjected: longestProjection(analysis.opportunityCost).nominal,
             },
             metadata: {
                 ...metadata,
                 latencyMs,
-                modelVersion: 'qwen-3-235b-a22b-instruct-2507',
+                provider: metadata.provider || 'none',
+                modelVersion: metadata.modelVersion || 'none',
+            },
+        });
+
+        trace.end();
+        await this.client.flush();
+    }
+
+    // Log a cart analysis
+    async logBatchAnalysis(
+        userId: string,
+        sessionId: string,
+        summary: CartSummary,
+        metadata: { latencyMs: number; promptVersion: string; cacheHits: number; costUsd: number }
+    ): Promise<void> {
+        const trace = this.client.trace({
+            name: 'batch-analysis',
+            input: {
+                itemCount: summary.itemCount,
+                total: summary.total,
+                currency: summary.currency,
+            },
+            output: {
+                overBudget: summary.overBudget,
+                budgetShare: summary.budgetShare,
+                dropCandidateCount: summary.dropCandidates.length,
+                opportunityCostYears: longestProjection(summary.opportunityCost).years,
+                opportunityCostProjected: longestProjection(summary.opportunityCost).nominal,
+                recurringOpportunityCostProjected: summary.recurringOpportunityCost
+                    ? longestProjection(summary.recurringOpportunityCost).nominal
+                    : undefined,
+            },
+            metadata: {
+                userId,
+                sessionId,
+                ...metadata,
+            },
+        });
+
+        trace.end();
+        await this.client.flush();
+    }
+
+    // Log one turn of a reflection conversation
+    async logReflectionTurn(
+        userId: string,
+        sessionId: string,
+        intervention: Intervention,
+        reflection: Reflection
+    ): Promise<void> {
+        const trace = this.client.trace({
+            name: 'reflection-turn',
+            input: {
+                productName: intervention.productInfo.name,
+                originalAction: intervention.analysisResult.suggestedAction,
+                questionsAsked: reflection.questionsAsked,
+            },
+            output: {
+                completed: reflection.completed,
+                revisedAction: reflection.revisedAction || 'none',
+                actionChanged: !!reflection.revisedAction &&
+                    reflection.revisedAction !== intervention.analysisResult.suggestedAction,
+            },
+            metadata: {
+                userId,
+                sessionId,
+                interventionId: intervention.id,
+                promptVersion: intervention.promptVersion || 'unknown',
             },
         });
 
@@ -96,7 +169,8 @@ export class OpikTracker {
         sessionId: string,
         action: 'dismissed' | 'cooldown_started' | 'proceeded',
         product?: ProductInfo,
-        analysis?: AnalysisResult
+        analysis?: AnalysisResult,
+        promptVersion?: string
     ): Promise<void> {
         const trace = this.client.trace({
             name: 'user-engagement',
@@ -118,6 +192,7 @@ export class OpikTracker {
                 sessionId,
                 essentialityScore: analysis?.essentialityScore || 0,
                 warningCount: analysis?.warnings?.length || 0,
+                promptVersion: promptVersion || 'unknown',
             },
         });
 
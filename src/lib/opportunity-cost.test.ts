@@ -1,5 +1,8 @@
 // Feature: second-thought, Property 3: Opportunity Cost Calculation Correctness
 // Feature: second-thought, Property 4: Currency Formatting Correctness
+// Feature: second-thought, Property 36: Configurable Projection Consistency
+// Feature: second-thought, Property 37: Simulated Range Ordering
+// Feature: second-thought, Property 38: Recurring Cost Annuity Value
 // Validates: Requirements 3.1, 3.2, 3.3
 
 import { describe, it, expect } from 'vitest';
@@ -7,12 +10,26 @@ import * as fc from 'fast-check';
 import {
     calculateOpportunityCost,
     formatCurrency,
+    generateComparisonMessage,
+    projectRecurringValue,
+    resolveAssumptions,
+    simulateRanges,
+    validateOpportunityCostSettings,
     ANNUAL_GROWTH_RATE,
 } from './opportunity-cost';
+import type { OpportunityCostAssumptions } from './types';
 
 // Use integer cents and convert to dollars for better precision
 const priceArbitrary = fc.integer({ min: 1, max: 10000000 }).map((cents) => cents / 100);
 
+const assumptionsArbitrary: fc.Arbitrary<OpportunityCostAssumptions> = fc.record({
+    annualGrowthRate: fc.integer({ min: 0, max: 30 }).map((n) => n / 100),
+    annualInflationRate: fc.integer({ min: 0, max: 20 }).map((n) => n / 100),
+    contributionTiming: fc.constantFrom('start' as const, 'end' as const),
+    horizons: fc.uniqueArray(fc.integer({ min: 1, max: 50 }), { minLength: 1, maxLength: 5 })
+        .map((years) => years.sort((a, b) => a - b)),
+});
+
 describe('Opportunity Cost Calculator', () => {
     // Property 3: Opportunity Cost Calculation Correctness
     describe('Property 3: Calculation Correctness', () => {
@@ -126,6 +143,128 @@ describe('Opportunity Cost Calculator', () => {
         });
     });
 
+    // Property 36: Configurable Projection Consistency
+    describe('Property 36: Configurable Projection Consistency', () => {
+        it('should project every horizon with the given assumptions, never worth more in today\'s money', () => {
+            fc.assert(
+                fc.property(priceArbitrary, assumptionsArbitrary, (price, assumptions) => {
+                    const result = calculateOpportunityCost(price, 'USD', assumptions);
+
+                    expect(result.horizons?.map((h) => h.years)).toEqual(assumptions.horizons);
+                    expect(result.assumptions).toEqual(assumptions);
+                    for (const h of result.horizons ?? []) {
+                        const years = assumptions.contributionTiming === 'end' ? h.years - 1 : h.years;
+                        const expected = price * Math.pow(1 + assumptions.annualGrowthRate, years);
+                        expect(Math.abs(h.nominal - expected)).toBeLessThan(0.01);
+                        expect(h.real).toBeLessThanOrEqual(h.nominal);
+                        expect(result.projections[`years${h.years}`]).toBe(h.nominal);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Property 37: Simulated Range Ordering
+    describe('Property 37: Simulated Range Ordering', () => {
+        it('should give ordered bands that are the same for the same seed', () => {
+            fc.assert(
+                fc.property(
+                    priceArbitrary,
+                    assumptionsArbitrary,
+                    fc.integer({ min: 1, max: 50 }).map((n) => n / 100),
+                    fc.nat(),
+                    (price, assumptions, volatility, seed) => {
+                        const simulation = { volatility, trials: 200, seed };
+                        const ranges = simulateRanges(price, assumptions, simulation);
+
+                        expect(simulateRanges(price, assumptions, simulation)).toEqual(ranges);
+                        expect(ranges).toHaveLength(assumptions.horizons.length);
+                        for (const range of ranges) {
+                            expect(range.p10).toBeLessThanOrEqual(range.p50);
+                            expect(range.p50).toBeLessThanOrEqual(range.p90);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should collapse to the fixed projection without volatility', () => {
+            fc.assert(
+                fc.property(priceArbitrary, assumptionsArbitrary, (price, assumptions) => {
+                    const simulated = calculateOpportunityCost(price, 'USD', {
+                        ...assumptions,
+                        simulation: { volatility: 0, trials: 10, seed: 1 },
+                    });
+
+                    for (const h of simulated.horizons ?? []) {
+                        expect(Math.abs(h.range!.p10 - h.nominal)).toBeLessThan(0.015);
+                        expect(Math.abs(h.range!.p90 - h.nominal)).toBeLessThan(0.015);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 50 }
+            );
+        });
+    });
+
+    // Property 38: Recurring Cost Annuity Value
+    describe('Property 38: Recurring Cost Annuity Value', () => {
+        it('should equal every payment compounded on its own', () => {
+            fc.assert(
+                fc.property(
+                    priceArbitrary,
+                    fc.constantFrom('weekly' as const, 'monthly' as const, 'annual' as const),
+                    fc.integer({ min: 1, max: 30 }),
+                    assumptionsArbitrary,
+                    (payment, billingPeriod, years, assumptions) => {
+                        const periods = { weekly: 52, monthly: 12, annual: 1 }[billingPeriod];
+                        const periodGrowth = Math.pow(1 + assumptions.annualGrowthRate, 1 / periods);
+                        const offset = assumptions.contributionTiming === 'start' ? 0 : 1;
+
+                        let expected = 0;
+                        for (let k = 0; k < periods * years; k++) {
+                            expected += payment * Math.pow(periodGrowth, periods * years - k - offset);
+                        }
+
+                        const value = projectRecurringValue(payment, billingPeriod, years, assumptions);
+                        expect(Math.abs(value - expected) / expected).toBeLessThan(1e-9);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should never be worth less than what was paid', () => {
+            fc.assert(
+                fc.property(
+                    priceArbitrary,
+                    fc.constantFrom('weekly' as const, 'monthly' as const, 'annual' as const),
+                    assumptionsArbitrary,
+                    (price, billingPeriod, assumptions) => {
+                        const result = calculateOpportunityCost(price, 'USD', assumptions, billingPeriod);
+
+                        for (const h of result.horizons ?? []) {
+                            expect(h.totalPaid).toBeCloseTo(result.recurring!.annualCost * h.years, 2);
+                            expect(h.nominal).toBeGreaterThanOrEqual(h.totalPaid! - 0.01);
+                        }
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
     // Unit tests for specific examples
     describe('Unit Tests', () => {
         it('should calculate $100 correctly', () => {
@@ -144,6 +283,90 @@ describe('Opportunity Cost Calculator', () => {
             const result = calculateOpportunityCost(100);
             expect(result.comparisonText).toContain('$100.00');
             expect(result.comparisonText).toContain('20 years');
+            expect(result.comparisonText).toContain("today's money");
+        });
+
+        it('should take assumptions from the profile, defaulting anything unset or out of range', () => {
+            expect(resolveAssumptions({
+                investmentGrowthRate: 0.05,
+                inflationRate: 0.5,
+                contributionTiming: 'end',
+                projectionHorizons: [30, 1, 30],
+            })).toEqual({
+                annualGrowthRate: 0.05,
+                annualInflationRate: 0.03,
+                contributionTiming: 'end',
+                horizons: [1, 30],
+            });
+            expect(resolveAssumptions(undefined).horizons).toEqual([5, 10, 20]);
+        });
+
+        it('should simulate only in monte_carlo mode', () => {
+            expect(resolveAssumptions({ projectionMode: 'fixed', returnVolatility: 0.2 }).simulation).toBeUndefined();
+            expect(resolveAssumptions({ projectionMode: 'monte_carlo' }).simulation).toEqual({ volatility: 0.15, trials: 500, seed: 1 });
+            expect(resolveAssumptions({ projectionMode: 'monte_carlo', returnVolatility: 0.25 }).simulation?.volatility).toBe(0.25);
+        });
+
+        it('should phrase simulated results as a range', () => {
+            const result = calculateOpportunityCost(100, 'USD', resolveAssumptions({ projectionMode: 'monte_carlo' }));
+            const { p10, p50, p90 } = result.horizons![2].range!;
+
+            expect(p10).toBeLessThan(result.projections.years20);
+            expect(p90).toBeGreaterThan(result.projections.years20);
+            expect(result.comparisonText).toContain(`between ${formatCurrency(p10)} and ${formatCurrency(p90)} in 20 years`);
+            expect(result.comparisonText).toContain(`median ${formatCurrency(p50)}`);
+        });
+
+        it('should present the annualized and lifetime cost of a subscription', () => {
+            const result = calculateOpportunityCost(15, 'USD', undefined, 'monthly');
+
+            expect(result.recurring).toEqual({ billingPeriod: 'monthly', annualCost: 180 });
+            expect(result.horizons?.[2].totalPaid).toBe(3600);
+            expect(result.projections.years20).toBeGreaterThan(3600);
+            expect(result.comparisonText).toContain('Paying $15.00 a month adds up to $180.00 a year and $3,600.00 over 20 years');
+        });
+
+        it('should treat an unknown billing period as a one-time price', () => {
+            const result = calculateOpportunityCost(15, 'USD', undefined, 'daily' as never);
+
+            expect(result.recurring).toBeUndefined();
+            expect(result.projections).toEqual(calculateOpportunityCost(15).projections);
+        });
+
+        it('should reject out-of-range settings', () => {
+            expect(validateOpportunityCostSettings({ investmentGrowthRate: 0.06, projectionHorizons: [10, 40] })).toBeNull();
+            expect(validateOpportunityCostSettings({ investmentGrowthRate: 7 })).toContain('investmentGrowthRate');
+            expect(validateOpportunityCostSettings({ inflationRate: -0.01 })).toContain('inflationRate');
+            expect(validateOpportunityCostSettings({ projectionHorizons: [] })).toContain('projectionHorizons');
+            expect(validateOpportunityCostSettings({ projectionHorizons: [2.5] })).toContain('projectionHorizons');
+            expect(validateOpportunityCostSettings({ projectionMode: 'random' as never })).toContain('projectionMode');
+            expect(validateOpportunityCostSettings({ returnVolatility: 0.9 })).toContain('returnVolatility');
+        });
+
+        it('should accept null to clear each setting back to its default', () => {
+            expect(validateOpportunityCostSettings({
+                investmentGrowthRate: null,
+                inflationRate: null,
+                contributionTiming: null,
+                projectionHorizons: null,
+                projectionMode: null,
+                returnVolatility: null,
+            })).toBeNull();
+        });
+
+        it('should show $100 in today\'s money after 20 years at 3% inflation', () => {
+            const result = calculateOpportunityCost(100);
+            expect(result.horizons?.[2].real).toBeCloseTo(386.97 / Math.pow(1.03, 20), 1);
+        });
+
+        it('should compare against the longest horizon in the message', () => {
+            const assumptions = resolveAssumptions({ projectionHorizons: [5, 30] });
+            const message = generateComparisonMessage(100, 'USD', assumptions);
+
+            expect(generateComparisonMessage(100)).toContain('$386.97 in 20 years');
+            expect(message).toContain(`${formatCurrency(calculateOpportunityCost(100, 'USD', assumptions).projections.years30)} in 30 years`);
+            expect(message).not.toContain('undefined');
+            expect(message).not.toContain('NaN');
         });
     });
 });
@@ -1,79 +1,400 @@
 // Opportunity Cost Calculator
-// Calculates potential investment returns at 7% annual growth
+// Projects what the money could grow to if invested instead, in nominal terms
+// and in today's money. Growth, inflation, contribution timing and horizons
+// come from the user's profile, with defaults of 7% growth and 3% inflation.
+// In monte_carlo mode, simulated returns give a range for each horizon.
+// Subscriptions are projected as a stream of payments kept up to each horizon.
 
-import type { OpportunityCost } from './types';
+import type {
+    BillingPeriod,
+    ContributionTiming,
+    OpportunityCost,
+    OpportunityCostAssumptions,
+    OpportunityCostProjection,
+    ProjectionMode,
+    ProjectionRange,
+    RecurringCost,
+    SimulationSettings,
+    UserProfile,
+    UserProfileUpdate,
+} from './types';
+import { currencyLocale } from './currency';
 
 const ANNUAL_GROWTH_RATE = 0.07;
+const ANNUAL_INFLATION_RATE = 0.03;
+const CONTRIBUTION_TIMINGS: ContributionTiming[] = ['start', 'end'];
+const PROJECTION_MODES: ProjectionMode[] = ['fixed', 'monte_carlo'];
+
+const PERIODS_PER_YEAR: Record<BillingPeriod, number> = {
+    weekly: 52,
+    monthly: 12,
+    annual: 1,
+};
+
+const PERIOD_LABELS: Record<BillingPeriod, string> = {
+    weekly: 'a week',
+    monthly: 'a month',
+    annual: 'a year',
+};
+
+const DEFAULT_ASSUMPTIONS: OpportunityCostAssumptions = {
+    annualGrowthRate: ANNUAL_GROWTH_RATE,
+    annualInflationRate: ANNUAL_INFLATION_RATE,
+    contributionTiming: 'start',
+    horizons: [5, 10, 20],
+};
+
+// A fixed seed, so the same purchase always shows the same range
+const DEFAULT_SIMULATION: SimulationSettings = {
+    volatility: 0.15,
+    trials: 500,
+    seed: 1,
+};
+
+// Bounds on profile settings; values outside them use the defaults
+const MAX_GROWTH_RATE = 0.3;
+const MAX_INFLATION_RATE = 0.2;
+const MAX_HORIZON_YEARS = 50;
+const MAX_HORIZONS = 5;
+const MAX_VOLATILITY = 0.5;
+
+type OpportunityCostSettingKey =
+    | 'investmentGrowthRate'
+    | 'inflationRate'
+    | 'contributionTiming'
+    | 'projectionHorizons'
+    | 'projectionMode'
+    | 'returnVolatility';
+
+type OpportunityCostSettings = Pick<UserProfile, OpportunityCostSettingKey>;
+
+// null clears a setting back to its default
+function isGiven<T>(value: T | null | undefined): value is T {
+    return value !== undefined && value !== null;
+}
+
+function isRate(value: unknown, max: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= max;
+}
+
+function isHorizonList(value: unknown): value is number[] {
+    return Array.isArray(value)
+        && value.length > 0
+        && value.length <= MAX_HORIZONS
+        && value.every((years) => Number.isInteger(years) && years >= 1 && years <= MAX_HORIZON_YEARS);
+}
+
+/**
+ * Check opportunity cost settings from a profile update. Returns an error
+ * message, or null when every given setting is valid; null clears a setting.
+ */
+export function validateOpportunityCostSettings(settings: Pick<UserProfileUpdate, OpportunityCostSettingKey>): string | null {
+    if (isGiven(settings.investmentGrowthRate) && !isRate(settings.investmentGrowthRate, MAX_GROWTH_RATE)) {
+        return `investmentGrowthRate must be between 0 and ${MAX_GROWTH_RATE}`;
+    }
+    if (isGiven(settings.inflationRate) && !isRate(settings.inflationRate, MAX_INFLATION_RATE)) {
+        return `inflationRate must be between 0 and ${MAX_INFLATION_RATE}`;
+    }
+    if (isGiven(settings.contributionTiming) && !CONTRIBUTION_TIMINGS.includes(settings.contributionTiming)) {
+        return `contributionTiming must be one of: ${CONTRIBUTION_TIMINGS.join(', ')}`;
+    }
+    if (isGiven(settings.projectionHorizons) && !isHorizonList(settings.projectionHorizons)) {
+        return `projectionHorizons must be 1 to ${MAX_HORIZONS} whole years between 1 and ${MAX_HORIZON_YEARS}`;
+    }
+    if (isGiven(settings.projectionMode) && !PROJECTION_MODES.includes(settings.projectionMode)) {
+        return `projectionMode must be one of: ${PROJECTION_MODES.join(', ')}`;
+    }
+    if (isGiven(settings.returnVolatility) && !isRate(settings.returnVolatility, MAX_VOLATILITY)) {
+        return `returnVolatility must be between 0 and ${MAX_VOLATILITY}`;
+    }
+    return null;
+}
+
+/** The profile's settings, with defaults for anything unset or out of range */
+export function resolveAssumptions(profile?: OpportunityCostSettings): OpportunityCostAssumptions {
+    return {
+        annualGrowthRate: isRate(profile?.investmentGrowthRate, MAX_GROWTH_RATE)
+            ? profile.investmentGrowthRate
+            : DEFAULT_ASSUMPTIONS.annualGrowthRate,
+        annualInflationRate: isRate(profile?.inflationRate, MAX_INFLATION_RATE)
+            ? profile.inflationRate
+            : DEFAULT_ASSUMPTIONS.annualInflationRate,
+        contributionTiming: profile?.contributionTiming && CONTRIBUTION_TIMINGS.includes(profile.contributionTiming)
+            ? profile.contributionTiming
+            : DEFAULT_ASSUMPTIONS.contributionTiming,
+        horizons: isHorizonList(profile?.projectionHorizons)
+            ? [...new Set(profile.projectionHorizons)].sort((a, b) => a - b)
+            : DEFAULT_ASSUMPTIONS.horizons,
+        ...(profile?.projectionMode === 'monte_carlo' && {
+            simulation: {
+                ...DEFAULT_SIMULATION,
+                volatility: isRate(profile.returnVolatility, MAX_VOLATILITY)
+                    ? profile.returnVolatility
+                    : DEFAULT_SIMULATION.volatility,
+            },
+        }),
+    };
+}
+
+/**
+ * Nominal future value of a one-time amount: P * (1 + r)^t. Invested at the
+ * end of the year, it compounds for one year less.
+ */
+export function projectValue(
+    amount: number,
+    years: number,
+    assumptions: Pick<OpportunityCostAssumptions, 'annualGrowthRate' | 'contributionTiming'> = DEFAULT_ASSUMPTIONS
+): number {
+    const compoundingYears = assumptions.contributionTiming === 'end' ? years - 1 : years;
+    return amount * Math.pow(1 + assumptions.annualGrowthRate, compoundingYears);
+}
+
+export function isBillingPeriod(value: unknown): value is BillingPeriod {
+    return typeof value === 'string' && Object.hasOwn(PERIODS_PER_YEAR, value);
+}
+
+/** What a price charged every billing period costs over a year */
+export function annualizeCost(price: number, billingPeriod: BillingPeriod): number {
+    return roundCents(price * PERIODS_PER_YEAR[billingPeriod]);
+}
 
 /**
- * Calculate compound interest: P * (1 + r)^t
+ * What a year of payments is worth at the end of that year, given the year's
+ * growth factor. Paid at the start of each period, every payment grows for
+ * one period longer.
  */
-function compoundInterest(principal: number, rate: number, years: number): number {
-    return principal * Math.pow(1 + rate, years);
+function yearOfPayments(
+    payment: number,
+    billingPeriod: BillingPeriod,
+    growthFactor: number,
+    contributionTiming: ContributionTiming
+): number {
+    const periods = PERIODS_PER_YEAR[billingPeriod];
+    if (growthFactor === 1) return payment * periods;
+
+    const periodGrowth = Math.pow(growthFactor, 1 / periods);
+    const paidAtEnd = (payment * (growthFactor - 1)) / (periodGrowth - 1);
+    return contributionTiming === 'start' ? paidAtEnd * periodGrowth : paidAtEnd;
 }
 
 /**
- * Format currency with locale-aware notation
+ * Nominal future value of a recurring payment kept up for the given years:
+ * the future value of an annuity, compounding once per billing period.
  */
-export function formatCurrency(amount: number, currency: string = 'USD'): string {
-    const locale = currency === 'USD' ? 'en-US' : 'en-GB';
+export function projectRecurringValue(
+    payment: number,
+    billingPeriod: BillingPeriod,
+    years: number,
+    assumptions: Pick<OpportunityCostAssumptions, 'annualGrowthRate' | 'contributionTiming'> = DEFAULT_ASSUMPTIONS
+): number {
+    const growth = 1 + assumptions.annualGrowthRate;
+    const perYear = yearOfPayments(payment, billingPeriod, growth, assumptions.contributionTiming);
+    return growth === 1 ? perYear * years : (perYear * (Math.pow(growth, years) - 1)) / (growth - 1);
+}
+
+/** A future amount in today's money */
+export function toRealValue(nominal: number, years: number, inflationRate: number): number {
+    return nominal / Math.pow(1 + inflationRate, years);
+}
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+/** Mulberry32, a small seeded generator of numbers in [0, 1) */
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/** Standard normal draws by the Box-Muller transform, which gives them in pairs */
+function normalSampler(random: () => number): () => number {
+    let spare: number | null = null;
+    return () => {
+        if (spare !== null) {
+            const draw = spare;
+            spare = null;
+            return draw;
+        }
+        const radius = Math.sqrt(-2 * Math.log(1 - random()));
+        const angle = 2 * Math.PI * random();
+        spare = radius * Math.sin(angle);
+        return radius * Math.cos(angle);
+    };
+}
+
+function percentile(sorted: number[], p: number): number {
+    return sorted[Math.max(0, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Outcome ranges for each horizon from simulated annual returns. Returns are
+ * lognormal, with the growth rate as their mean and the given volatility as
+ * their standard deviation. With a billing period, the amount is paid every
+ * period rather than once.
+ */
+export function simulateRanges(
+    amount: number,
+    assumptions: OpportunityCostAssumptions,
+    simulation: SimulationSettings = DEFAULT_SIMULATION,
+    billingPeriod?: BillingPeriod
+): ProjectionRange[] {
+    const growth = 1 + assumptions.annualGrowthRate;
+    const sigma = Math.sqrt(Math.log(1 + Math.pow(simulation.volatility / growth, 2)));
+    const mu = Math.log(growth) - (sigma * sigma) / 2;
+    const normal = normalSampler(seededRandom(simulation.seed));
+
+    // A one-time amount invested at the end of the year compounds one year less
+    const compoundingYears = assumptions.horizons.map((years) =>
+        !billingPeriod && assumptions.contributionTiming === 'end' ? years - 1 : years);
+    const outcomes: number[][] = compoundingYears.map(() => []);
+
+    for (let trial = 0; trial < simulation.trials; trial++) {
+        // Horizons are ascending, so each is reached in turn
+        let value = billingPeriod ? 0 : amount;
+        let year = 0;
+        compoundingYears.forEach((horizonYears, i) => {
+            for (; year < horizonYears; year++) {
+                const growthFactor = Math.exp(mu + sigma * normal());
+                value = value * growthFactor + (billingPeriod
+                    ? yearOfPayments(amount, billingPeriod, growthFactor, assumptions.contributionTiming)
+                    : 0);
+            }
+            outcomes[i].push(value);
+        });
+    }
+
+    return outcomes.map((values) => {
+        const sorted = values.sort((a, b) => a - b);
+        return {
+            p10: roundCents(percentile(sorted, 0.1)),
+            p50: roundCents(percentile(sorted, 0.5)),
+            p90: roundCents(percentile(sorted, 0.9)),
+        };
+    });
+}
 
-    return new Intl.NumberFormat(locale, {
+/**
+ * Format currency in the locale it is most used in, with its usual decimals
+ */
+export function formatCurrency(amount: number, currency: string = 'USD'): string {
+    return new Intl.NumberFormat(currencyLocale(currency), {
         style: 'currency',
         currency: currency,
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2,
     }).format(amount);
 }
 
+/** The furthest projection; records from before horizons were stored use 20 years */
+export function longestProjection(cost: OpportunityCost): Pick<OpportunityCostProjection, 'years' | 'nominal'> {
+    return cost.horizons?.[cost.horizons.length - 1] ?? { years: 20, nominal: cost.projections.years20 };
+}
+
+function toProjections(horizons: OpportunityCostProjection[]): OpportunityCost['projections'] {
+    return Object.fromEntries(horizons.map((h) => [`years${h.years}`, h.nominal]));
+}
+
 /**
- * Calculate opportunity cost for a given price
+ * Calculate opportunity cost for a given price, or for a price charged every
+ * billing period
  */
 export function calculateOpportunityCost(
     price: number,
-    currency: string = 'USD'
+    currency: string = 'USD',
+    assumptions: OpportunityCostAssumptions = DEFAULT_ASSUMPTIONS,
+    billingPeriod?: BillingPeriod
 ): OpportunityCost {
+    // Anything else sent as a billing period is treated as a one-time price
+    const period = isBillingPeriod(billingPeriod) ? billingPeriod : undefined;
+
     if (price <= 0) {
+        const horizons = assumptions.horizons.map((years) => ({ years, nominal: 0, real: 0 }));
         return {
             amount: 0,
-            projections: {
-                years5: 0,
-                years10: 0,
-                years20: 0,
-            },
+            projections: toProjections(horizons),
+            horizons,
+            assumptions,
             comparisonText: 'Enter a valid price to see opportunity cost.',
         };
     }
 
-    const years5 = compoundInterest(price, ANNUAL_GROWTH_RATE, 5);
-    const years10 = compoundInterest(price, ANNUAL_GROWTH_RATE, 10);
-    const years20 = compoundInterest(price, ANNUAL_GROWTH_RATE, 20);
-
-    const formattedPrice = formatCurrency(price, currency);
-    const formatted20yr = formatCurrency(years20, currency);
+    const recurring = period && { billingPeriod: period, annualCost: annualizeCost(price, period) };
+    const ranges = assumptions.simulation && simulateRanges(price, assumptions, assumptions.simulation, period);
+    const horizons: OpportunityCostProjection[] = assumptions.horizons.map((years, i) => {
+        const nominal = period
+            ? projectRecurringValue(price, period, years, assumptions)
+            : projectValue(price, years, assumptions);
+        return {
+            years,
+            nominal: roundCents(nominal),
+            real: roundCents(toRealValue(nominal, years, assumptions.annualInflationRate)),
+            ...(ranges && { range: ranges[i] }),
+            ...(recurring && { totalPaid: roundCents(recurring.annualCost * years) }),
+        };
+    });
 
     return {
         amount: price,
-        projections: {
-            years5: Math.round(years5 * 100) / 100,
-            years10: Math.round(years10 * 100) / 100,
-            years20: Math.round(years20 * 100) / 100,
-        },
-        comparisonText: `Investing ${formattedPrice} today could grow to ${formatted20yr} in 20 years.`,
+        projections: toProjections(horizons),
+        horizons,
+        assumptions,
+        ...(recurring && { recurring }),
+        comparisonText: describeProjection(price, currency, horizons[horizons.length - 1], assumptions, recurring),
     };
 }
 
+function describeProjection(
+    price: number,
+    currency: string,
+    longest: OpportunityCostProjection,
+    assumptions: OpportunityCostAssumptions,
+    recurring?: RecurringCost
+): string {
+    const invested = recurring
+        ? `Paying ${formatCurrency(price, currency)} ${PERIOD_LABELS[recurring.billingPeriod]} adds up to `
+            + `${formatCurrency(recurring.annualCost, currency)} a year and `
+            + `${formatCurrency(longest.totalPaid ?? 0, currency)} over ${longest.years} years. `
+            + 'Invested instead, it could grow to'
+        : `Investing ${formatCurrency(price, currency)} today could grow to`;
+
+    if (!longest.range) {
+        return `${invested} ${formatCurrency(longest.nominal, currency)} in ${longest.years} years `
+            + `(${formatCurrency(longest.real, currency)} in today's money).`;
+    }
+
+    const { p10, p50, p90 } = longest.range;
+    const medianReal = toRealValue(p50, longest.years, assumptions.annualInflationRate);
+    return `${invested} between ${formatCurrency(p10, currency)} and ${formatCurrency(p90, currency)} `
+        + `in ${longest.years} years (median ${formatCurrency(p50, currency)}, `
+        + `or ${formatCurrency(medianReal, currency)} in today's money).`;
+}
+
 /**
  * Generate a human-friendly comparison message
  */
 export function generateComparisonMessage(
     price: number,
-    currency: string = 'USD'
+    currency: string = 'USD',
+    assumptions: OpportunityCostAssumptions = DEFAULT_ASSUMPTIONS
 ): string {
-    const cost = calculateOpportunityCost(price, currency);
-    const multiplier = Math.round(cost.projections.years20 / price);
+    // The user's horizons may not include 20 years
+    const { years, nominal } = longestProjection(calculateOpportunityCost(price, currency, assumptions));
+    const multiplier = Math.round(nominal / price);
 
-    return `This ${formatCurrency(price, currency)} purchase could be worth ${formatCurrency(cost.projections.years20, currency)} in 20 years — that's ${multiplier}x your money!`;
+    return `This ${formatCurrency(price, currency)} purchase could be worth ${formatCurrency(nominal, currency)} in ${years} years — that's ${multiplier}x your money!`;
 }
 
-export { ANNUAL_GROWTH_RATE };
+export {
+    ANNUAL_GROWTH_RATE,
+    ANNUAL_INFLATION_RATE,
+    DEFAULT_ASSUMPTIONS,
+    DEFAULT_SIMULATION,
+    CONTRIBUTION_TIMINGS,
+    PROJECTION_MODES,
+    PERIODS_PER_YEAR,
+};
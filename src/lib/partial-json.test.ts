@@ -0,0 +1,86 @@
+// Feature: second-thought, Property 16: Streamed Field Extraction
+// Validates: Requirements 2.2
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { extractCompletedFields } from './partial-json';
+
+// Objects shaped like analysis replies, with nested values and awkward strings
+const objectArbitrary = fc.record({
+    isEssential: fc.boolean(),
+    essentialityScore: fc.double({ min: 0, max: 1, noNaN: true }),
+    reasoning: fc.string({ maxLength: 50 }),
+    warnings: fc.array(
+        fc.record({
+            type: fc.constantFrom('fake_discount', 'urgency_manipulation'),
+            explanation: fc.string({ maxLength: 30 }),
+        }),
+        { maxLength: 3 }
+    ),
+    personalizedMessage: fc.constantFrom('plain', 'with "quotes", {braces} and [brackets]', 'escaped \\ slash'),
+});
+
+describe('Partial JSON Reader', () => {
+    // Property 16: Streamed Field Extraction
+    describe('Property 16: Streamed Field Extraction', () => {
+        it('should only report fields whose values match the full object', () => {
+            fc.assert(
+                fc.property(objectArbitrary, fc.integer({ min: 0, max: 1000 }), (obj, cut) => {
+                    const json = JSON.stringify(obj);
+                    const prefix = json.slice(0, cut % (json.length + 1));
+                    const fields = extractCompletedFields(prefix);
+
+                    for (const [key, value] of Object.entries(fields)) {
+                        expect(value).toEqual(obj[key as keyof typeof obj]);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 200 }
+            );
+        });
+
+        it('should never lose a field as more of the stream arrives', () => {
+            fc.assert(
+                fc.property(objectArbitrary, (obj) => {
+                    const json = JSON.stringify(obj);
+                    let previous: string[] = [];
+
+                    for (let i = 0; i <= json.length; i++) {
+                        const keys = Object.keys(extractCompletedFields(json.slice(0, i)));
+                        previous.forEach((key) => expect(keys).toContain(key));
+                        previous = keys;
+                    }
+
+                    return true;
+                }),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should report every field once the object is complete', () => {
+            fc.assert(
+                fc.property(objectArbitrary, (obj) => {
+                    expect(extractCompletedFields(JSON.stringify(obj, null, 2))).toEqual(obj);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should hold back a value until its terminator arrives', () => {
+            expect(extractCompletedFields('{"a": 12')).toEqual({});
+            expect(extractCompletedFields('{"a": 12,')).toEqual({ a: 12 });
+            expect(extractCompletedFields('{"a": "x", "b": [1, {"c"')).toEqual({ a: 'x' });
+        });
+
+        it('should return nothing before the object starts', () => {
+            expect(extractCompletedFields('')).toEqual({});
+            expect(extractCompletedFields('```json\n')).toEqual({});
+        });
+    });
+});
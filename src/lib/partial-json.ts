@@ -0,0 +1,75 @@
+// Partial JSON Reader
+// Extracts the top-level fields of a streamed JSON object as they complete
+
+/**
+ * Return every top-level field of the (possibly truncated) JSON object in
+ * `buffer` whose value has been fully received. A value counts as complete
+ * once the comma or closing brace that follows it has arrived.
+ */
+export function extractCompletedFields(buffer: string): Record<string, unknown> {
+    const fields: Record<string, unknown> = {};
+    const start = buffer.indexOf('{');
+    if (start === -1) return fields;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    let keyStart = -1;
+    let key: string | null = null;
+    let valueStart = -1;
+
+    for (let i = start; i < buffer.length; i++) {
+        const ch = buffer[i];
+
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (ch === '\\') {
+                escaped = true;
+            } else if (ch === '"') {
+                inString = false;
+                // Closing quote of a top-level key
+                if (keyStart !== -1) {
+                    key = JSON.parse(buffer.slice(keyStart, i + 1)) as string;
+                    keyStart = -1;
+                }
+            }
+            continue;
+        }
+
+        if (ch === '"') {
+            inString = true;
+            if (depth === 1 && key === null) {
+                keyStart = i;
+            }
+            continue;
+        }
+
+        if (ch === ':' && depth === 1 && key !== null && valueStart === -1) {
+            valueStart = i + 1;
+            continue;
+        }
+
+        if ((ch === ',' || ch === '}') && depth === 1) {
+            if (key !== null && valueStart !== -1) {
+                try {
+                    fields[key] = JSON.parse(buffer.slice(valueStart, i));
+                } catch {
+                    // Malformed value; leave it to full validation
+                }
+            }
+            key = null;
+            valueStart = -1;
+            if (ch === '}') break;
+            continue;
+        }
+
+        if (ch === '{' || ch === '[') {
+            depth++;
+        } else if (ch === '}' || ch === ']') {
+            depth--;
+        }
+    }
+
+    return fields;
+}
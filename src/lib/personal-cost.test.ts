@@ -0,0 +1,99 @@
+// Feature: second-thought, Property 39: Personal Cost Proportionality
+// Validates: Requirements 3.1, 3.3
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { calculatePersonalCost, validateHourlyWage, DAYS_PER_MONTH } from './personal-cost';
+import { analyzeWithRules } from './rules-analyzer';
+import { getPromptTemplate, DEFAULT_PROMPT_VERSION } from './prompt-registry';
+import type { ProductInfo, UserProfile } from './types';
+
+const priceArbitrary = fc.integer({ min: 1, max: 1000000 }).map((cents) => cents / 100);
+
+const profile: UserProfile = {
+    id: 'user-1',
+    savingsGoal: 500,
+    monthlyBudget: 2000,
+    hourlyWage: 25,
+    financialGoals: ['Emergency fund'],
+    spendingThreshold: 20,
+    coolDownEnabled: true,
+    imageAnalysisEnabled: true,
+    coachingPersona: 'gentle',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+};
+
+const product: ProductInfo = {
+    name: 'Noise Cancelling Headphones',
+    price: 300,
+    currency: 'USD',
+    url: 'https://shop.example.com/headphones',
+    urgencyIndicators: [],
+};
+
+describe('Personal Cost', () => {
+    // Property 39: Personal Cost Proportionality
+    describe('Property 39: Personal Cost Proportionality', () => {
+        it('should give the price in hours at the wage and days of the monthly budget', () => {
+            fc.assert(
+                fc.property(
+                    priceArbitrary,
+                    fc.integer({ min: 100, max: 100000 }).map((cents) => cents / 100),
+                    fc.integer({ min: 100, max: 20000 }),
+                    (price, hourlyWage, monthlyBudget) => {
+                        const result = calculatePersonalCost(price, { hourlyWage, monthlyBudget, savingsGoal: 100 });
+
+                        expect(Math.abs(result!.hoursOfWork! - price / hourlyWage)).toBeLessThanOrEqual(0.05);
+                        expect(Math.abs(result!.goalDelayDays! - (price / monthlyBudget) * DAYS_PER_MONTH))
+                            .toBeLessThanOrEqual(0.05);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should never cost less for a higher price', () => {
+            fc.assert(
+                fc.property(priceArbitrary, priceArbitrary, (a, b) => {
+                    const [low, high] = [Math.min(a, b), Math.max(a, b)].map((price) => calculatePersonalCost(price, profile)!);
+
+                    expect(low.hoursOfWork!).toBeLessThanOrEqual(high.hoursOfWork!);
+                    expect(low.goalDelayDays!).toBeLessThanOrEqual(high.goalDelayDays!);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should leave out whatever the profile cannot support', () => {
+            expect(calculatePersonalCost(300, { ...profile, hourlyWage: undefined })).toEqual({ goalDelayDays: 4.6 });
+            expect(calculatePersonalCost(300, { ...profile, savingsGoal: 0 })).toEqual({ hoursOfWork: 12 });
+            expect(calculatePersonalCost(300, { savingsGoal: 500 })).toBeUndefined();
+            expect(calculatePersonalCost(300)).toBeUndefined();
+            expect(calculatePersonalCost(0, profile)).toBeUndefined();
+        });
+
+        it('should validate the wage', () => {
+            expect(validateHourlyWage(undefined)).toBeNull();
+            expect(validateHourlyWage(null)).toBeNull();
+            expect(validateHourlyWage(32.5)).toBeNull();
+            expect(validateHourlyWage(0)).toContain('hourlyWage');
+            expect(validateHourlyWage('25')).toContain('hourlyWage');
+        });
+
+        it('should include the personal cost in the prompt and the rules-based result', () => {
+            const prompt = getPromptTemplate(DEFAULT_PROMPT_VERSION).build(product, profile);
+
+            expect(prompt).toContain('Price in Hours of Work: 12');
+            expect(prompt).toContain('Savings Goal Delay: 4.6 days');
+            expect(analyzeWithRules(product, profile).personalCost).toEqual({ hoursOfWork: 12, goalDelayDays: 4.6 });
+        });
+    });
+});
@@ -0,0 +1,49 @@
+// Personal Cost
+// Puts a price in the user's own terms: the hours of work it takes at their
+// take-home wage, and how many days it pushes back their savings goal at the
+// pace of their monthly budget
+
+import type { PersonalCost, UserProfile } from './types';
+
+const DAYS_PER_MONTH = 365.25 / 12;
+const MAX_HOURLY_WAGE = 10000;
+
+type PersonalCostSettings = Pick<UserProfile, 'hourlyWage' | 'savingsGoal' | 'monthlyBudget'>;
+
+function isPositive(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function roundTenths(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+/** Error message for an invalid wage in a profile update, or null; null clears it */
+export function validateHourlyWage(hourlyWage: unknown): string | null {
+    if (hourlyWage === undefined || hourlyWage === null) return null;
+    return isPositive(hourlyWage) && hourlyWage <= MAX_HOURLY_WAGE
+        ? null
+        : `hourlyWage must be greater than 0 and at most ${MAX_HOURLY_WAGE}`;
+}
+
+/**
+ * Hours of work at the profile's wage, and days of monthly budget the price
+ * uses up, which is how long it delays the savings goal. Each needs its own
+ * settings; undefined when neither can be worked out, or when the price
+ * could not be put in the profile's currency (null).
+ */
+export function calculatePersonalCost(price: number | null, profile?: PersonalCostSettings): PersonalCost | undefined {
+    if (!isPositive(price) || !profile) return undefined;
+
+    const { hourlyWage, monthlyBudget } = profile;
+    const hasWage = isPositive(hourlyWage);
+    const hasGoal = isPositive(profile.savingsGoal) && isPositive(monthlyBudget);
+    if (!hasWage && !hasGoal) return undefined;
+
+    return {
+        ...(hasWage && { hoursOfWork: roundTenths(price / hourlyWage) }),
+        ...(hasGoal && { goalDelayDays: roundTenths((price / monthlyBudget) * DAYS_PER_MONTH) }),
+    };
+}
+
+export { DAYS_PER_MONTH, MAX_HOURLY_WAGE };
@@ -1,6 +1,8 @@
 // Predatory Pricing Detection
-// Detects fake discounts, urgency manipulation, and inflated prices
+// Detects fake discounts, urgency manipulation, inflated prices and listings
+// that try to instruct the AI
 
+import { detectProductInjection } from './prompt-sanitizer';
 import type { ProductInfo, PricingWarning } from './types';
 
 // Common urgency manipulation patterns
@@ -103,6 +105,22 @@ export function detectInflatedPrice(product: ProductInfo): PricingWarning | null
     return null;
 }
 
+export function detectSuspectedInjection(product: ProductInfo): PricingWarning | null {
+    const findings = detectProductInjection(product);
+    if (findings.length === 0) {
+        return null;
+    }
+
+    // Several distinct techniques in one listing is a stronger signal
+    const confidence = Math.min(0.95, 0.6 + (findings.length - 1) * 0.15);
+
+    return {
+        type: 'suspected_injection',
+        confidence,
+        explanation: 'This listing contains text that looks like instructions aimed at AI assistants. Treat its claims with extra caution.',
+    };
+}
+
 export function analyzePricing(product: ProductInfo): PricingWarning[] {
     const warnings: PricingWarning[] = [];
 
@@ -115,6 +133,9 @@ export function analyzePricing(product: ProductInfo): PricingWarning[] {
     const inflatedPrice = detectInflatedPrice(product);
     if (inflatedPrice) warnings.push(inflatedPrice);
 
+    const suspectedInjection = detectSuspectedInjection(product);
+    if (suspectedInjection) warnings.push(suspectedInjection);
+
     return warnings;
 }
 
@@ -10,6 +10,8 @@ import {
     calculateDiscountPercentage,
     isSuspiciousDiscount,
     extractProductFromData,
+    normalizeImageUrl,
+    parseBillingPeriod,
     ExtractedProduct,
 } from './product-extractor';
 
@@ -71,6 +73,20 @@ describe('Product Extractor', () => {
             expect(parseCurrency('₹500')).toBe('INR');
         });
 
+        it('should detect ISO codes and prefixed dollar signs', () => {
+            expect(parseCurrency('CHF 120.00')).toBe('CHF');
+            expect(parseCurrency('R$ 99,90')).toBe('BRL');
+            expect(parseCurrency('C$45.00')).toBe('CAD');
+            expect(parseCurrency('₩50,000')).toBe('KRW');
+            expect(parseCurrency('NEW $20')).toBe('USD');
+        });
+
+        it('should fall back to the currency the page declares', () => {
+            expect(parseCurrency('49.99', 'eur')).toBe('EUR');
+            expect(parseCurrency('£49.99', 'EUR')).toBe('GBP');
+            expect(parseCurrency('49.99', 'XYZ')).toBe('USD');
+        });
+
         it('should default to USD for unknown currencies', () => {
             expect(parseCurrency('100')).toBe('USD');
             expect(parseCurrency(null)).toBe('USD');
@@ -284,6 +300,58 @@ describe('Product Extractor', () => {
 
             expect(result?.urgencyIndicators.length).toBeLessThanOrEqual(5);
         });
+
+        it('should resolve the product image against the page URL', () => {
+            const result = extractProductFromData({
+                name: 'Camera',
+                priceText: '$249.00',
+                imageSrc: '/images/camera.jpg',
+                url: 'https://shop.example.com/p/camera',
+            });
+
+            expect(result?.imageUrl).toBe('https://shop.example.com/images/camera.jpg');
+        });
+
+        it('should capture the billing period from the price or the text near it', () => {
+            expect(extractProductFromData({
+                name: 'Streaming Plan',
+                priceText: '$15.99/mo',
+                url: 'https://example.com/plans',
+            })?.billingPeriod).toBe('monthly');
+
+            const result = extractProductFromData({
+                name: 'Meal Kit',
+                priceText: '$59.94',
+                billingText: 'Delivered and billed weekly',
+                url: 'https://example.com/meals',
+            });
+            expect(result?.price).toBe(59.94);
+            expect(result?.billingPeriod).toBe('weekly');
+        });
+    });
+
+    describe('parseBillingPeriod', () => {
+        it('should recognise weekly, monthly and annual billing', () => {
+            expect(parseBillingPeriod('$4.99/wk')).toBe('weekly');
+            expect(parseBillingPeriod('$15.99 / month')).toBe('monthly');
+            expect(parseBillingPeriod('Billed monthly')).toBe('monthly');
+            expect(parseBillingPeriod('$99 per year')).toBe('annual');
+            expect(parseBillingPeriod('$119.88 billed annually')).toBe('annual');
+        });
+
+        it('should treat other prices as one-time', () => {
+            expect(parseBillingPeriod('$49.99')).toBeUndefined();
+            expect(parseBillingPeriod(null)).toBeUndefined();
+        });
+    });
+
+    describe('normalizeImageUrl', () => {
+        it('should only accept http(s) images', () => {
+            expect(normalizeImageUrl('data:image/png;base64,AAAA', 'https://example.com')).toBeUndefined();
+            expect(normalizeImageUrl('javascript:alert(1)', 'https://example.com')).toBeUndefined();
+            expect(normalizeImageUrl('', 'https://example.com')).toBeUndefined();
+            expect(normalizeImageUrl('//cdn.example.com/a.png', 'https://example.com')).toBe('https://cdn.example.com/a.png');
+        });
     });
 
     // Property 10: Extraction preserves data integrity
@@ -1,12 +1,17 @@
 // Product Extractor - Server-side version for testing
 // This mirrors the logic in extension/content.js
 
+import { BUNDLED_RATES } from './currency';
+import type { BillingPeriod } from './types';
+
 export interface ExtractedProduct {
     name: string;
     price: number;
     currency: string;
+    billingPeriod?: BillingPeriod;
     originalPrice?: number;
     url: string;
+    imageUrl?: string;
     urgencyIndicators: string[];
 }
 
@@ -15,26 +20,42 @@ export interface ExtractionPatterns {
     price: string;
     originalPrice: string;
     urgency: string;
+    image: string;
+    // Text near the price that may name a billing period
+    billing: string;
+    // Structured data declaring the price's currency
+    currency: string;
 }
 
+const DECLARED_CURRENCY = '[itemprop="priceCurrency"], meta[property="product:price:currency"], meta[property="og:price:currency"]';
+
 export const EXTRACTION_PATTERNS: Record<string, ExtractionPatterns> = {
     amazon: {
         name: '#productTitle, #title',
         price: '.a-price .a-offscreen, #priceblock_ourprice, #priceblock_dealprice, .a-price-whole',
         originalPrice: '.a-text-price .a-offscreen, #priceblock_ourprice_lbl + .a-text-price',
         urgency: '.a-color-price, #availability, .a-declarative[data-action="a-modal"]',
+        image: '#landingImage, #imgBlkFront, #main-image',
+        billing: '#sns-base-price, #subscriptionPrice, .a-price + .a-size-small',
+        currency: DECLARED_CURRENCY,
     },
     ebay: {
         name: '.x-item-title__mainTitle',
         price: '.x-price-primary .ux-textspans',
         originalPrice: '.x-price-primary .ux-textspans--STRIKETHROUGH',
         urgency: '.d-urgency-message, .vi-notify-new-bg-dBtm',
+        image: '.ux-image-carousel-item.active img, .ux-image-carousel-item img',
+        billing: '.x-price-primary',
+        currency: DECLARED_CURRENCY,
     },
     generic: {
         name: 'h1, [itemprop="name"], .product-title, .product-name',
         price: '[itemprop="price"], .price, .product-price, .current-price',
         originalPrice: '.original-price, .was-price, .compare-price, del',
         urgency: '.urgency, .limited, .stock-warning, .countdown',
+        image: 'meta[property="og:image"], [itemprop="image"], .product-image img, .product-gallery img',
+        billing: '.price-period, .billing-period, .price-interval, .subscription-price, [itemprop="billingDuration"]',
+        currency: DECLARED_CURRENCY,
     },
 };
 
@@ -55,15 +76,49 @@ export function parsePrice(text: string | null): number | null {
     return null;
 }
 
-// Parse currency from text
-export function parseCurrency(text: string | null): string {
-    if (!text) return 'USD';
-    if (text.includes('$')) return 'USD';
-    if (text.includes('€')) return 'EUR';
-    if (text.includes('£')) return 'GBP';
-    if (text.includes('¥')) return 'JPY';
-    if (text.includes('₹')) return 'INR';
-    return 'USD';
+// Currency symbols, checked in order so prefixed dollars come before '$'
+export const CURRENCY_SYMBOLS: [string, string][] = [
+    ['R$', 'BRL'],
+    ['C$', 'CAD'],
+    ['CA$', 'CAD'],
+    ['A$', 'AUD'],
+    ['AU$', 'AUD'],
+    ['NZ$', 'NZD'],
+    ['HK$', 'HKD'],
+    ['S$', 'SGD'],
+    ['MX$', 'MXN'],
+    ['$', 'USD'],
+    ['€', 'EUR'],
+    ['£', 'GBP'],
+    ['¥', 'JPY'],
+    ['₹', 'INR'],
+    ['₩', 'KRW'],
+];
+
+// Parse currency from text: an ISO code with a known rate, then a symbol,
+// then the page's declared currency (e.g. itemprop="priceCurrency")
+export function parseCurrency(text: string | null, declared?: string | null): string {
+    const code = text?.match(/\b[A-Z]{3}\b/g)?.find((match) => match in BUNDLED_RATES.rates);
+    if (code) return code;
+
+    const symbol = text ? CURRENCY_SYMBOLS.find(([mark]) => text.includes(mark)) : undefined;
+    if (symbol) return symbol[1];
+
+    const hint = declared?.trim().toUpperCase();
+    return hint && hint in BUNDLED_RATES.rates ? hint : 'USD';
+}
+
+// Billing period wording, checked in order
+export const BILLING_PATTERNS: [RegExp, BillingPeriod][] = [
+    [/(\/\s*(wk|week)\b|per week|a week|weekly|every week)/i, 'weekly'],
+    [/(\/\s*(mo|mth|month)\b|per month|a month|monthly|every month)/i, 'monthly'],
+    [/(\/\s*(yr|year)\b|per (year|annum)|a year|annual(ly)?|yearly|every year)/i, 'annual'],
+];
+
+// Parse a billing period from text; undefined for one-time prices
+export function parseBillingPeriod(text: string | null | undefined): BillingPeriod | undefined {
+    if (!text) return undefined;
+    return BILLING_PATTERNS.find(([pattern]) => pattern.test(text))?.[1];
 }
 
 // Urgency patterns for detection
@@ -104,6 +159,17 @@ export function normalizeProductName(name: string): string {
     return name.trim().substring(0, 200);
 }
 
+// Resolve an image URL against the page; only http(s) images are sent
+export function normalizeImageUrl(src: string | null | undefined, pageUrl: string): string | undefined {
+    if (!src) return undefined;
+    try {
+        const url = new URL(src.trim(), pageUrl);
+        return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
 // Calculate discount percentage
 export function calculateDiscountPercentage(
     currentPrice: number,
@@ -130,12 +196,15 @@ export function extractProductFromData(data: {
     priceText?: string;
     originalPriceText?: string;
     urgencyTexts?: string[];
+    imageSrc?: string;
+    billingText?: string;
+    currencyText?: string;
     url: string;
 }): ExtractedProduct | null {
     const name = data.name?.trim();
     const price = parsePrice(data.priceText || null);
     const originalPrice = parsePrice(data.originalPriceText || null);
-    const currency = parseCurrency(data.priceText || null);
+    const currency = parseCurrency(data.priceText || null, data.currencyText);
 
     if (!name || !price) {
         return null;
@@ -150,8 +219,10 @@ export function extractProductFromData(data: {
         name: normalizeProductName(name),
         price,
         currency,
+        billingPeriod: parseBillingPeriod(data.priceText) ?? parseBillingPeriod(data.billingText),
         originalPrice: originalPrice && originalPrice > price ? originalPrice : undefined,
         url: data.url,
+        imageUrl: normalizeImageUrl(data.imageSrc, data.url),
         urgencyIndicators,
     };
 }
@@ -0,0 +1,168 @@
+// Feature: second-thought, Property 21: Product Image Size Limit
+// Validates: Requirements 2.1
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { isPublicAddress, loadProductImage, loadImageForAnalysis, MAX_IMAGE_BYTES } from './product-image';
+import type { HostLookup } from './product-image';
+import type { UserProfile } from './types';
+
+function imageResponse(bytes: number, contentType = 'image/jpeg', declaredLength?: number): Response {
+    const headers: Record<string, string> = { 'Content-Type': contentType };
+    if (declaredLength !== undefined) headers['Content-Length'] = String(declaredLength);
+    return new Response(new Uint8Array(bytes), { status: 200, headers });
+}
+
+// Resolves every host to a public address without touching DNS
+const lookupImpl: HostLookup = async () => ['93.184.216.34'];
+
+const profile: UserProfile = {
+    id: 'user-1',
+    financialGoals: [],
+    spendingThreshold: 20,
+    coolDownEnabled: true,
+    imageAnalysisEnabled: false,
+    coachingPersona: 'gentle',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+};
+
+describe('Product Image Loader', () => {
+    beforeEach(() => {
+        vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    // Property 21: Product Image Size Limit
+    describe('Property 21: Product Image Size Limit', () => {
+        it('should never return an image larger than the limit', async () => {
+            await fc.assert(
+                fc.asyncProperty(fc.integer({ min: 1, max: 4096 }), fc.integer({ min: 1, max: 4096 }), async (size, maxBytes) => {
+                    const fetchImpl = vi.fn().mockResolvedValue(imageResponse(size));
+
+                    const image = await loadProductImage('https://cdn.example.com/a.jpg', { maxBytes, fetchImpl, lookupImpl });
+
+                    if (size > maxBytes) {
+                        expect(image).toBeNull();
+                    } else {
+                        expect(Buffer.from(image!.data, 'base64').length).toBe(size);
+                    }
+                }),
+                { numRuns: 50 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should reject oversized images from the declared length without reading them', async () => {
+            const fetchImpl = vi.fn().mockResolvedValue(imageResponse(10, 'image/png', MAX_IMAGE_BYTES + 1));
+
+            expect(await loadProductImage('https://cdn.example.com/a.png', { fetchImpl, lookupImpl })).toBeNull();
+        });
+
+        it('should reject unsupported content types and non-http URLs', async () => {
+            const fetchImpl = vi.fn().mockResolvedValue(imageResponse(10, 'image/svg+xml'));
+
+            expect(await loadProductImage('https://cdn.example.com/a.svg', { fetchImpl, lookupImpl })).toBeNull();
+            expect(await loadProductImage('file:///etc/passwd', { fetchImpl, lookupImpl })).toBeNull();
+            expect(fetchImpl).toHaveBeenCalledTimes(1);
+        });
+
+        it('should return null when the request fails', async () => {
+            const fetchImpl = vi.fn().mockRejectedValue(new Error('timeout'));
+
+            expect(await loadProductImage('https://cdn.example.com/a.jpg', { fetchImpl, lookupImpl })).toBeNull();
+        });
+
+        it('should stop reading a body without a declared length once it passes the limit', async () => {
+            let pulls = 0;
+            const endless = new ReadableStream<Uint8Array>({
+                pull(controller) {
+                    pulls++;
+                    controller.enqueue(new Uint8Array(64 * 1024));
+                },
+            });
+            const fetchImpl = vi.fn().mockResolvedValue(
+                new Response(endless, { status: 200, headers: { 'Content-Type': 'image/jpeg' } })
+            );
+
+            expect(await loadProductImage('https://cdn.example.com/a.jpg', { fetchImpl, lookupImpl })).toBeNull();
+            expect(pulls * 64 * 1024).toBeLessThan(MAX_IMAGE_BYTES * 2);
+        });
+
+        it('should never fetch loopback, private or link-local hosts', async () => {
+            const fetchImpl = vi.fn().mockResolvedValue(imageResponse(10));
+            const privateLookup: HostLookup = async () => ['10.0.0.5'];
+
+            expect(await loadProductImage('http://169.254.169.254/latest/meta-data', { fetchImpl, lookupImpl })).toBeNull();
+            expect(await loadProductImage('http://[::1]/a.jpg', { fetchImpl, lookupImpl })).toBeNull();
+            expect(await loadProductImage('https://intranet.example.com/a.jpg', { fetchImpl, lookupImpl: privateLookup })).toBeNull();
+            expect(fetchImpl).not.toHaveBeenCalled();
+        });
+
+        it('should never fetch internal IPv4 hosts written as IPv6', async () => {
+            const fetchImpl = vi.fn().mockResolvedValue(imageResponse(10));
+            const urls = [
+                'http://[::ffff:169.254.169.254]/latest/meta-data',
+                'http://[::ffff:a9fe:a9fe]/latest/meta-data',
+                'http://[::ffff:127.0.0.1]/a.jpg',
+                'http://[::a9fe:a9fe]/a.jpg',
+                'http://[::127.0.0.1]/a.jpg',
+                'http://[64:ff9b::a9fe:a9fe]/a.jpg',
+                'http://[64:ff9b::10.0.0.1]/a.jpg',
+                'http://[2002:a9fe:a9fe::1]/a.jpg',
+                'http://[2002:7f00:1::]/a.jpg',
+                'http://[0:0:0:0:0:ffff:c0a8:0101]/a.jpg',
+            ];
+
+            for (const url of urls) {
+                expect(isPublicAddress(new URL(url).hostname.replace(/^\[|\]$/g, '')), url).toBe(false);
+                expect(await loadProductImage(url, { fetchImpl, lookupImpl }), url).toBeNull();
+            }
+            expect(fetchImpl).not.toHaveBeenCalled();
+        });
+
+        it('should fetch public IPv4 hosts written as IPv6', async () => {
+            const fetchImpl = vi.fn().mockImplementation(async () => imageResponse(10));
+
+            expect(await loadProductImage('http://[::ffff:93.184.216.34]/a.jpg', { fetchImpl, lookupImpl })).not.toBeNull();
+            expect(await loadProductImage('http://[2002:5db8:d822::1]/a.jpg', { fetchImpl, lookupImpl })).not.toBeNull();
+        });
+
+        it('should check every redirect hop', async () => {
+            const redirect = new Response(null, { status: 302, headers: { Location: 'http://127.0.0.1/a.jpg' } });
+            const fetchImpl = vi.fn().mockResolvedValue(redirect);
+
+            expect(await loadProductImage('https://cdn.example.com/a.jpg', { fetchImpl, lookupImpl })).toBeNull();
+            expect(fetchImpl).toHaveBeenCalledTimes(1);
+            expect(fetchImpl.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+        });
+
+        it('should follow redirects between public hosts', async () => {
+            const fetchImpl = vi.fn()
+                .mockResolvedValueOnce(new Response(null, { status: 301, headers: { Location: '/images/a.jpg' } }))
+                .mockResolvedValueOnce(imageResponse(10));
+
+            expect(await loadProductImage('https://cdn.example.com/a.jpg', { fetchImpl, lookupImpl })).not.toBeNull();
+            expect(fetchImpl.mock.calls[1][0]).toBe('https://cdn.example.com/images/a.jpg');
+        });
+
+        it('should tell public addresses from internal ones', () => {
+            expect(isPublicAddress('93.184.216.34')).toBe(true);
+            expect(isPublicAddress('2606:2800:220:1::1')).toBe(true);
+            for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', 'ff02::1', '::', '::ffff:10.0.0.1', '::ffff:a00:1']) {
+                expect(isPublicAddress(address)).toBe(false);
+            }
+        });
+
+        it('should skip images entirely when the profile disables image analysis', async () => {
+            const fetchMock = vi.fn();
+            vi.stubGlobal('fetch', fetchMock);
+
+            expect(await loadImageForAnalysis('https://cdn.example.com/a.jpg', profile)).toBeUndefined();
+            expect(fetchMock).not.toHaveBeenCalled();
+
+            vi.unstubAllGlobals();
+        });
+    });
+});
@@ -0,0 +1,216 @@
+// Product Image Loader
+// Fetches product images for multimodal analysis, within size and type limits,
+// and only from hosts on the public internet
+
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+import type { LLMImage } from './llm-provider';
+import type { UserProfile } from './types';
+
+// Largest image sent to the model; bigger images are skipped, not resized
+const MAX_IMAGE_BYTES = 1024 * 1024; // 1 MB
+const IMAGE_FETCH_TIMEOUT_MS = 3000;
+const MAX_IMAGE_REDIRECTS = 3;
+const SUPPORTED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export interface ImageLoadOptions {
+    maxBytes?: number;
+    timeoutMs?: number;
+    fetchImpl?: typeof fetch;
+    lookupImpl?: HostLookup;
+}
+
+async function lookupHost(hostname: string): Promise<string[]> {
+    const addresses = await lookup(hostname, { all: true, verbatim: true });
+    return addresses.map((entry) => entry.address);
+}
+
+// Loopback, private, link-local (cloud metadata), CGNAT and reserved ranges
+const BLOCKED_IPV4_RANGES: [number, number][] = [
+    [0x00000000, 8], // 0.0.0.0/8
+    [0x0a000000, 8], // 10.0.0.0/8
+    [0x64400000, 10], // 100.64.0.0/10
+    [0x7f000000, 8], // 127.0.0.0/8
+    [0xa9fe0000, 16], // 169.254.0.0/16
+    [0xac100000, 12], // 172.16.0.0/12
+    [0xc0000000, 24], // 192.0.0.0/24
+    [0xc0a80000, 16], // 192.168.0.0/16
+    [0xc6120000, 15], // 198.18.0.0/15
+    [0xe0000000, 3], // 224.0.0.0/3, multicast and reserved
+];
+
+function ipv4Value(address: string): number {
+    return address.split('.').reduce((acc, octet) => acc * 256 + Number(octet), 0);
+}
+
+function isPublicIPv4Value(value: number): boolean {
+    return !BLOCKED_IPV4_RANGES.some(([base, bits]) => Math.floor(value / 2 ** (32 - bits)) === base / 2 ** (32 - bits));
+}
+
+/** The eight 16-bit groups of an IPv6 address, with any trailing dotted IPv4 part expanded */
+function ipv6Groups(address: string): number[] {
+    let text = address.toLowerCase().replace(/%.*$/, '');
+    const dotted = text.match(/(\d+\.\d+\.\d+\.\d+)$/);
+    if (dotted) {
+        const value = ipv4Value(dotted[1]);
+        text = `${text.slice(0, -dotted[1].length)}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`;
+    }
+
+    const [head, tail] = text.split('::');
+    const parse = (part?: string) => (part ? part.split(':').map((group) => parseInt(group, 16)) : []);
+    const front = parse(head);
+    const back = parse(tail);
+    const zeros = tail === undefined ? [] : new Array(8 - front.length - back.length).fill(0);
+    return [...front, ...zeros, ...back];
+}
+
+// IPv4 addresses embedded in IPv6 ones reach the same hosts, so they get the IPv4 check
+function embeddedIPv4(groups: number[]): number | null {
+    const join = (high: number, low: number) => high * 0x10000 + low;
+    const zero = (from: number, to: number) => groups.slice(from, to).every((group) => group === 0);
+
+    // IPv4-mapped ::ffff:0:0/96 and IPv4-compatible ::/96
+    if (zero(0, 5) && (groups[5] === 0xffff || groups[5] === 0)) return join(groups[6], groups[7]);
+    // NAT64 64:ff9b::/96
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && zero(2, 6)) return join(groups[6], groups[7]);
+    // 6to4 2002::/16
+    if (groups[0] === 0x2002) return join(groups[1], groups[2]);
+    return null;
+}
+
+function isPublicIPv6(address: string): boolean {
+    const groups = ipv6Groups(address);
+    const ipv4 = embeddedIPv4(groups);
+    // Covers :: and ::1 too, as 0.0.0.0 and 0.0.0.1
+    if (ipv4 !== null) return isPublicIPv4Value(ipv4);
+
+    // Unique local fc00::/7, link-local fe80::/10, site-local fec0::/10, multicast ff00::/8
+    const first = groups[0];
+    return (first & 0xfe00) !== 0xfc00 && (first & 0xff80) !== 0xfe80 && (first & 0xff00) !== 0xff00;
+}
+
+/** Whether an IP address is reachable on the public internet */
+export function isPublicAddress(address: string): boolean {
+    const version = isIP(address);
+    if (version === 4) return isPublicIPv4Value(ipv4Value(address));
+    if (version === 6) return isPublicIPv6(address);
+    return false;
+}
+
+/**
+ * Only http(s) URLs whose host resolves solely to public addresses may be
+ * fetched, so a client cannot point the server at internal services
+ */
+async function isFetchableUrl(url: URL, lookupImpl: HostLookup): Promise<boolean> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return false;
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    const addresses = isIP(hostname) ? [hostname] : await lookupImpl(hostname);
+    return addresses.length > 0 && addresses.every(isPublicAddress);
+}
+
+/** Read at most maxBytes of the body; null once it grows past that */
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer | null> {
+    if (!response.body) return null;
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.length;
+        if (total > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+}
+
+/**
+ * Download an image for the model. Returns null whenever the image cannot be
+ * used (bad or non-public URL, unsupported type, too large, slow or failed
+ * request) so that analysis always continues text-only. Redirects are
+ * followed by hand so every hop gets the same host check.
+ */
+export async function loadProductImage(
+    imageUrl: string | undefined,
+    options: ImageLoadOptions = {}
+): Promise<LLMImage | null> {
+    const {
+        maxBytes = MAX_IMAGE_BYTES,
+        timeoutMs = IMAGE_FETCH_TIMEOUT_MS,
+        fetchImpl = fetch,
+        lookupImpl = lookupHost,
+    } = options;
+
+    if (!imageUrl || !/^https?:\/\//i.test(imageUrl)) {
+        return null;
+    }
+
+    try {
+        const signal = AbortSignal.timeout(timeoutMs);
+        let url = new URL(imageUrl);
+        let response: Response | null = null;
+
+        for (let hop = 0; hop <= MAX_IMAGE_REDIRECTS; hop++) {
+            if (!(await isFetchableUrl(url, lookupImpl))) {
+                return null;
+            }
+
+            response = await fetchImpl(url.href, { signal, redirect: 'manual' });
+            const location = response.headers.get('location');
+            if (response.status < 300 || response.status >= 400 || !location) break;
+
+            url = new URL(location, url);
+            response = null;
+        }
+
+        if (!response?.ok) {
+            return null;
+        }
+
+        const mimeType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+        if (!SUPPORTED_IMAGE_TYPES.includes(mimeType)) {
+            return null;
+        }
+
+        // Reject early on the declared size, then stop reading past the limit
+        const declaredSize = Number(response.headers.get('content-length'));
+        if (declaredSize > maxBytes) {
+            return null;
+        }
+
+        const bytes = await readLimited(response, maxBytes);
+        if (!bytes || bytes.length === 0) {
+            return null;
+        }
+
+        return { mimeType, data: bytes.toString('base64') };
+    } catch (error) {
+        console.warn('Product image load failed:', error);
+        return null;
+    }
+}
+
+/** Whether the user's privacy settings allow sending product images */
+export function imageAnalysisAllowed(profile?: UserProfile): boolean {
+    return profile?.imageAnalysisEnabled !== false;
+}
+
+/** The product image to analyze, or undefined when disabled or unusable */
+export async function loadImageForAnalysis(
+    imageUrl: string | undefined,
+    profile?: UserProfile
+): Promise<LLMImage | undefined> {
+    if (!imageAnalysisAllowed(profile)) {
+        return undefined;
+    }
+    return (await loadProductImage(imageUrl)) ?? undefined;
+}
+
+export { MAX_IMAGE_BYTES, MAX_IMAGE_REDIRECTS, SUPPORTED_IMAGE_TYPES };
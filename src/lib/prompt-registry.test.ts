@@ -0,0 +1,127 @@
+// Feature: second-thought, Property 19: Deterministic Prompt Assignment
+// Validates: Requirements 2.1, 7.1
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+    assignPromptVersion,
+    getPromptTemplate,
+    parseExperiment,
+    PROMPT_TEMPLATES,
+    DEFAULT_PROMPT_VERSION,
+} from './prompt-registry';
+import { PERSONA_TONES, DEFAULT_COACHING_PERSONA, getPersonaTone, isCoachingPersona } from './coaching-persona';
+import type { PromptExperiment } from './prompt-registry';
+import type { CoachingPersona, ProductInfo, UserProfile } from './types';
+
+const experimentArbitrary: fc.Arbitrary<PromptExperiment> = fc
+    .string({ minLength: 1, maxLength: 20 })
+    .map((id) => parseExperiment('v1.0:50,v1.1:50', id));
+
+describe('Prompt Registry', () => {
+    // Property 19: Deterministic Prompt Assignment
+    describe('Property 19: Deterministic Prompt Assignment', () => {
+        it('should always assign the same user to the same arm', () => {
+            fc.assert(
+                fc.property(experimentArbitrary, fc.uuid(), (experiment, userId) => {
+                    const version = assignPromptVersion(userId, experiment);
+                    expect(assignPromptVersion(userId, experiment)).toBe(version);
+                    expect(experiment.arms.map((arm) => arm.version)).toContain(version);
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+
+        it('should split users roughly in proportion to arm weights', () => {
+            const experiment = parseExperiment('v1.0:80,v1.1:20', 'weights');
+            const users = Array.from({ length: 2000 }, (_, i) => `user-${i}`);
+            const control = users.filter((userId) => assignPromptVersion(userId, experiment) === 'v1.0').length;
+
+            expect(control / users.length).toBeGreaterThan(0.75);
+            expect(control / users.length).toBeLessThan(0.85);
+        });
+
+        it('should never assign an arm with no weight', () => {
+            fc.assert(
+                fc.property(fc.uuid(), (userId) => {
+                    const experiment = parseExperiment('v1.0:0,v1.1:1');
+                    expect(assignPromptVersion(userId, experiment)).toBe('v1.1');
+
+                    return true;
+                }),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        const product: ProductInfo = {
+            name: 'Headphones',
+            price: 199,
+            currency: 'USD',
+            url: 'https://example.com/headphones',
+            urgencyIndicators: [],
+        };
+
+        it('should give anonymous users the first arm', () => {
+            expect(assignPromptVersion(undefined, parseExperiment('v1.1:1,v1.0:1'))).toBe('v1.1');
+        });
+
+        it('should fall back to the default version for empty or unknown configs', () => {
+            expect(parseExperiment(undefined).arms).toEqual([{ version: DEFAULT_PROMPT_VERSION, weight: 1 }]);
+            expect(parseExperiment('v9.9:100').arms).toEqual([{ version: DEFAULT_PROMPT_VERSION, weight: 1 }]);
+        });
+
+        it('should throw for unknown prompt versions', () => {
+            expect(() => getPromptTemplate('v9.9')).toThrow('Unknown prompt version: v9.9');
+        });
+
+        it('should register templates under their own version', () => {
+            for (const [version, template] of Object.entries(PROMPT_TEMPLATES)) {
+                expect(template.version).toBe(version);
+                expect(template.build(product)).toContain('Headphones');
+            }
+        });
+
+        it("should use the tone of the user's coaching persona in every template", () => {
+            const profile: UserProfile = {
+                id: 'user-1',
+                financialGoals: [],
+                spendingThreshold: 20,
+                coolDownEnabled: true,
+                imageAnalysisEnabled: true,
+                coachingPersona: 'tough_love',
+                createdAt: new Date(0),
+                updatedAt: new Date(0),
+            };
+
+            for (const template of Object.values(PROMPT_TEMPLATES)) {
+                expect(template.build(product, profile)).toContain(PERSONA_TONES.tough_love.instruction);
+                expect(template.build(product)).toContain(PERSONA_TONES[DEFAULT_COACHING_PERSONA].instruction);
+            }
+        });
+
+        it('should reject inherited property names as personas', () => {
+            for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+                expect(isCoachingPersona(name)).toBe(false);
+                expect(getPersonaTone(name as CoachingPersona)).toBe(PERSONA_TONES[DEFAULT_COACHING_PERSONA]);
+            }
+            expect(isCoachingPersona('humorous')).toBe(true);
+        });
+
+        it('should give subscriptions their annualized and lifetime cost', () => {
+            const subscription: ProductInfo = { ...product, price: 15, billingPeriod: 'monthly' };
+
+            for (const template of Object.values(PROMPT_TEMPLATES)) {
+                const prompt = template.build(subscription);
+                expect(prompt).toContain('Billing: monthly subscription');
+                expect(prompt).toContain('Annualized Cost: USD 180');
+                expect(prompt).toContain('Lifetime Cost: USD 3600 over 20 years');
+                expect(template.build(product)).not.toContain('Annualized Cost');
+            }
+        });
+    });
+});
@@ -0,0 +1,229 @@
+// Prompt Registry
+// Versioned prompt templates and deterministic A/B assignment of users to them
+
+import { createHash } from 'crypto';
+import { personaInstruction } from './coaching-persona';
+import { homeCurrencyPrice, toHomeCurrency } from './currency';
+import { annualizeCost, resolveAssumptions } from './opportunity-cost';
+import { calculatePersonalCost } from './personal-cost';
+import { sanitizeProduct, wrapUntrusted, UNTRUSTED_CONTENT_NOTICE } from './prompt-sanitizer';
+import type { ProductInfo, UserProfile } from './types';
+
+export interface PromptTemplate {
+    version: string;
+    description: string;
+    build(product: ProductInfo, userProfile?: UserProfile): string;
+}
+
+export interface ExperimentArm {
+    version: string;
+    weight: number;
+}
+
+export interface PromptExperiment {
+    id: string;
+    arms: ExperimentArm[];
+}
+
+const DEFAULT_PROMPT_VERSION = 'v1.0';
+
+const RESPONSE_FORMAT = `Respond in JSON format with these fields:
+{
+  "isEssential": boolean (true if this is a necessary purchase like food, medicine, utilities),
+  "essentialityScore": number (0-1, how essential is this purchase),
+  "reasoning": string (brief explanation of your assessment),
+  "warnings": [
+    {
+      "type": "fake_discount" | "urgency_manipulation" | "inflated_price",
+      "confidence": number (0-1),
+      "explanation": string
+    }
+  ],
+  "personalizedMessage": string (empathetic message considering user's goals),
+  "suggestedAction": "proceed" | "cooldown" | "skip",
+  "alternatives": [
+    {
+      "type": "used_or_refurbished" | "cheaper_model" | "rent_or_borrow" | "free_option",
+      "description": string (one concrete suggestion, e.g. a specific cheaper model or where to borrow it),
+      "estimatedPrice": number (typical cost in the product's currency; 0 if free)
+    }
+  ] (up to 4 realistic cheaper ways to meet the same need, at most one per type; empty for essentials with no cheaper option)
+}`;
+
+// Appended to any template when the product image is sent; worded
+// conditionally because text-only providers drop the image on failover
+const IMAGE_INSTRUCTIONS = `
+If a photo of the product is attached, use it to confirm the product category, judge how essential the item is, and note if it looks like a near-duplicate of something most people already own.`;
+
+function buildProfileSections(userProfile?: UserProfile): string {
+    const goalsSection = userProfile?.financialGoals?.length
+        ? `\nUser's Financial Goals: ${userProfile.financialGoals.join(', ')}`
+        : '';
+
+    // Amounts carry the home currency when the user has set one
+    const unit = userProfile?.homeCurrency ? `${userProfile.homeCurrency} ` : '';
+
+    const budgetSection = userProfile?.monthlyBudget
+        ? `\nMonthly Budget: ${unit}${userProfile.monthlyBudget}`
+        : '';
+
+    const savingsSection = userProfile?.savingsGoal
+        ? `\nSavings Goal: ${unit}${userProfile.savingsGoal}`
+        : '';
+
+    return `${goalsSection}${budgetSection}${savingsSection}`;
+}
+
+// Subscriptions: the annualized cost, and the total over the longest horizon
+function buildBillingSection(product: ProductInfo, userProfile?: UserProfile): string {
+    if (!product.billingPeriod) return '';
+
+    const annualCost = annualizeCost(product.price, product.billingPeriod);
+    const { horizons } = resolveAssumptions(userProfile);
+    const years = horizons[horizons.length - 1];
+
+    return `Billing: ${product.billingPeriod} subscription
+Annualized Cost: ${product.currency} ${annualCost}
+Lifetime Cost: ${product.currency} ${Math.round(annualCost * years * 100) / 100} over ${years} years
+`;
+}
+
+// The price in hours of work and days of savings goal delay
+function buildPersonalCostSection(product: ProductInfo, userProfile?: UserProfile): string {
+    const personalCost = calculatePersonalCost(homeCurrencyPrice(product, userProfile), userProfile);
+    if (!personalCost) return '';
+
+    const wageSection = personalCost.hoursOfWork !== undefined
+        ? `\nHourly Take-Home Wage: ${userProfile?.hourlyWage}\nPrice in Hours of Work: ${personalCost.hoursOfWork}`
+        : '';
+
+    const delaySection = personalCost.goalDelayDays !== undefined
+        ? `\nSavings Goal Delay: ${personalCost.goalDelayDays} days`
+        : '';
+
+    return `${wageSection}${delaySection}`;
+}
+
+// Scraped fields are sanitized and delimited; numbers are interpolated as-is
+function buildProductSection(rawProduct: ProductInfo, userProfile?: UserProfile): string {
+    const product = sanitizeProduct(rawProduct);
+    const urgency = product.urgencyIndicators.map((indicator) => wrapUntrusted('urgency', indicator));
+    const converted = toHomeCurrency(product, userProfile);
+    let convertedSection = '';
+    if (converted) {
+        convertedSection = `Price in Home Currency: ${converted.currency} ${converted.amount} (rates as of ${converted.ratesAsOf})\n`;
+    } else if (homeCurrencyPrice(product, userProfile) === null) {
+        convertedSection = `Price in Home Currency: unknown, no exchange rate to ${userProfile?.homeCurrency}; do not compare the price with the budget or savings goal\n`;
+    }
+
+    return `${UNTRUSTED_CONTENT_NOTICE}
+
+Product: ${wrapUntrusted('name', product.name)}
+Price: ${product.currency} ${product.price}
+${convertedSection}${buildBillingSection(product, userProfile)}${product.originalPrice ? `Original Price: ${product.currency} ${product.originalPrice}` : ''}
+${product.category ? `Category: ${wrapUntrusted('category', product.category)}` : ''}
+${urgency.length ? `Urgency Indicators Found: ${urgency.join(', ')}` : ''}`;
+}
+
+// v1.0: original general-purpose template
+function buildPromptV1(product: ProductInfo, userProfile?: UserProfile): string {
+    return `You are a financial wellness assistant helping users make better purchasing decisions.
+
+Analyze this potential purchase and provide guidance:
+
+${buildProductSection(product, userProfile)}
+${buildProfileSections(userProfile)}${buildPersonalCostSection(product, userProfile)}
+
+${RESPONSE_FORMAT}
+
+${personaInstruction(userProfile)} Focus on helping the user achieve their financial goals.`;
+}
+
+// v1.1: leads with the user's goals and asks for a shorter, goal-anchored message
+function buildPromptV1_1(product: ProductInfo, userProfile?: UserProfile): string {
+    return `You are a financial wellness assistant. The user is about to buy something; help them decide with their own goals front of mind.
+${buildProfileSections(userProfile)}${buildPersonalCostSection(product, userProfile)}
+
+The purchase they are considering:
+
+${buildProductSection(product, userProfile)}
+
+${RESPONSE_FORMAT}
+
+Keep personalizedMessage to two sentences and tie it to one of the user's goals when they have any. ${personaInstruction(userProfile)}`;
+}
+
+const PROMPT_TEMPLATES: Record<string, PromptTemplate> = {
+    'v1.0': {
+        version: 'v1.0',
+        description: 'Original general-purpose template',
+        build: buildPromptV1,
+    },
+    'v1.1': {
+        version: 'v1.1',
+        description: 'Goal-first framing with a shorter personalized message',
+        build: buildPromptV1_1,
+    },
+};
+
+export function getPromptTemplate(version: string): PromptTemplate {
+    const template = PROMPT_TEMPLATES[version];
+    if (!template) {
+        throw new Error(`Unknown prompt version: ${version}`);
+    }
+    return template;
+}
+
+/**
+ * Parse an experiment config, e.g. PROMPT_EXPERIMENT="v1.0:50,v1.1:50".
+ * Unknown versions and non-positive weights are dropped.
+ */
+export function parseExperiment(config: string | undefined, id = 'prompt-experiment'): PromptExperiment {
+    const arms = (config || '')
+        .split(',')
+        .map((part) => {
+            const [version, weight] = part.trim().split(':');
+            return { version, weight: weight === undefined ? 1 : Number(weight) };
+        })
+        .filter((arm) => arm.version in PROMPT_TEMPLATES && arm.weight > 0);
+
+    return {
+        id,
+        arms: arms.length > 0 ? arms : [{ version: DEFAULT_PROMPT_VERSION, weight: 1 }],
+    };
+}
+
+// Experiment in effect for this deployment
+const activeExperiment = parseExperiment(
+    process.env.PROMPT_EXPERIMENT,
+    process.env.PROMPT_EXPERIMENT_ID || 'prompt-experiment'
+);
+
+/**
+ * Deterministically bucket a user into an experiment arm. The same user always
+ * lands in the same arm for a given experiment; anonymous users get control.
+ */
+export function assignPromptVersion(
+    userId: string | undefined,
+    experiment: PromptExperiment = activeExperiment
+): string {
+    if (!userId) {
+        return experiment.arms[0].version;
+    }
+
+    const totalWeight = experiment.arms.reduce((sum, arm) => sum + arm.weight, 0);
+    const digest = createHash('sha256').update(`${experiment.id}:${userId}`).digest();
+    const bucket = (digest.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+    let cumulative = 0;
+    for (const arm of experiment.arms) {
+        cumulative += arm.weight;
+        if (bucket < cumulative) {
+            return arm.version;
+        }
+    }
+
+    return experiment.arms[experiment.arms.length - 1].version;
+}
+
+export { PROMPT_TEMPLATES, DEFAULT_PROMPT_VERSION, IMAGE_INSTRUCTIONS, activeExperiment, buildProductSection, buildProfileSections };
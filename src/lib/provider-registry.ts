@@ -0,0 +1,77 @@
+// LLM Provider Registry
+// Builds the ordered provider chain from configuration
+
+import { MissingApiKeysError } from './api-keys';
+import { GeminiProvider } from './gemini';
+import { CerebrasProvider } from './cerebras';
+import { FakeProvider } from './fake-provider';
+import type { LLMProvider } from './llm-provider';
+
+const PROVIDER_FACTORIES: Record<string, () => LLMProvider> = {
+    gemini: () => new GeminiProvider(),
+    cerebras: () => new CerebrasProvider(),
+    fake: () => new FakeProvider(),
+};
+
+const DEFAULT_PROVIDER_ORDER = ['gemini', 'cerebras'];
+
+// Providers are created once and reused across requests
+const instances = new Map<string, LLMProvider>();
+
+/**
+ * Parse a comma-separated provider list, e.g. LLM_PROVIDERS="gemini,cerebras"
+ */
+export function parseProviderOrder(config: string | undefined): string[] {
+    if (!config) return DEFAULT_PROVIDER_ORDER;
+
+    const names = config
+        .split(',')
+        .map((name) => name.trim().toLowerCase())
+        .filter(Boolean);
+
+    return names.length > 0 ? [...new Set(names)] : DEFAULT_PROVIDER_ORDER;
+}
+
+export function getProvider(name: string): LLMProvider {
+    const existing = instances.get(name);
+    if (existing) return existing;
+
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+        throw new Error(`Unknown LLM provider: ${name}`);
+    }
+
+    const provider = factory();
+    instances.set(name, provider);
+    return provider;
+}
+
+/**
+ * Providers in failover order, as configured by LLM_PROVIDERS
+ */
+export function getProviderChain(
+    order: string[] = parseProviderOrder(process.env.LLM_PROVIDERS)
+): LLMProvider[] {
+    return order.map(getProvider);
+}
+
+/**
+ * The configured chain without providers that have no API keys, for request
+ * handlers: a missing key degrades analysis to the rules instead of failing
+ * the request. Startup still uses getProviderChain to refuse to start.
+ */
+export function getAvailableProviderChain(
+    order: string[] = parseProviderOrder(process.env.LLM_PROVIDERS)
+): LLMProvider[] {
+    return order.flatMap((name) => {
+        try {
+            return [getProvider(name)];
+        } catch (error) {
+            if (!(error instanceof MissingApiKeysError)) throw error;
+            console.error(`Skipping LLM provider ${name}:`, error.message);
+            return [];
+        }
+    });
+}
+
+export { PROVIDER_FACTORIES, DEFAULT_PROVIDER_ORDER };
@@ -0,0 +1,271 @@
+// Reflection Coach
+// Guided conversation that continues from a stored analysis, asks the user a
+// few questions about the purchase and may revise the suggested action
+
+import { z } from 'zod';
+import { supabase, DbReflection } from './supabase';
+import { toResponseJsonSchema } from './analysis-schema';
+import { addUsage, toUsage, EMPTY_USAGE } from './cost-accounting';
+import { generateWithFailover } from './llm-provider';
+import { getAvailableProviderChain } from './provider-registry';
+import { personaInstruction } from './coaching-persona';
+import { buildProductSection, buildProfileSections } from './prompt-registry';
+import { detectProductInjection } from './prompt-sanitizer';
+import type { LLMProvider } from './llm-provider';
+import type {
+    AnalysisResult,
+    Intervention,
+    Reflection,
+    ReflectionMessage,
+    UserProfile,
+} from './types';
+
+export interface ReflectionQuestion {
+    topic: 'need_vs_want' | 'usage' | 'trade_off';
+    question: string;
+}
+
+// Asked in order, one per turn
+const REFLECTION_QUESTIONS: ReflectionQuestion[] = [
+    { topic: 'need_vs_want', question: 'Is this something you need, or something you want right now?' },
+    { topic: 'usage', question: 'How often do you think you would actually use it?' },
+    { topic: 'trade_off', question: 'What would you give up, or put off, to pay for it?' },
+];
+
+// Messages kept per intervention; older ones are dropped
+const MAX_HISTORY_MESSAGES = 12;
+const MAX_USER_MESSAGE_LENGTH = 500;
+
+const REFLECTION_OPENING = "Let's think this through together before you decide.";
+
+const reflectionReplySchema = z.object({
+    reply: z.string().min(1),
+    suggestedAction: z.enum(['proceed', 'cooldown', 'skip']).optional(),
+});
+
+type ReflectionReply = z.infer<typeof reflectionReplySchema>;
+
+const REFLECTION_REPLY_JSON_SCHEMA = toResponseJsonSchema(reflectionReplySchema);
+
+export interface ReflectOptions {
+    // Providers in failover order; defaults to the configured providers that have API keys
+    providers?: LLMProvider[];
+    // Deadline or cancellation; once aborted the scripted reply is used
+    signal?: AbortSignal;
+}
+
+export class ReflectionClosedError extends Error {
+    constructor(interventionId: string) {
+        super(`Reflection for intervention ${interventionId} has already ended`);
+        this.name = 'ReflectionClosedError';
+    }
+}
+
+// Convert database format to application format
+function dbToReflection(db: DbReflection): Reflection {
+    return {
+        interventionId: db.intervention_id,
+        userId: db.user_id,
+        messages: db.messages || [],
+        questionsAsked: db.questions_asked,
+        revisedAction: db.revised_action ?? undefined,
+        completed: db.completed,
+        usage: toUsage(db),
+        updatedAt: new Date(db.updated_at),
+    };
+}
+
+/** Append messages, keeping only the most recent `max` */
+export function appendMessages(
+    history: ReflectionMessage[],
+    messages: ReflectionMessage[],
+    max: number = MAX_HISTORY_MESSAGES
+): ReflectionMessage[] {
+    return [...history, ...messages].slice(-max);
+}
+
+/** Trim a user's answer to a single bounded line */
+export function cleanUserMessage(message: string): string {
+    return message.replace(/\s+/g, ' ').trim().substring(0, MAX_USER_MESSAGE_LENGTH);
+}
+
+/** A new reflection whose opening message asks the first guided question */
+export function startReflection(intervention: Intervention): Reflection {
+    return {
+        interventionId: intervention.id,
+        userId: intervention.userId,
+        messages: [{ role: 'coach', content: `${REFLECTION_OPENING} ${REFLECTION_QUESTIONS[0].question}` }],
+        questionsAsked: 1,
+        completed: false,
+        updatedAt: new Date(),
+    };
+}
+
+function buildReflectionPrompt(
+    intervention: Intervention,
+    reflection: Reflection,
+    userProfile?: UserProfile
+): string {
+    const analysis = intervention.analysisResult;
+    const nextQuestion = REFLECTION_QUESTIONS[reflection.questionsAsked];
+    const transcript = reflection.messages
+        .map((m) => `${m.role === 'coach' ? 'Coach' : 'User'}: ${m.content}`)
+        .join('\n');
+
+    const task = nextQuestion
+        ? `Briefly acknowledge the user's last answer in one sentence without asking anything; the next question ("${nextQuestion.question}") is added after your reply.
+Do not include suggestedAction.`
+        : `The guided questions are done. In two or three sentences, reflect back what the user said and give your final recommendation.
+Set suggestedAction to "proceed", "cooldown" or "skip" based on the whole conversation, changing the original suggestion only if the user's answers give a clear reason.`;
+
+    return `You are a financial wellness coach talking a user through a purchase they are considering. ${personaInstruction(userProfile)}
+
+${buildProductSection(intervention.productInfo)}
+${buildProfileSections(userProfile)}
+
+Original Analysis:
+Essentiality Score: ${analysis.essentialityScore}
+Reasoning: ${analysis.reasoning}
+Suggested Action: ${analysis.suggestedAction}
+
+Conversation so far:
+${transcript}
+
+${task}
+
+Respond with JSON only: { "reply": string, "suggestedAction"?: "proceed" | "cooldown" | "skip" }`;
+}
+
+function parseReflectionReply(text: string): ReflectionReply | null {
+    try {
+        const result = reflectionReplySchema.safeParse(JSON.parse(text.trim()));
+        return result.success ? result.data : null;
+    } catch {
+        return null;
+    }
+}
+
+// Used when no model reply is available; keeps the original suggestion
+function fallbackReply(finalTurn: boolean, originalAction: AnalysisResult['suggestedAction']): ReflectionReply {
+    return finalTurn
+        ? {
+            reply: 'Thanks for thinking it through. Sleep on it and trust what you decide tomorrow.',
+            suggestedAction: originalAction,
+        }
+        : { reply: 'Thanks for sharing that.' };
+}
+
+/**
+ * The final verdict: the model's revision when it gave one, never 'proceed'
+ * for a listing that looked like it was steering the original analysis
+ */
+function resolveRevisedAction(
+    intervention: Intervention,
+    action: AnalysisResult['suggestedAction'] | undefined
+): AnalysisResult['suggestedAction'] {
+    const revised = action ?? intervention.analysisResult.suggestedAction;
+    const injectionSuspected = detectProductInjection(intervention.productInfo).length > 0;
+    return injectionSuspected && revised === 'proceed' ? 'cooldown' : revised;
+}
+
+/**
+ * Take the user's answer and produce the coach's next turn. The last guided
+ * answer ends the dialog with a (possibly revised) suggested action.
+ */
+export async function continueReflection(
+    intervention: Intervention,
+    reflection: Reflection,
+    userMessage: string,
+    userProfile?: UserProfile,
+    options: ReflectOptions = {}
+): Promise<Reflection> {
+    if (reflection.completed) {
+        throw new ReflectionClosedError(intervention.id);
+    }
+
+    const answered: Reflection = {
+        ...reflection,
+        messages: appendMessages(reflection.messages, [{ role: 'user', content: cleanUserMessage(userMessage) }]),
+    };
+    const finalTurn = answered.questionsAsked >= REFLECTION_QUESTIONS.length;
+
+    let reply: ReflectionReply | null = null;
+    let usage = reflection.usage;
+    // No providers means none has API keys configured: the scripted reply is used
+    const providers = options.providers ?? getAvailableProviderChain();
+    if (providers.length > 0) {
+        try {
+            const response = await generateWithFailover(providers, {
+                prompt: buildReflectionPrompt(intervention, answered, userProfile),
+                responseJsonSchema: REFLECTION_REPLY_JSON_SCHEMA,
+                signal: options.signal,
+            });
+            usage = addUsage(usage ?? EMPTY_USAGE, response.model, response.usage);
+            reply = parseReflectionReply(response.text);
+            if (!reply) {
+                console.warn(`${response.provider} reflection reply failed validation`);
+            }
+        } catch (error) {
+            console.error('Reflection error:', error);
+        }
+    }
+
+    reply = reply ?? fallbackReply(finalTurn, intervention.analysisResult.suggestedAction);
+
+    // The guided questions are scripted so every dialog covers the same ground
+    const content = finalTurn
+        ? reply.reply
+        : `${reply.reply} ${REFLECTION_QUESTIONS[answered.questionsAsked].question}`;
+
+    return {
+        ...answered,
+        messages: appendMessages(answered.messages, [{ role: 'coach', content }]),
+        questionsAsked: finalTurn ? answered.questionsAsked : answered.questionsAsked + 1,
+        revisedAction: finalTurn ? resolveRevisedAction(intervention, reply.suggestedAction) : undefined,
+        completed: finalTurn,
+        usage,
+        updatedAt: new Date(),
+    };
+}
+
+export class ReflectionManager {
+    async get(interventionId: string): Promise<Reflection | null> {
+        const { data, error } = await supabase
+            .from('reflections')
+            .select('*')
+            .eq('intervention_id', interventionId)
+            .single();
+
+        if (error || !data) {
+            return null;
+        }
+
+        return dbToReflection(data as DbReflection);
+    }
+
+    async save(reflection: Reflection): Promise<void> {
+        const { error } = await supabase
+            .from('reflections')
+            .upsert({
+                intervention_id: reflection.interventionId,
+                user_id: reflection.userId,
+                messages: reflection.messages,
+                questions_asked: reflection.questionsAsked,
+                revised_action: reflection.revisedAction ?? null,
+                completed: reflection.completed,
+                prompt_tokens: reflection.usage?.promptTokens ?? null,
+                completion_tokens: reflection.usage?.completionTokens ?? null,
+                cost_usd: reflection.usage?.costUsd ?? null,
+                updated_at: reflection.updatedAt.toISOString(),
+            });
+
+        if (error) {
+            throw new Error(`Failed to save reflection: ${error.message}`);
+        }
+    }
+}
+
+// Singleton instance
+export const reflectionManager = new ReflectionManager();
+
+export { REFLECTION_QUESTIONS, MAX_HISTORY_MESSAGES, MAX_USER_MESSAGE_LENGTH, buildReflectionPrompt };
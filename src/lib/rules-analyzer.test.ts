@@ -0,0 +1,184 @@
+// Feature: second-thought, Property 23: Offline Analysis Parity
+// Validates: Requirements 2.1, 2.3
+
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { readFileSync } from 'fs';
+import path from 'path';
+import vm from 'vm';
+import { BUNDLED_RATES, CURRENCY_LOCALES } from './currency';
+import { analyzeWithRules, ESSENTIAL_THRESHOLD } from './rules-analyzer';
+import type { AnalysisResult, PricingWarning, ProductInfo, UserProfile } from './types';
+
+// Load the extension's copy the way the service worker does: as a plain script
+function loadExtensionScript(): vm.Context {
+    const source = readFileSync(path.resolve(__dirname, '../../extension/rules-analyzer.js'), 'utf8');
+    const context = vm.createContext({});
+    vm.runInContext(source, context);
+    return context;
+}
+
+// Top-level consts are not properties of the context, so read them by name
+function readExtensionConst(context: vm.Context, name: string): unknown {
+    return JSON.parse(JSON.stringify(vm.runInContext(name, context)));
+}
+
+const productArbitrary = fc.record({
+    name: fc.constantFrom(
+        'Organic Baby Formula',
+        'Replacement Water Filter',
+        'Noise Cancelling Headphones',
+        'Designer Handbag',
+        'LEGO Star Wars Set',
+        'Mystery Box'
+    ),
+    price: fc.integer({ min: 1, max: 5000 }),
+    currency: fc.constantFrom('USD', 'EUR', 'GBP'),
+    billingPeriod: fc.option(fc.constantFrom('weekly' as const, 'monthly' as const, 'annual' as const), { nil: undefined }),
+    category: fc.option(fc.constantFrom('Grocery', 'Electronics', 'Toys'), { nil: undefined }),
+    url: fc.constant('https://shop.example.com/product'),
+    urgencyIndicators: fc.constant([] as string[]),
+});
+
+const profileArbitrary = fc.record({
+    id: fc.uuid(),
+    monthlyBudget: fc.option(fc.integer({ min: 100, max: 10000 }), { nil: undefined }),
+    savingsGoal: fc.option(fc.integer({ min: 0, max: 5000 }), { nil: undefined }),
+    hourlyWage: fc.option(fc.integer({ min: 1, max: 20000 }).map((cents) => cents / 100), { nil: undefined }),
+    homeCurrency: fc.option(fc.constantFrom('USD', 'EUR', 'JPY', 'XYZ'), { nil: undefined }),
+    financialGoals: fc.array(fc.constantFrom('Emergency fund', 'Pay off debt'), { maxLength: 2 }),
+    spendingThreshold: fc.integer({ min: 1, max: 500 }),
+    coolDownEnabled: fc.boolean(),
+    imageAnalysisEnabled: fc.boolean(),
+    coachingPersona: fc.constantFrom('gentle' as const, 'neutral' as const, 'tough_love' as const, 'humorous' as const),
+    investmentGrowthRate: fc.option(fc.integer({ min: 0, max: 40 }).map((n) => n / 100), { nil: undefined }),
+    inflationRate: fc.option(fc.integer({ min: 0, max: 10 }).map((n) => n / 100), { nil: undefined }),
+    contributionTiming: fc.option(fc.constantFrom('start' as const, 'end' as const), { nil: undefined }),
+    projectionHorizons: fc.option(fc.array(fc.integer({ min: 1, max: 60 }), { minLength: 1, maxLength: 6 }), { nil: undefined }),
+    projectionMode: fc.option(fc.constantFrom('fixed' as const, 'monte_carlo' as const), { nil: undefined }),
+    returnVolatility: fc.option(fc.integer({ min: 0, max: 60 }).map((n) => n / 100), { nil: undefined }),
+    createdAt: fc.constant(new Date(0)),
+    updatedAt: fc.constant(new Date(0)),
+});
+
+const warningsArbitrary = fc.array(
+    fc.record({
+        type: fc.constantFrom('fake_discount', 'urgency_manipulation', 'inflated_price', 'suspected_injection'),
+        confidence: fc.integer({ min: 0, max: 100 }).map((n) => n / 100),
+        explanation: fc.constant('warning'),
+    }),
+    { maxLength: 3 }
+) as fc.Arbitrary<PricingWarning[]>;
+
+const product: ProductInfo = {
+    name: 'Noise Cancelling Headphones',
+    price: 300,
+    currency: 'USD',
+    url: 'https://shop.example.com/headphones',
+    urgencyIndicators: [],
+};
+
+const profile: UserProfile = {
+    id: 'user-1',
+    monthlyBudget: 1000,
+    financialGoals: ['Emergency fund'],
+    spendingThreshold: 20,
+    coolDownEnabled: true,
+    imageAnalysisEnabled: true,
+    coachingPersona: 'gentle',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+};
+
+describe('Rules-Based Analyzer', () => {
+    const extensionContext = loadExtensionScript();
+    const extensionAnalyzeWithRules: typeof analyzeWithRules = extensionContext.analyzeWithRules;
+
+    // Property 23: Offline Analysis Parity
+    describe('Property 23: Offline Analysis Parity', () => {
+        it('should give the same result in the extension and on the server', () => {
+            fc.assert(
+                fc.property(
+                    productArbitrary,
+                    fc.option(profileArbitrary, { nil: undefined }),
+                    warningsArbitrary,
+                    (product, profile, warnings) => {
+                        const server = analyzeWithRules(product, profile, warnings);
+                        // JSON round-trip strips the vm realm's prototypes before comparing
+                        const extension = JSON.parse(JSON.stringify(extensionAnalyzeWithRules(product, profile, warnings)));
+
+                        expect(extension).toEqual(server);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 200 }
+            );
+        });
+
+        it('should carry the same bundled rates and locales as the server', () => {
+            expect(readExtensionConst(extensionContext, 'RULES_EXCHANGE_RATES')).toEqual(BUNDLED_RATES);
+            expect(readExtensionConst(extensionContext, 'RULES_CURRENCY_LOCALES')).toEqual(CURRENCY_LOCALES);
+        });
+
+        it('should only suggest proceeding for essential purchases without strong warnings', () => {
+            fc.assert(
+                fc.property(productArbitrary, fc.option(profileArbitrary, { nil: undefined }), warningsArbitrary, (product, profile, warnings) => {
+                    const result: AnalysisResult = analyzeWithRules(product, profile, warnings);
+
+                    expect(result.essentialityScore).toBeGreaterThanOrEqual(0);
+                    expect(result.essentialityScore).toBeLessThanOrEqual(1);
+                    expect(result.isEssential).toBe(result.essentialityScore >= ESSENTIAL_THRESHOLD);
+                    if (result.suggestedAction === 'proceed') {
+                        expect(result.isEssential).toBe(true);
+                        expect(warnings.every((w) => w.confidence < 0.6)).toBe(true);
+                    }
+
+                    return true;
+                }),
+                { numRuns: 200 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should score by category keywords', () => {
+            const essential = analyzeWithRules({ ...product, name: 'Childrens Cough Medicine', price: 12 }, undefined, []);
+            const luxury = analyzeWithRules({ ...product, name: 'Designer Handbag', price: 12 }, undefined, []);
+
+            expect(essential.suggestedAction).toBe('proceed');
+            expect(luxury.essentialityScore).toBeLessThan(essential.essentialityScore);
+            expect(luxury.suggestedAction).toBe('cooldown');
+        });
+
+        it('should lower the score as the price takes more of the monthly budget', () => {
+            const small = analyzeWithRules({ ...product, price: 40 }, profile, []);
+            const large = analyzeWithRules({ ...product, price: 600 }, profile, []);
+
+            expect(large.essentialityScore).toBeLessThan(small.essentialityScore);
+            expect(large.reasoning).toContain('60% of your monthly budget');
+        });
+
+        it('should suggest skipping non-essentials that exceed the monthly budget', () => {
+            const result = analyzeWithRules({ ...product, price: 1500 }, profile, []);
+
+            expect(result.suggestedAction).toBe('skip');
+            expect(result.personalizedMessage).toContain('Emergency fund');
+        });
+
+        it('should not suggest proceeding when pricing warnings are strong', () => {
+            const warning: PricingWarning = { type: 'fake_discount', confidence: 0.9, explanation: 'Too good to be true' };
+            const result = analyzeWithRules({ ...product, name: 'Toothpaste 6-Pack', price: 15 }, undefined, [warning]);
+
+            expect(result.isEssential).toBe(true);
+            expect(result.suggestedAction).toBe('cooldown');
+        });
+
+        it('should use the standard opportunity cost projections', () => {
+            const result = analyzeWithRules({ ...product, price: 100 }, undefined, []);
+
+            expect(result.opportunityCost.projections.years20).toBeCloseTo(386.97, 2);
+        });
+    });
+});
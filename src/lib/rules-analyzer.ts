@@ -0,0 +1,174 @@
+// Rules-Based Analyzer
+// Deterministic offline analysis from category keywords, budget and pricing
+// signals. extension/rules-analyzer.js mirrors this logic for the browser.
+
+import { homeCurrencyPrice, toHomeCurrency } from './currency';
+import { calculateOpportunityCost, resolveAssumptions } from './opportunity-cost';
+import { calculatePersonalCost } from './personal-cost';
+import { analyzePricing } from './pricing-analyzer';
+import type { AnalysisResult, PricingWarning, ProductInfo, UserProfile } from './types';
+
+export interface CategoryRule {
+    label: string;
+    essentialityScore: number;
+    keywords: RegExp;
+}
+
+// Checked in order; the first matching rule sets the base score
+const CATEGORY_RULES: CategoryRule[] = [
+    {
+        label: 'a household or health essential',
+        essentialityScore: 0.85,
+        keywords: /\b(groceries|grocery|food|medicine|medication|prescription|vitamins?|diapers?|baby formula|toilet paper|soap|toothpaste|shampoo|detergent|first aid|bandages?)\b/i,
+    },
+    {
+        label: 'a replacement or repair item',
+        essentialityScore: 0.65,
+        keywords: /\b(replacement|repair|filters?|batter(y|ies)|chargers?|light bulbs?|smoke detector|spare)\b/i,
+    },
+    {
+        label: 'a work or study item',
+        essentialityScore: 0.55,
+        keywords: /\b(textbook|notebooks?|office|desk|printer|ink|school|work boots)\b/i,
+    },
+    {
+        label: 'everyday clothing',
+        essentialityScore: 0.45,
+        keywords: /\b(socks|underwear|t-shirts?|jeans|winter coat|jacket)\b/i,
+    },
+    {
+        label: 'a gadget or electronics purchase',
+        essentialityScore: 0.25,
+        keywords: /\b(headphones|earbuds|speakers?|smart ?watch|tablet|console|gaming|drone|camera|tv|television|smartphone|laptop)\b/i,
+    },
+    {
+        label: 'an entertainment or collectible item',
+        essentialityScore: 0.2,
+        keywords: /\b(toys?|collectibles?|figures?|lego|funko|posters?|decor|video games?|board games?)\b/i,
+    },
+    {
+        label: 'a luxury or fashion item',
+        essentialityScore: 0.15,
+        keywords: /\b(designer|luxury|handbags?|jewel(le)?ry|watch|perfume|cologne|sneakers)\b/i,
+    },
+];
+
+const UNKNOWN_CATEGORY_SCORE = 0.35;
+const ESSENTIAL_THRESHOLD = 0.7;
+// Warnings at or above this confidence rule out a 'proceed' verdict
+const BLOCKING_WARNING_CONFIDENCE = 0.6;
+
+function roundScore(score: number): number {
+    return Math.round(Math.min(1, Math.max(0, score)) * 100) / 100;
+}
+
+export function matchCategoryRule(product: ProductInfo): CategoryRule | null {
+    const text = `${product.name} ${product.category || ''}`;
+    return CATEGORY_RULES.find((rule) => rule.keywords.test(text)) ?? null;
+}
+
+/** Score adjustment for how much of the user's budget the price takes up */
+function budgetAdjustment(price: number, userProfile?: UserProfile): number {
+    if (userProfile?.monthlyBudget) {
+        const share = price / userProfile.monthlyBudget;
+        if (share >= 0.5) return -0.2;
+        if (share >= 0.25) return -0.1;
+        if (share <= 0.05) return 0.05;
+        return 0;
+    }
+
+    if (userProfile?.spendingThreshold && price >= userProfile.spendingThreshold * 10) {
+        return -0.1;
+    }
+
+    return 0;
+}
+
+function buildReasoning(
+    rule: CategoryRule | null,
+    price: number | null,
+    userProfile: UserProfile | undefined,
+    warnings: PricingWarning[]
+): string {
+    const parts = [rule ? `This looks like ${rule.label}.` : "We couldn't tell what kind of product this is."];
+
+    if (price === null) {
+        parts.push(`We couldn't convert the price into ${userProfile?.homeCurrency}, so your budget was left out.`);
+    } else if (userProfile?.monthlyBudget) {
+        const percent = Math.round((price / userProfile.monthlyBudget) * 100);
+        parts.push(`It would use about ${percent}% of your monthly budget.`);
+    }
+
+    if (warnings.length > 0) {
+        parts.push(`We spotted ${warnings.length} pricing warning${warnings.length === 1 ? '' : 's'} on this page.`);
+    }
+
+    return parts.join(' ');
+}
+
+function buildMessage(action: AnalysisResult['suggestedAction'], userProfile?: UserProfile): string {
+    const goal = userProfile?.financialGoals?.[0];
+
+    if (action === 'proceed') {
+        return 'This looks like a reasonable purchase. Go ahead if it fits your plans.';
+    }
+    if (action === 'skip') {
+        return goal
+            ? `This costs more than your monthly budget. Skipping it keeps "${goal}" on track.`
+            : 'This costs more than your monthly budget. Consider skipping it for now.';
+    }
+    return goal
+        ? `Give it 24 hours and ask whether it moves you closer to "${goal}".`
+        : 'Give it 24 hours and see if you still want it tomorrow.';
+}
+
+/**
+ * Analyze a purchase without a model. Pricing warnings feed the verdict but
+ * are not included in the result; callers merge them as they do for model
+ * output.
+ */
+export function analyzeWithRules(
+    product: ProductInfo,
+    userProfile?: UserProfile,
+    pricingWarnings: PricingWarning[] = analyzePricing(product)
+): AnalysisResult {
+    // The budget, threshold and wage are in the user's home currency; without
+    // a rate into it the price is not compared with them at all
+    const convertedPrice = toHomeCurrency(product, userProfile);
+    const price = homeCurrencyPrice(product, userProfile);
+
+    const rule = matchCategoryRule(product);
+    const baseScore = rule ? rule.essentialityScore : UNKNOWN_CATEGORY_SCORE;
+    const adjustment = price === null ? 0 : budgetAdjustment(price, userProfile);
+    const essentialityScore = roundScore(baseScore + adjustment);
+    const isEssential = essentialityScore >= ESSENTIAL_THRESHOLD;
+
+    const blocked = pricingWarnings.some((w) => w.confidence >= BLOCKING_WARNING_CONFIDENCE);
+    const overBudget = price !== null && !!userProfile?.monthlyBudget && price > userProfile.monthlyBudget;
+
+    let suggestedAction: AnalysisResult['suggestedAction'] = 'cooldown';
+    if (isEssential && !blocked) {
+        suggestedAction = 'proceed';
+    } else if (overBudget && !isEssential) {
+        suggestedAction = 'skip';
+    }
+
+    return {
+        isEssential,
+        essentialityScore,
+        reasoning: buildReasoning(rule, price, userProfile, pricingWarnings),
+        warnings: [],
+        opportunityCost: calculateOpportunityCost(
+            product.price,
+            product.currency,
+            resolveAssumptions(userProfile),
+            product.billingPeriod
+        ),
+        personalCost: calculatePersonalCost(price, userProfile),
+        convertedPrice,
+        personalizedMessage: buildMessage(suggestedAction, userProfile),
+        suggestedAction,
+    };
+}
+
+export { CATEGORY_RULES, UNKNOWN_CATEGORY_SCORE, ESSENTIAL_THRESHOLD, BLOCKING_WARNING_CONFIDENCE };
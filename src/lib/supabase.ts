@@ -18,6 +18,16 @@ export interface DbUserProfile {
     financial_goals: string[];
     spending_threshold: number;
     cooldown_enabled: boolean;
+    image_analysis_enabled: boolean;
+    coaching_persona: 'gentle' | 'neutral' | 'tough_love' | 'humorous' | null;
+    investment_growth_rate: number | null;
+    inflation_rate: number | null;
+    contribution_timing: 'start' | 'end' | null;
+    projection_horizons: number[] | null;
+    projection_mode: 'fixed' | 'monte_carlo' | null;
+    return_volatility: number | null;
+    home_currency: string | null;
+    hourly_wage: number | null;
     created_at: string;
     updated_at: string;
 }
@@ -39,6 +49,59 @@ export interface DbIntervention {
     user_id: string;
     product_info: Record<string, unknown>;
     analysis_result: Record<string, unknown>;
-    user_action: 'dismissed' | 'cooldown_started' | 'proceeded';
+    user_action: 'dismissed' | 'cooldown_started' | 'proceeded' | null;
+    prompt_version: string | null;
+    prompt_tokens: number | null;
+    completion_tokens: number | null;
+    cost_usd: number | null;
     created_at: string;
 }
+
+export interface DbReflection {
+    intervention_id: string;
+    user_id: string;
+    messages: { role: 'coach' | 'user'; content: string }[];
+    questions_asked: number;
+    revised_action: 'proceed' | 'cooldown' | 'skip' | null;
+    completed: boolean;
+    prompt_tokens: number | null;
+    completion_tokens: number | null;
+    cost_usd: number | null;
+    updated_at: string;
+}
+
+export interface DbAnalysisCacheEntry {
+    cache_key: string;
+    user_id: string | null;
+    outcome: Record<string, unknown>;
+    expires_at: string;
+    created_at: string;
+}
+
+export interface DbKeyHealth {
+    key_id: string;
+    healthy: boolean;
+    error_count: number;
+    last_error_at: string | null;
+    cooldown_until: string | null;
+    remaining_quota: number | null;
+    avg_latency_ms: number | null;
+    updated_at: string;
+    expires_at: string;
+}
+
+export interface DbExchangeRates {
+    id: string;
+    base: string;
+    as_of: string;
+    rates: Record<string, number>;
+    updated_at: string;
+}
+
+export interface DbDailyUsage {
+    subject: string;
+    day: string;
+    requests: number;
+    tokens: number;
+    updated_at: string;
+}
@@ -1,9 +1,15 @@
 // Core types for Second Thought
 
+// How often a subscription charges its price
+export type BillingPeriod = 'weekly' | 'monthly' | 'annual';
+
 export interface ProductInfo {
     name: string;
+    // Per billing period for subscriptions
     price: number;
     currency: string;
+    // Absent for one-time purchases
+    billingPeriod?: BillingPeriod;
     originalPrice?: number;
     category?: string;
     url: string;
@@ -12,32 +18,146 @@ export interface ProductInfo {
     urgencyIndicators: string[];
 }
 
+// When money would be invested in each year: at the start, or at the end
+export type ContributionTiming = 'start' | 'end';
+
+// A single compounded figure, or a range from simulated returns
+export type ProjectionMode = 'fixed' | 'monte_carlo';
+
+export interface SimulationSettings {
+    // Standard deviation of annual returns, e.g. 0.15
+    volatility: number;
+    trials: number;
+    // The same seed always gives the same ranges
+    seed: number;
+}
+
+// Parameters an opportunity cost was computed with
+export interface OpportunityCostAssumptions {
+    // Nominal annual return, e.g. 0.07; the mean return when simulated
+    annualGrowthRate: number;
+    annualInflationRate: number;
+    contributionTiming: ContributionTiming;
+    // Projection horizons in years, ascending
+    horizons: number[];
+    // Set in monte_carlo mode
+    simulation?: SimulationSettings;
+}
+
+// Nominal outcomes at the 10th, 50th and 90th percentiles of the simulation
+export interface ProjectionRange {
+    p10: number;
+    p50: number;
+    p90: number;
+}
+
+export interface OpportunityCostProjection {
+    years: number;
+    // Future value in the money of that year, at the mean return
+    nominal: number;
+    // The same value in today's money
+    real: number;
+    range?: ProjectionRange;
+    // Paid by this horizon; recurring costs only
+    totalPaid?: number;
+}
+
+export interface RecurringCost {
+    billingPeriod: BillingPeriod;
+    annualCost: number;
+}
+
 export interface OpportunityCost {
     amount: number;
-    projections: {
-        years5: number;
-        years10: number;
-        years20: number;
-    };
+    // Nominal value per horizon, keyed years5, years10, ...
+    projections: Record<`years${number}`, number>;
+    // Absent on analyses recorded before the model was configurable
+    horizons?: OpportunityCostProjection[];
+    assumptions?: OpportunityCostAssumptions;
+    // Set when the price recurs; projections are then of the payment stream
+    recurring?: RecurringCost;
     comparisonText: string;
 }
 
 export interface PricingWarning {
-    type: 'fake_discount' | 'urgency_manipulation' | 'inflated_price';
+    // suspected_injection is raised locally, never by the model
+    type: 'fake_discount' | 'urgency_manipulation' | 'inflated_price' | 'suspected_injection';
     confidence: number;
     explanation: string;
 }
 
+export interface Alternative {
+    type: 'used_or_refurbished' | 'cheaper_model' | 'rent_or_borrow' | 'free_option';
+    description: string;
+    estimatedPrice: number;
+    // Computed locally from the product price, never taken from the model
+    estimatedSavings: number;
+}
+
+// A product price converted into the user's home currency
+export interface ConvertedPrice {
+    amount: number;
+    currency: string;
+    // Units of the home currency per unit of the product's
+    rate: number;
+    ratesAsOf: string;
+}
+
+// The price in the user's own terms; each field needs its profile settings
+export interface PersonalCost {
+    // At the user's hourly take-home wage
+    hoursOfWork?: number;
+    // How far the price pushes back the savings goal
+    goalDelayDays?: number;
+}
+
 export interface AnalysisResult {
     isEssential: boolean;
     essentialityScore: number;
     reasoning: string;
     warnings: PricingWarning[];
     opportunityCost: OpportunityCost;
+    // Absent without a wage or savings goal, and on earlier analyses
+    personalCost?: PersonalCost;
+    // Set when the product is priced in another currency than the user's
+    convertedPrice?: ConvertedPrice;
     personalizedMessage: string;
     suggestedAction: 'proceed' | 'cooldown' | 'skip';
+    // Cheaper ways to meet the same need; absent from offline analyses
+    alternatives?: Alternative[];
+}
+
+// Where an analysis came from: first model reply, model reply after a
+// validation retry, or the fallback when no valid reply was produced
+export type AnalysisSource = 'model' | 'repaired' | 'fallback';
+
+// Tokens and model spend for one analysis, including any repair attempt
+export interface AnalysisUsage {
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
 }
 
+export interface AnalysisOutcome {
+    analysis: AnalysisResult;
+    source: AnalysisSource;
+    // Provider and model that produced the analysis; absent for fallbacks
+    provider?: string;
+    model?: string;
+    // Prompt template version the analysis was generated with
+    promptVersion: string;
+    usage?: AnalysisUsage;
+    // The model call was cut off by the request deadline or cancelled
+    deadlineExceeded?: boolean;
+    // Every provider's circuit was open, so no model call was attempted
+    circuitOpen?: boolean;
+    // The user's daily budget was spent, so no model call was attempted
+    quotaExceeded?: boolean;
+}
+
+// Tone the coach uses in personalized messages
+export type CoachingPersona = 'gentle' | 'neutral' | 'tough_love' | 'humorous';
+
 export interface UserProfile {
     id: string;
     savingsGoal?: number;
@@ -45,10 +165,41 @@ export interface UserProfile {
     financialGoals: string[];
     spendingThreshold: number;
     coolDownEnabled: boolean;
+    // Privacy: whether product images may be sent to the model
+    imageAnalysisEnabled: boolean;
+    coachingPersona: CoachingPersona;
+    // Opportunity cost settings; unset values use the defaults
+    investmentGrowthRate?: number;
+    inflationRate?: number;
+    contributionTiming?: ContributionTiming;
+    projectionHorizons?: number[];
+    projectionMode?: ProjectionMode;
+    returnVolatility?: number;
+    // Currency of the budget, savings goal, threshold and wage, e.g. 'EUR';
+    // unset means amounts are compared to prices as-is
+    homeCurrency?: string;
+    // Take-home pay per hour, in the home currency
+    hourlyWage?: number;
     createdAt: Date;
     updatedAt: Date;
 }
 
+// Optional settings an update can clear back to the default
+type ClearableProfileSetting =
+    | 'investmentGrowthRate'
+    | 'inflationRate'
+    | 'contributionTiming'
+    | 'projectionHorizons'
+    | 'projectionMode'
+    | 'returnVolatility'
+    | 'homeCurrency'
+    | 'hourlyWage';
+
+// Changes to a profile; null clears an optional setting, undefined leaves it
+export type UserProfileUpdate = Omit<Partial<UserProfile>, ClearableProfileSetting> & {
+    [K in ClearableProfileSetting]?: UserProfile[K] | null;
+};
+
 export interface CoolDown {
     id: string;
     userId: string;
@@ -64,8 +215,16 @@ export interface TraceMetadata {
     userId: string;
     sessionId: string;
     latencyMs: number;
+    provider: string;
     modelVersion: string;
     promptVersion: string;
+    promptTokens: number;
+    completionTokens: number;
+    costUsd: number;
+    // The model call was cut off and the rules-based result was served
+    deadlineExceeded: boolean;
+    // Providers were known to be down and the model was skipped
+    circuitOpen: boolean;
 }
 
 export interface EvaluationResult {
@@ -75,11 +234,39 @@ export interface EvaluationResult {
     actionabilityScore: number;
 }
 
+export type UserAction = 'dismissed' | 'cooldown_started' | 'proceeded';
+
 export interface Intervention {
     id: string;
     userId: string;
     productInfo: ProductInfo;
     analysisResult: AnalysisResult;
-    userAction?: 'dismissed' | 'cooldown_started' | 'proceeded';
+    userAction?: UserAction;
+    promptVersion?: string;
+    // Absent when no model call was made, e.g. for a cache hit
+    usage?: AnalysisUsage;
     createdAt: Date;
 }
+
+export type ReflectionRole = 'coach' | 'user';
+
+export interface ReflectionMessage {
+    role: ReflectionRole;
+    content: string;
+}
+
+// A guided conversation about one intervention
+export interface Reflection {
+    interventionId: string;
+    userId: string;
+    // Most recent messages only; older ones are dropped
+    messages: ReflectionMessage[];
+    // Guided questions asked so far
+    questionsAsked: number;
+    // Set when the dialog ends
+    revisedAction?: AnalysisResult['suggestedAction'];
+    completed: boolean;
+    // Model spend across the coach's turns; absent until a model replies
+    usage?: AnalysisUsage;
+    updatedAt: Date;
+}
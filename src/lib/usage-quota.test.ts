@@ -0,0 +1,183 @@
+// Feature: second-thought, Property 34: Daily Budget Enforcement
+// Validates: Requirements 2.1, 2.2
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+
+// Mock Supabase for testing
+vi.mock('./supabase', () => ({
+    supabase: { from: vi.fn(), rpc: vi.fn() },
+}));
+
+import { supabase } from './supabase';
+import {
+    UsageQuota,
+    MemoryUsageBackend,
+    SupabaseUsageBackend,
+    nextUsageDay,
+    parseQuotaLimit,
+} from './usage-quota';
+import { analyzePurchase } from './analyzer';
+import { KeysRateLimitedError, LoadBalancer } from './load-balancer';
+import type { LLMProvider } from './llm-provider';
+import type { ProductInfo } from './types';
+
+const NOON = Date.parse('2026-10-19T12:00:00Z');
+
+describe('Usage Quota', () => {
+    beforeEach(() => {
+        vi.mocked(supabase.from).mockReset();
+        vi.mocked(supabase.rpc).mockReset();
+    });
+
+    // Property 34: Daily Budget Enforcement
+    describe('Property 34: Daily Budget Enforcement', () => {
+        it('should allow exactly the request budget per user per day', async () => {
+            await fc.assert(
+                fc.asyncProperty(
+                    fc.integer({ min: 1, max: 10 }),
+                    fc.integer({ min: 0, max: 15 }),
+                    async (limit, attempts) => {
+                        let now = NOON;
+                        const quota = new UsageQuota(new MemoryUsageBackend(), { requests: limit }, () => now);
+
+                        let served = 0;
+                        for (let i = 0; i < attempts; i++) {
+                            if ((await quota.check('user-1')).allowed) {
+                                served++;
+                                await quota.record('user-1');
+                            }
+                        }
+                        expect(served).toBe(Math.min(limit, attempts));
+                        expect((await quota.check('user-2')).allowed).toBe(true);
+
+                        // A new UTC day starts from zero
+                        now = nextUsageDay(now).getTime();
+                        expect((await quota.check('user-1')).allowed).toBe(true);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 50 }
+            );
+        });
+
+        it('should never hand out a key past its daily budget', () => {
+            fc.assert(
+                fc.property(
+                    fc.integer({ min: 1, max: 5 }),
+                    fc.integer({ min: 1, max: 20 }),
+                    (limit, draws) => {
+                        const balancer = new LoadBalancer(['key-a', 'key-b'], {
+                            strategy: 'round_robin',
+                            dailyBudget: { requests: limit },
+                        });
+
+                        let handedOut = 0;
+                        for (let i = 0; i < draws; i++) {
+                            try {
+                                balancer.getNextKey();
+                                handedOut++;
+                            } catch (error) {
+                                expect(error).toBeInstanceOf(KeysRateLimitedError);
+                            }
+                        }
+
+                        expect(handedOut).toBe(Math.min(draws, 2 * limit));
+                        expect(balancer.getKeyStats().every((k) => k.dailyRequests <= limit)).toBe(true);
+
+                        return true;
+                    }
+                ),
+                { numRuns: 100 }
+            );
+        });
+    });
+
+    // Unit tests
+    describe('Unit Tests', () => {
+        it('should parse limits, treating anything else as unlimited', () => {
+            expect(parseQuotaLimit('100')).toBe(100);
+            expect(parseQuotaLimit('0')).toBeUndefined();
+            expect(parseQuotaLimit('lots')).toBeUndefined();
+            expect(parseQuotaLimit(undefined)).toBeUndefined();
+        });
+
+        it('should enforce the token budget and report what is left', async () => {
+            const quota = new UsageQuota(new MemoryUsageBackend(), { tokens: 1000 }, () => NOON);
+
+            await quota.record('user-1', { promptTokens: 600, completionTokens: 300 });
+            let status = await quota.check('user-1');
+            expect(status.allowed).toBe(true);
+            expect(status.remaining).toEqual({ requests: undefined, tokens: 100 });
+
+            await quota.record('user-1', { promptTokens: 100, completionTokens: 50 });
+            status = await quota.check('user-1');
+            expect(status.allowed).toBe(false);
+            expect(status.remaining.tokens).toBe(0);
+            expect(status.resetsAt.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+        });
+
+        it('should allow analysis when the store is down', async () => {
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            const failing = {
+                get: vi.fn().mockRejectedValue(new Error('connection refused')),
+                increment: vi.fn().mockRejectedValue(new Error('connection refused')),
+            };
+            const quota = new UsageQuota(failing, { requests: 1 });
+
+            await quota.record('user-1');
+            expect((await quota.check('user-1')).allowed).toBe(true);
+        });
+
+        it('should increment usage atomically through the database', async () => {
+            vi.mocked(supabase.rpc).mockResolvedValue({
+                data: { subject: 'user-1', day: '2026-10-19', requests: 3, tokens: 1200, updated_at: '' },
+                error: null,
+            } as never);
+
+            const usage = await new SupabaseUsageBackend().increment('user-1', '2026-10-19', 1, 400);
+
+            expect(supabase.rpc).toHaveBeenCalledWith('increment_daily_usage', {
+                p_subject: 'user-1',
+                p_day: '2026-10-19',
+                p_requests: 1,
+                p_tokens: 400,
+            });
+            expect(usage).toEqual({ subject: 'user-1', day: '2026-10-19', requests: 3, tokens: 1200 });
+        });
+
+        it('should count tokens against a key and stop using it once spent', () => {
+            const balancer = new LoadBalancer(['key-a', 'key-b'], {
+                strategy: 'round_robin',
+                dailyBudget: { tokens: 500 },
+            });
+
+            const first = balancer.getNextKey();
+            balancer.reportSuccess(first, { tokens: 500 });
+
+            const [spent] = balancer.getKeyStats().filter((k) => k.overBudget);
+            expect(spent.dailyTokens).toBe(500);
+            expect(balancer.getHealthyKeyCount()).toBe(1);
+            for (let i = 0; i < 3; i++) expect(balancer.getNextKey()).not.toBe(first);
+        });
+
+        it('should serve the rules-based result without calling the model once the budget is spent', async () => {
+            const generate = vi.fn();
+            const provider: LLMProvider = { name: 'fake', model: 'fake-model', generate };
+            const product: ProductInfo = {
+                name: 'Standing Desk',
+                price: 450,
+                currency: 'USD',
+                url: 'https://example.com/desk',
+                urgencyIndicators: [],
+            };
+
+            const outcome = await analyzePurchase(product, undefined, { providers: [provider], quotaExceeded: true });
+
+            expect(outcome.source).toBe('fallback');
+            expect(outcome.quotaExceeded).toBe(true);
+            expect(generate).not.toHaveBeenCalled();
+        });
+    });
+});
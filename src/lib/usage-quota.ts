@@ -0,0 +1,188 @@
+// Usage Quotas
+// Daily request and token budgets per user. Days are UTC; once a budget is
+// spent, analyses fall back to the rules until the next day.
+
+import type { TokenUsage } from './llm-provider';
+import type { DbDailyUsage } from './supabase';
+
+// Unset limits are unlimited
+export interface QuotaLimits {
+    requests?: number;
+    tokens?: number;
+}
+
+export interface DailyUsage {
+    subject: string;
+    // UTC date, YYYY-MM-DD
+    day: string;
+    requests: number;
+    tokens: number;
+}
+
+export interface QuotaStatus {
+    allowed: boolean;
+    usage: DailyUsage;
+    limits: QuotaLimits;
+    // Left today; absent for unlimited budgets
+    remaining: QuotaLimits;
+    resetsAt: Date;
+}
+
+export interface UsageQuotaBackend {
+    get(subject: string, day: string): Promise<DailyUsage | null>;
+    increment(subject: string, day: string, requests: number, tokens: number): Promise<DailyUsage>;
+}
+
+/** A positive integer limit, or undefined (unlimited) for anything else */
+export function parseQuotaLimit(config: string | undefined): number | undefined {
+    const limit = Number(config);
+    return Number.isInteger(limit) && limit > 0 ? limit : undefined;
+}
+
+export function usageDay(now: number): string {
+    return new Date(now).toISOString().slice(0, 10);
+}
+
+/** Start of the next UTC day, when daily budgets reset */
+export function nextUsageDay(now: number): Date {
+    const date = new Date(now);
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1));
+}
+
+/** Whether usage has reached either limit */
+export function isOverQuota(usage: Pick<DailyUsage, 'requests' | 'tokens'>, limits: QuotaLimits): boolean {
+    return (limits.requests !== undefined && usage.requests >= limits.requests)
+        || (limits.tokens !== undefined && usage.tokens >= limits.tokens);
+}
+
+export class MemoryUsageBackend implements UsageQuotaBackend {
+    private entries = new Map<string, DailyUsage>();
+
+    async get(subject: string, day: string): Promise<DailyUsage | null> {
+        return this.entries.get(`${subject}:${day}`) ?? null;
+    }
+
+    async increment(subject: string, day: string, requests: number, tokens: number): Promise<DailyUsage> {
+        const key = `${subject}:${day}`;
+        const current = this.entries.get(key) ?? { subject, day, requests: 0, tokens: 0 };
+        const updated = { ...current, requests: current.requests + requests, tokens: current.tokens + tokens };
+
+        // Earlier days are never read again
+        for (const [existing, entry] of this.entries) {
+            if (entry.day !== day) this.entries.delete(existing);
+        }
+        this.entries.set(key, updated);
+        return updated;
+    }
+}
+
+function fromRow(row: DbDailyUsage): DailyUsage {
+    return { subject: row.subject, day: row.day, requests: row.requests, tokens: row.tokens };
+}
+
+export class SupabaseUsageBackend implements UsageQuotaBackend {
+    // Loaded on first use so the load balancer can share the quota helpers
+    // without Supabase configured
+    private async client() {
+        return (await import('./supabase')).supabase;
+    }
+
+    async get(subject: string, day: string): Promise<DailyUsage | null> {
+        const supabase = await this.client();
+        const { data, error } = await supabase
+            .from('daily_usage')
+            .select('*')
+            .eq('subject', subject)
+            .eq('day', day)
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to read usage: ${error.message}`);
+        }
+
+        return data ? fromRow(data as DbDailyUsage) : null;
+    }
+
+    async increment(subject: string, day: string, requests: number, tokens: number): Promise<DailyUsage> {
+        // Done in the database so concurrent instances cannot lose an update
+        const supabase = await this.client();
+        const { data, error } = await supabase.rpc('increment_daily_usage', {
+            p_subject: subject,
+            p_day: day,
+            p_requests: requests,
+            p_tokens: tokens,
+        });
+
+        if (error) {
+            throw new Error(`Failed to record usage: ${error.message}`);
+        }
+
+        return fromRow(data as DbDailyUsage);
+    }
+}
+
+export class UsageQuota {
+    constructor(
+        private backend: UsageQuotaBackend,
+        private limits: QuotaLimits = {},
+        private now: () => number = Date.now
+    ) {}
+
+    getLimits(): QuotaLimits {
+        return { ...this.limits };
+    }
+
+    /** Today's usage against the budget; a store failure reads as no usage */
+    async check(subject: string): Promise<QuotaStatus> {
+        const now = this.now();
+        const day = usageDay(now);
+
+        let usage: DailyUsage = { subject, day, requests: 0, tokens: 0 };
+        try {
+            usage = (await this.backend.get(subject, day)) ?? usage;
+        } catch (error) {
+            // A quota outage should not take analysis down with it
+            console.error('Usage quota read error:', error);
+        }
+
+        return this.toStatus(usage, now);
+    }
+
+    /** Count one model-backed analysis and the tokens it used */
+    async record(subject: string, usage?: TokenUsage): Promise<void> {
+        const tokens = (usage?.promptTokens ?? 0) + (usage?.completionTokens ?? 0);
+        try {
+            await this.backend.increment(subject, usageDay(this.now()), 1, tokens);
+        } catch (error) {
+            console.error('Usage quota write error:', error);
+        }
+    }
+
+    private toStatus(usage: DailyUsage, now: number): QuotaStatus {
+        const remaining = (limit: number | undefined, used: number) =>
+            limit === undefined ? undefined : Math.max(0, limit - used);
+
+        return {
+            allowed: !isOverQuota(usage, this.limits),
+            usage,
+            limits: this.getLimits(),
+            remaining: {
+                requests: remaining(this.limits.requests, usage.requests),
+                tokens: remaining(this.limits.tokens, usage.tokens),
+            },
+            resetsAt: nextUsageDay(now),
+        };
+    }
+}
+
+function createBackend(): UsageQuotaBackend {
+    return process.env.USAGE_QUOTA_BACKEND === 'supabase'
+        ? new SupabaseUsageBackend()
+        : new MemoryUsageBackend();
+}
+
+// Singleton instance
+export const userQuota = new UsageQuota(createBackend(), {
+    requests: parseQuotaLimit(process.env.USER_DAILY_REQUEST_LIMIT),
+    tokens: parseQuotaLimit(process.env.USER_DAILY_TOKEN_LIMIT),
+});
@@ -22,6 +22,8 @@ const userProfileArbitrary = fc.record({
     financialGoals: fc.array(fc.string({ minLength: 1, maxLength: 50 }), { maxLength: 5 }),
     spendingThreshold: fc.integer({ min: 1, max: 10000 }),
     coolDownEnabled: fc.boolean(),
+    imageAnalysisEnabled: fc.boolean(),
+    coachingPersona: fc.constantFrom('gentle' as const, 'neutral' as const, 'tough_love' as const, 'humorous' as const),
 });
 
 describe('User Profile Manager', () => {
@@ -49,6 +51,8 @@ describe('User Profile Manager', () => {
                         financial_goals: profileInput.financialGoals,
                         spending_threshold: profileInput.spendingThreshold,
                         cooldown_enabled: profileInput.coolDownEnabled,
+                        image_analysis_enabled: profileInput.imageAnalysisEnabled,
+                        coaching_persona: profileInput.coachingPersona,
                         created_at: now,
                         updated_at: now,
                     };
@@ -73,6 +77,8 @@ describe('User Profile Manager', () => {
                     expect(created.financialGoals).toEqual(profileInput.financialGoals);
                     expect(created.spendingThreshold).toBe(profileInput.spendingThreshold);
                     expect(created.coolDownEnabled).toBe(profileInput.coolDownEnabled);
+                    expect(created.imageAnalysisEnabled).toBe(profileInput.imageAnalysisEnabled);
+                    expect(created.coachingPersona).toBe(profileInput.coachingPersona);
                     expect(created.id).toBe(mockId);
                 }),
                 { numRuns: 100 }
@@ -92,6 +98,8 @@ describe('User Profile Manager', () => {
                         financial_goals: profileInput.financialGoals,
                         spending_threshold: profileInput.spendingThreshold,
                         cooldown_enabled: profileInput.coolDownEnabled,
+                        image_analysis_enabled: profileInput.imageAnalysisEnabled,
+                        coaching_persona: profileInput.coachingPersona,
                         created_at: now,
                         updated_at: now,
                     };
@@ -118,6 +126,8 @@ describe('User Profile Manager', () => {
                     expect(updated.financialGoals).toEqual(profileInput.financialGoals);
                     expect(updated.spendingThreshold).toBe(profileInput.spendingThreshold);
                     expect(updated.coolDownEnabled).toBe(profileInput.coolDownEnabled);
+                    expect(updated.imageAnalysisEnabled).toBe(profileInput.imageAnalysisEnabled);
+                    expect(updated.coachingPersona).toBe(profileInput.coachingPersona);
                 }),
                 { numRuns: 100 }
             );
@@ -151,6 +161,61 @@ describe('User Profile Manager', () => {
             await expect(manager.create({})).rejects.toThrow('Failed to create user profile');
         });
 
+        it('should clear the hourly wage and home currency when updated to null and leave them when undefined', async () => {
+            const update = vi.fn().mockReturnValue({
+                eq: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        single: vi.fn().mockResolvedValue({
+                            data: { id: 'test-id', financial_goals: [], created_at: '2026-01-15T12:00:00.000Z', updated_at: '2026-01-15T12:00:00.000Z' },
+                            error: null,
+                        }),
+                    }),
+                }),
+            });
+            mockFrom.mockReturnValue({ update });
+
+            await manager.update('test-id', { hourlyWage: null, homeCurrency: null });
+            await manager.update('test-id', { savingsGoal: 100 });
+
+            expect(update.mock.calls[0][0]).toEqual({ hourly_wage: null, home_currency: null });
+            expect(update.mock.calls[1][0]).not.toHaveProperty('hourly_wage');
+            expect(update.mock.calls[1][0]).not.toHaveProperty('home_currency');
+        });
+
+        it('should clear the opportunity cost settings when updated to null', async () => {
+            const update = vi.fn().mockReturnValue({
+                eq: vi.fn().mockReturnValue({
+                    select: vi.fn().mockReturnValue({
+                        single: vi.fn().mockResolvedValue({
+                            data: { id: 'test-id', financial_goals: [], created_at: '2026-01-15T12:00:00.000Z', updated_at: '2026-01-15T12:00:00.000Z' },
+                            error: null,
+                        }),
+                    }),
+                }),
+            });
+            mockFrom.mockReturnValue({ update });
+
+            const profile = await manager.update('test-id', {
+                investmentGrowthRate: null,
+                inflationRate: null,
+                contributionTiming: null,
+                projectionHorizons: null,
+                projectionMode: null,
+                returnVolatility: null,
+            });
+
+            expect(update.mock.calls[0][0]).toEqual({
+                investment_growth_rate: null,
+                inflation_rate: null,
+                contribution_timing: null,
+                projection_horizons: null,
+                projection_mode: null,
+                return_volatility: null,
+            });
+            expect(profile.investmentGrowthRate).toBeUndefined();
+            expect(profile.projectionMode).toBeUndefined();
+        });
+
         it('should convert dates correctly', async () => {
             const now = '2026-01-15T12:00:00.000Z';
             const dbResponse = {
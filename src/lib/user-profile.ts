@@ -1,6 +1,7 @@
 // User Profile Manager
 import { supabase, DbUserProfile } from './supabase';
-import type { UserProfile } from './types';
+import { DEFAULT_COACHING_PERSONA } from './coaching-persona';
+import type { UserProfile, UserProfileUpdate } from './types';
 
 // Convert database format to application format
 function dbToUserProfile(db: DbUserProfile): UserProfile {
@@ -11,13 +12,23 @@ function dbToUserProfile(db: DbUserProfile): UserProfile {
         financialGoals: db.financial_goals || [],
         spendingThreshold: db.spending_threshold,
         coolDownEnabled: db.cooldown_enabled,
+        imageAnalysisEnabled: db.image_analysis_enabled ?? true,
+        coachingPersona: db.coaching_persona ?? DEFAULT_COACHING_PERSONA,
+        investmentGrowthRate: db.investment_growth_rate ?? undefined,
+        inflationRate: db.inflation_rate ?? undefined,
+        contributionTiming: db.contribution_timing ?? undefined,
+        projectionHorizons: db.projection_horizons ?? undefined,
+        projectionMode: db.projection_mode ?? undefined,
+        returnVolatility: db.return_volatility ?? undefined,
+        homeCurrency: db.home_currency ?? undefined,
+        hourlyWage: db.hourly_wage ?? undefined,
         createdAt: new Date(db.created_at),
         updatedAt: new Date(db.updated_at),
     };
 }
 
 // Convert application format to database format
-function userProfileToDb(profile: Partial<UserProfile>): Partial<DbUserProfile> {
+function userProfileToDb(profile: UserProfileUpdate): Partial<DbUserProfile> {
     const db: Partial<DbUserProfile> = {};
 
     if (profile.savingsGoal !== undefined) db.savings_goal = profile.savingsGoal;
@@ -25,6 +36,16 @@ function userProfileToDb(profile: Partial<UserProfile>): Partial<DbUserProfile>
     if (profile.financialGoals !== undefined) db.financial_goals = profile.financialGoals;
     if (profile.spendingThreshold !== undefined) db.spending_threshold = profile.spendingThreshold;
     if (profile.coolDownEnabled !== undefined) db.cooldown_enabled = profile.coolDownEnabled;
+    if (profile.imageAnalysisEnabled !== undefined) db.image_analysis_enabled = profile.imageAnalysisEnabled;
+    if (profile.coachingPersona !== undefined) db.coaching_persona = profile.coachingPersona;
+    if (profile.investmentGrowthRate !== undefined) db.investment_growth_rate = profile.investmentGrowthRate;
+    if (profile.inflationRate !== undefined) db.inflation_rate = profile.inflationRate;
+    if (profile.contributionTiming !== undefined) db.contribution_timing = profile.contributionTiming;
+    if (profile.projectionHorizons !== undefined) db.projection_horizons = profile.projectionHorizons;
+    if (profile.projectionMode !== undefined) db.projection_mode = profile.projectionMode;
+    if (profile.returnVolatility !== undefined) db.return_volatility = profile.returnVolatility;
+    if (profile.homeCurrency !== undefined) db.home_currency = profile.homeCurrency;
+    if (profile.hourlyWage !== undefined) db.hourly_wage = profile.hourlyWage;
 
     return db;
 }
@@ -44,7 +65,7 @@ export class UserProfileManager {
         return dbToUserProfile(data as DbUserProfile);
     }
 
-    async create(profile: Partial<UserProfile> & { id?: string } = {}): Promise<UserProfile> {
+    async create(profile: UserProfileUpdate & { id?: string } = {}): Promise<UserProfile> {
         const dbProfile: Partial<DbUserProfile> = userProfileToDb(profile);
 
         // If an ID is provided, use it
@@ -65,7 +86,7 @@ export class UserProfileManager {
         return dbToUserProfile(data as DbUserProfile);
     }
 
-    async update(userId: string, updates: Partial<UserProfile>): Promise<UserProfile> {
+    async update(userId: string, updates: UserProfileUpdate): Promise<UserProfile> {
         const dbUpdates = userProfileToDb(updates);
 
         const { data, error } = await supabase
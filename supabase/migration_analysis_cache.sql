@@ -0,0 +1,16 @@
+-- Migration: Add analysis cache table
+-- Stores analyses keyed by product identity, price, currency and profile hash
+
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  cache_key TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
+  outcome JSONB NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_user_id ON analysis_cache(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON analysis_cache(expires_at);
+
+ALTER TABLE analysis_cache ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for analysis_cache" ON analysis_cache FOR ALL USING (true);
@@ -0,0 +1,5 @@
+-- Migration: Add coaching persona to user profiles
+-- Sets the tone of personalized messages; 'gentle' matches the previous tone
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS coaching_persona TEXT DEFAULT 'gentle'
+  CHECK (coaching_persona IN ('gentle', 'neutral', 'tough_love', 'humorous'));
@@ -0,0 +1,27 @@
+-- Migration: Add daily usage table for per-user quota budgets
+-- Counts model-backed analyses and tokens per user per UTC day
+
+-- Daily request and token usage per user, for quota budgets
+CREATE TABLE IF NOT EXISTS daily_usage (
+  subject TEXT NOT NULL,
+  day DATE NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  tokens BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (subject, day)
+);
+
+ALTER TABLE daily_usage ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for daily_usage" ON daily_usage FOR ALL USING (true);
+
+-- Atomically add to a subject's usage for the day
+CREATE OR REPLACE FUNCTION increment_daily_usage(p_subject TEXT, p_day DATE, p_requests INTEGER, p_tokens BIGINT)
+RETURNS daily_usage AS $$
+  INSERT INTO daily_usage (subject, day, requests, tokens)
+  VALUES (p_subject, p_day, p_requests, p_tokens)
+  ON CONFLICT (subject, day) DO UPDATE
+  SET requests = daily_usage.requests + EXCLUDED.requests,
+      tokens = daily_usage.tokens + EXCLUDED.tokens,
+      updated_at = NOW()
+  RETURNING *;
+$$ language 'sql';
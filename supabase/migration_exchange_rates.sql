@@ -0,0 +1,14 @@
+-- Migration: Add shared exchange rate table
+-- Replaced rates are stored here so every server instance converts prices
+-- with the same table; a single row holds the table in use
+
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id TEXT PRIMARY KEY,
+  base TEXT NOT NULL,
+  as_of DATE NOT NULL,
+  rates JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for exchange_rates" ON exchange_rates FOR ALL USING (true);
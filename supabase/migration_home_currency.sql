@@ -0,0 +1,4 @@
+-- Migration: Add home currency to user profiles
+-- Prices in other currencies are converted into it; NULL compares them as-is
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS home_currency TEXT;
@@ -0,0 +1,4 @@
+-- Migration: Add hourly take-home wage to user profiles
+-- Used to show prices as hours of work; NULL leaves it out
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS hourly_wage DECIMAL;
@@ -0,0 +1,4 @@
+-- Migration: Add image analysis privacy setting
+-- Lets users keep product images from being sent to the model
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS image_analysis_enabled BOOLEAN DEFAULT true;
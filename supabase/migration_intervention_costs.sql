@@ -0,0 +1,6 @@
+-- Migration: Record token usage and model spend on interventions
+-- Left null when no model call was made, e.g. for a cached analysis
+
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS completion_tokens INTEGER;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 8);
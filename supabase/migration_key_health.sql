@@ -0,0 +1,20 @@
+-- Migration: Add shared API key health table
+-- Lets every server instance see key failures and rate-limit cooldowns;
+-- keys are stored by hash only and rows expire
+
+CREATE TABLE IF NOT EXISTS key_health (
+  key_id TEXT PRIMARY KEY,
+  healthy BOOLEAN NOT NULL DEFAULT true,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_error_at TIMESTAMPTZ,
+  cooldown_until TIMESTAMPTZ,
+  remaining_quota INTEGER,
+  avg_latency_ms REAL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_key_health_expires_at ON key_health(expires_at);
+
+ALTER TABLE key_health ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for key_health" ON key_health FOR ALL USING (true);
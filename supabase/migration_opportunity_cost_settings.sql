@@ -0,0 +1,9 @@
+-- Migration: Add opportunity cost settings to user profiles
+-- NULL keeps the defaults: 7% growth, 3% inflation, invested at the start of
+-- the year, 5/10/20-year horizons
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS investment_growth_rate DECIMAL;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS inflation_rate DECIMAL;
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS contribution_timing TEXT
+  CHECK (contribution_timing IN ('start', 'end'));
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS projection_horizons INTEGER[];
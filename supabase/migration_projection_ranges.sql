@@ -0,0 +1,7 @@
+-- Migration: Add simulated projection ranges to user profiles
+-- NULL keeps a single fixed-rate projection; monte_carlo mode defaults to 15%
+-- volatility
+
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS projection_mode TEXT
+  CHECK (projection_mode IN ('fixed', 'monte_carlo'));
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS return_volatility DECIMAL;
@@ -0,0 +1,8 @@
+-- Migration: Record prompt versions on interventions
+-- Interventions are now written at analysis time, before the user acts, so
+-- user_action becomes nullable and is filled in from engagement tracking
+
+ALTER TABLE interventions ALTER COLUMN user_action DROP NOT NULL;
+ALTER TABLE interventions ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_interventions_prompt_version ON interventions(prompt_version);
@@ -0,0 +1,6 @@
+-- Migration: Record token usage and model spend on reflections
+-- Totals across the coach's turns; left null until a model reply is generated
+
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS prompt_tokens INTEGER;
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS completion_tokens INTEGER;
+ALTER TABLE reflections ADD COLUMN IF NOT EXISTS cost_usd NUMERIC(12, 8);
@@ -0,0 +1,17 @@
+-- Migration: Add reflections table
+-- Stores the guided reflection conversation held about each intervention
+
+CREATE TABLE IF NOT EXISTS reflections (
+  intervention_id UUID PRIMARY KEY REFERENCES interventions(id) ON DELETE CASCADE,
+  user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
+  messages JSONB NOT NULL DEFAULT '[]',
+  questions_asked INTEGER NOT NULL DEFAULT 0,
+  revised_action TEXT CHECK (revised_action IN ('proceed', 'cooldown', 'skip')),
+  completed BOOLEAN DEFAULT false,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reflections_user_id ON reflections(user_id);
+
+ALTER TABLE reflections ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Allow all for reflections" ON reflections FOR ALL USING (true);
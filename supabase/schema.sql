@@ -12,6 +12,16 @@ CREATE TABLE IF NOT EXISTS user_profiles (
   financial_goals TEXT[] DEFAULT '{}',
   spending_threshold DECIMAL DEFAULT 20,
   cooldown_enabled BOOLEAN DEFAULT true,
+  image_analysis_enabled BOOLEAN DEFAULT true,
+  coaching_persona TEXT DEFAULT 'gentle' CHECK (coaching_persona IN ('gentle', 'neutral', 'tough_love', 'humorous')),
+  investment_growth_rate DECIMAL,
+  inflation_rate DECIMAL,
+  contribution_timing TEXT CHECK (contribution_timing IN ('start', 'end')),
+  projection_horizons INTEGER[],
+  projection_mode TEXT CHECK (projection_mode IN ('fixed', 'monte_carlo')),
+  return_volatility DECIMAL,
+  home_currency TEXT,
+  hourly_wage DECIMAL,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -35,10 +45,69 @@ CREATE TABLE IF NOT EXISTS interventions (
   user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
   product_info JSONB NOT NULL,
   analysis_result JSONB NOT NULL,
-  user_action TEXT NOT NULL CHECK (user_action IN ('dismissed', 'cooldown_started', 'proceeded')),
+  user_action TEXT CHECK (user_action IN ('dismissed', 'cooldown_started', 'proceeded')),
+  prompt_version TEXT,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  cost_usd NUMERIC(12, 8),
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Guided reflection conversations, one per intervention
+CREATE TABLE IF NOT EXISTS reflections (
+  intervention_id UUID PRIMARY KEY REFERENCES interventions(id) ON DELETE CASCADE,
+  user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
+  messages JSONB NOT NULL DEFAULT '[]',
+  questions_asked INTEGER NOT NULL DEFAULT 0,
+  revised_action TEXT CHECK (revised_action IN ('proceed', 'cooldown', 'skip')),
+  completed BOOLEAN DEFAULT false,
+  prompt_tokens INTEGER,
+  completion_tokens INTEGER,
+  cost_usd NUMERIC(12, 8),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Cached analyses keyed by product identity, price, currency and profile hash
+CREATE TABLE IF NOT EXISTS analysis_cache (
+  cache_key TEXT PRIMARY KEY,
+  user_id TEXT REFERENCES user_profiles(id) ON DELETE CASCADE,
+  outcome JSONB NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- API key health shared across server instances, keyed by key hash
+CREATE TABLE IF NOT EXISTS key_health (
+  key_id TEXT PRIMARY KEY,
+  healthy BOOLEAN NOT NULL DEFAULT true,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  last_error_at TIMESTAMPTZ,
+  cooldown_until TIMESTAMPTZ,
+  remaining_quota INTEGER,
+  avg_latency_ms REAL,
+  updated_at TIMESTAMPTZ NOT NULL,
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Daily request and token usage per user, for quota budgets
+CREATE TABLE IF NOT EXISTS daily_usage (
+  subject TEXT NOT NULL,
+  day DATE NOT NULL,
+  requests INTEGER NOT NULL DEFAULT 0,
+  tokens BIGINT NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (subject, day)
+);
+
+-- Exchange rate table in use, shared across server instances; one row
+CREATE TABLE IF NOT EXISTS exchange_rates (
+  id TEXT PRIMARY KEY,
+  base TEXT NOT NULL,
+  as_of DATE NOT NULL,
+  rates JSONB NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_cooldowns_user_id ON cooldowns(user_id);
 CREATE INDEX IF NOT EXISTS idx_cooldowns_product_url ON cooldowns(product_url);
@@ -46,17 +115,32 @@ CREATE INDEX IF NOT EXISTS idx_cooldowns_status ON cooldowns(status);
 CREATE INDEX IF NOT EXISTS idx_cooldowns_expires_at ON cooldowns(expires_at);
 CREATE INDEX IF NOT EXISTS idx_interventions_user_id ON interventions(user_id);
 CREATE INDEX IF NOT EXISTS idx_interventions_created_at ON interventions(created_at);
+CREATE INDEX IF NOT EXISTS idx_interventions_prompt_version ON interventions(prompt_version);
+CREATE INDEX IF NOT EXISTS idx_reflections_user_id ON reflections(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_user_id ON analysis_cache(user_id);
+CREATE INDEX IF NOT EXISTS idx_analysis_cache_expires_at ON analysis_cache(expires_at);
+CREATE INDEX IF NOT EXISTS idx_key_health_expires_at ON key_health(expires_at);
 
 -- Row Level Security (RLS) policies
 ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE cooldowns ENABLE ROW LEVEL SECURITY;
 ALTER TABLE interventions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reflections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE analysis_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE key_health ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE exchange_rates ENABLE ROW LEVEL SECURITY;
 
 -- For now, allow all operations (in production, you'd use auth.uid())
 -- These policies allow the service role to access all data
 CREATE POLICY "Allow all for user_profiles" ON user_profiles FOR ALL USING (true);
 CREATE POLICY "Allow all for cooldowns" ON cooldowns FOR ALL USING (true);
 CREATE POLICY "Allow all for interventions" ON interventions FOR ALL USING (true);
+CREATE POLICY "Allow all for reflections" ON reflections FOR ALL USING (true);
+CREATE POLICY "Allow all for analysis_cache" ON analysis_cache FOR ALL USING (true);
+CREATE POLICY "Allow all for key_health" ON key_health FOR ALL USING (true);
+CREATE POLICY "Allow all for daily_usage" ON daily_usage FOR ALL USING (true);
+CREATE POLICY "Allow all for exchange_rates" ON exchange_rates FOR ALL USING (true);
 
 -- Function to update updated_at timestamp
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -73,6 +157,18 @@ CREATE TRIGGER update_user_profiles_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_updated_at_column();
 
+-- Atomically add to a subject's usage for the day
+CREATE OR REPLACE FUNCTION increment_daily_usage(p_subject TEXT, p_day DATE, p_requests INTEGER, p_tokens BIGINT)
+RETURNS daily_usage AS $$
+  INSERT INTO daily_usage (subject, day, requests, tokens)
+  VALUES (p_subject, p_day, p_requests, p_tokens)
+  ON CONFLICT (subject, day) DO UPDATE
+  SET requests = daily_usage.requests + EXCLUDED.requests,
+      tokens = daily_usage.tokens + EXCLUDED.tokens,
+      updated_at = NOW()
+  RETURNING *;
+$$ language 'sql';
+
 -- Function to auto-expire cooldowns
 CREATE OR REPLACE FUNCTION expire_cooldowns()
 RETURNS void AS $$